@@ -0,0 +1,27 @@
+/**
+ * @fileoverview ANSI escape sequence helpers for Chronoscribe CLI
+ *
+ * Tools like Vite, Jest and Nest color their output. Escape sequences are
+ * stripped before parsing and searching, and kept separately so the
+ * dashboard can render the colors.
+ */
+
+/**
+ * CSI sequences (colors, cursor movement), OSC sequences (titles,
+ * hyperlinks) and other two-character escapes.
+ */
+const ANSI_PATTERN = /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+/**
+ * Whether text contains any escape sequences.
+ */
+export function hasAnsi(text: string): boolean {
+    return text.includes('\u001b');
+}
+
+/**
+ * Remove all escape sequences from text.
+ */
+export function stripAnsi(text: string): string {
+    return hasAnsi(text) ? text.replace(ANSI_PATTERN, '') : text;
+}
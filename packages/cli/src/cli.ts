@@ -5,8 +5,24 @@
  * and helpful defaults.
  */
 
+import path from 'node:path';
 import { Command } from 'commander';
 import { SERVER_DEFAULTS } from '@chronoscribe/shared';
+import {
+    DEFAULT_HISTORY_DIR,
+    DEFAULT_RETENTION_DAYS,
+    DEFAULT_RETENTION_MB,
+    type ServerOptions,
+} from '@chronoscribe/server';
+import { resolveDemuxPattern } from './demux.js';
+import { FORMAT_NAMES, isFormatName, type FormatName } from './format-presets.js';
+import { parseMinLevel, type LineFilterOptions } from './line-filter.js';
+import { RATE_LIMIT_MODES, isRateLimitMode, type RateLimitOptions } from './rate-limiter.js';
+import { DEFAULT_MULTILINE_TIMEOUT_MS, type MultilineOptions } from './multiline.js';
+import type { RedactOptions } from './redact.js';
+import { SESSION_ACTIONS, isSessionAction, type SessionAction } from './session-command.js';
+import { DEFAULT_SPOOL_DIR, DEFAULT_SPOOL_MAX_BYTES, type SpoolOptions } from './spool.js';
+import type { TeeMode } from './tee.js';
 
 /**
  * Parsed CLI options.
@@ -20,11 +36,64 @@ export interface CliOptions {
     color?: string;
     /** Custom regex pattern for log level detection */
     levelPattern?: string;
+    /** Line format or preset */
+    format: FormatName;
+    /** Prefix pattern for splitting lines into virtual sources */
+    demux?: RegExp;
+    /** Multi-line grouping of stack traces (disabled when unset) */
+    multiline?: MultilineOptions;
+    /** Echo lines to the terminal (disabled when unset) */
+    tee?: TeeMode;
+    /** Suppress the banner and status lines */
+    quiet: boolean;
+    /** Secret redaction (built-in detectors and custom rules) */
+    redact: RedactOptions;
+    /** Include/exclude patterns and minimum level */
+    filter: LineFilterOptions;
+    /** Per-source rate limit (unlimited when unset) */
+    rateLimit?: RateLimitOptions;
+    /** Path of a transform module applied to every parsed line */
+    transform?: string;
+    /** Spool unsent lines to disk (in-memory buffer when unset) */
+    spool?: SpoolOptions;
+    /** Keep reconnecting instead of exiting when the server is gone */
+    retryForever: boolean;
+    /** Command to spawn and capture (run mode) */
+    command?: string[];
+    /** Files or glob patterns to follow (file mode) */
+    files: string[];
+    /** Read followed files from the beginning */
+    fromBeginning: boolean;
+    /** Start followed files from their last N lines */
+    lines?: number;
+    /** Services to start from the project config (up mode) */
+    up?: {
+        /** Service names to start (empty = all autostart services) */
+        services: string[];
+        /** Explicit config file path */
+        config?: string;
+    };
+    /** Capture session to start or stop on the server (session mode) */
+    session?: {
+        action: SessionAction;
+        /** Label for a new session */
+        label: string;
+    };
     // Server mode options
     serve: boolean;
     open: boolean;
     wsPort: number;
     httpPort: number;
+    /** Per-source ceiling enforced by the server (lines per second) */
+    maxSourceRate?: number;
+    /** Port for the server's syslog listener (UDP and TCP) */
+    syslogPort?: number;
+    /** Port for the server's raw TCP line listener */
+    tcpPort?: number;
+    /** Extra port for the server's OTLP/HTTP logs endpoint */
+    otlpPort?: number;
+    /** Persistent log history kept by the server */
+    history?: ServerOptions['history'];
 }
 
 /**
@@ -33,6 +102,9 @@ export interface CliOptions {
 export function parseArgs(argv: string[] = process.argv): CliOptions {
     const program = new Command();
     const defaultServerUrl = `ws://localhost:${SERVER_DEFAULTS.WS_PORT}`;
+    let command: string[] | undefined;
+    let up: CliOptions['up'];
+    let session: { action: string; label: string } | undefined;
 
     program
         .name('chronoscribe')
@@ -46,27 +118,263 @@ export function parseArgs(argv: string[] = process.argv): CliOptions {
             '--level-pattern <regex>',
             'Custom regex for log level detection (must have named group "level")'
         )
+        .option(
+            '--transform <path>',
+            'Module (.js or .ts) exporting a function that rewrites or drops parsed lines'
+        )
+        .option(
+            '--format <format>',
+            `Line format or preset: ${FORMAT_NAMES.join(', ')}`,
+            'auto'
+        )
+        .option(
+            '--demux <preset|regex>',
+            'Split prefixed lines into separate sources (compose, turbo, kubectl, or a regex with a "source" group)'
+        )
+        .option('--multiline', 'Group stack traces and indented continuation lines into one entry')
+        .option('--multiline-start <regex>', 'Regex matching the first line of each event (implies --multiline)')
+        .option(
+            '--multiline-timeout <ms>',
+            'Flush a grouped event after this long without new lines',
+            String(DEFAULT_MULTILINE_TIMEOUT_MS)
+        )
+        // Terminal output options
+        .option('--tee', 'Echo every line to stdout while sending it to the server', false)
+        .option('--tee-pretty', 'Like --tee, prefixed with the source name and level in color', false)
+        .option('-q, --quiet', 'Suppress the banner and status lines on stderr', false)
+        // Filtering options
+        .option(
+            '--include <regex>',
+            'Only send lines matching this regex (repeatable; any match keeps the line)',
+            (value: string, previous: string[]) => [...previous, value],
+            [] as string[]
+        )
+        .option(
+            '--exclude <regex>',
+            'Drop lines matching this regex (repeatable)',
+            (value: string, previous: string[]) => [...previous, value],
+            [] as string[]
+        )
+        .option('--min-level <level>', 'Drop lines below this level (debug, info, warn, error)')
+        .option('--max-rate <n>', 'Limit each source to N lines per second')
+        .option(
+            '--rate-mode <mode>',
+            `Lines beyond --max-rate: ${RATE_LIMIT_MODES.join(', ')}`,
+            'drop'
+        )
+        // Redaction options
+        .option(
+            '--redact <regex>',
+            'Mask matches before sending; a named group "secret" masks only that part (repeatable)',
+            (value: string, previous: string[]) => [...previous, value],
+            [] as string[]
+        )
+        .option('--no-redact-builtins', 'Disable the built-in detectors (JWTs, AWS keys, bearer tokens, URL credentials, emails)')
+        // Delivery options
+        .option('--spool-dir <dir>', 'Directory for lines spooled while the server is unreachable', DEFAULT_SPOOL_DIR)
+        .option(
+            '--spool-max-mb <n>',
+            'Maximum spool size per source in MB; newer lines are dropped beyond it',
+            String(DEFAULT_SPOOL_MAX_BYTES / (1024 * 1024))
+        )
+        .option('--no-spool', 'Buffer at most 1000 lines in memory instead of spooling to disk')
+        .option('--retry-forever', 'Never give up reconnecting to the server', false)
+        // File mode options
+        .option(
+            '--file <path|glob>',
+            'Follow a file or glob pattern like tail -F (repeatable)',
+            (value: string, previous: string[]) => [...previous, value],
+            [] as string[]
+        )
+        .option('--from-beginning', 'Read followed files from the beginning', false)
+        .option('--lines <n>', 'Start followed files from their last N lines')
         // Server mode options
         .option('-S, --serve', 'Start the Chronoscribe server and dashboard', false)
         .option('--no-open', 'Do not open the dashboard in the browser automatically', true)
         .option('--ws-port <port>', 'WebSocket server port', String(SERVER_DEFAULTS.WS_PORT))
         .option('--http-port <port>', 'Dashboard HTTP server port', '3211')
+        .option('--max-source-rate <n>', 'Server: drop lines beyond N per second from any one source')
+        .option('--syslog-port <port>', 'Server: accept syslog over UDP and TCP on this port')
+        .option('--tcp-port <port>', 'Server: accept newline-delimited lines over TCP on this port')
+        .option('--otlp-port <port>', 'Server: also accept OTLP/HTTP logs on this port (e.g. 4318)')
+        .option('--history', 'Server: keep the log history on disk so it survives restarts', false)
+        .option('--history-dir <dir>', 'Server: directory for the log history', DEFAULT_HISTORY_DIR)
+        .option(
+            '--retention-days <n>',
+            'Server: delete history older than N days',
+            String(DEFAULT_RETENTION_DAYS)
+        )
+        .option(
+            '--retention-mb <n>',
+            'Server: delete the oldest history beyond N MB',
+            String(DEFAULT_RETENTION_MB)
+        )
         .addHelpText('after', `
 Examples:
   $ npm start | chronoscribe --name frontend
   $ docker logs -f mydb | chronoscribe --name database --color "#FF6B6B"
+  $ chronoscribe run --name api -- npm run dev
+  $ npm run dev | chronoscribe --name web --tee --quiet
+  $ docker compose logs -f | chronoscribe --name compose --demux compose
+  $ java -jar app.jar | chronoscribe --name app --multiline
+  $ ./api-server | chronoscribe --name api --format logfmt
+  $ docker logs -f db | chronoscribe --name db --format postgres
+  $ npm run dev | chronoscribe --name api --exclude "GET /health" --min-level info
+  $ ./flaky-worker | chronoscribe --name worker --max-rate 50 --rate-mode collapse
+  $ npm run dev | chronoscribe --name api --redact "password=(?<secret>\\S+)"
+  $ chronoscribe --name legacy --file "logs/*.log" --lines 50
+  $ ./worker | chronoscribe --name worker --retry-forever --spool-max-mb 512
+  $ chronoscribe up
+  $ chronoscribe up api worker --config ./dev/chronoscribe.config.json
   $ chronoscribe --serve
-    `);
+  $ chronoscribe --serve --history --retention-days 3
+  $ chronoscribe session start "login bug repro #2"
+  $ chronoscribe session stop
+    `)
+        // Default action: pipe mode (or serve mode with --serve)
+        .action(() => { });
+
+    program
+        .command('run')
+        .description('Spawn a command and capture its stdout and stderr')
+        .argument('<command...>', 'Command to run (put it after "--" to pass flags through)')
+        .action((args: string[]) => {
+            command = args;
+        });
+
+    program
+        .command('up')
+        .description('Start the services listed in chronoscribe.config.json or a Procfile')
+        .argument('[services...]', 'Services to start (default: all)')
+        .option('-f, --config <path>', 'Path to the project config file')
+        .action((services: string[], upOpts: { config?: string }) => {
+            up = { services, config: upOpts.config };
+        });
+
+    program
+        .command('session')
+        .description('Start, stop or list named capture sessions on the server')
+        .argument('<action>', SESSION_ACTIONS.join(', '))
+        .argument('[label...]', 'Label for a new session')
+        .action((action: string, label: string[]) => {
+            session = { action, label: label.join(' ') };
+        });
 
     program.parse(argv);
     const opts = program.opts();
 
-    // Default name if not provided
+    // Default name if not provided: the command's basename in run mode
     let name = opts.name;
-    if (!name && !opts.serve) {
+    if (!name && command?.[0]) {
+        name = path.basename(command[0].split(' ')[0] ?? command[0]);
+    }
+    // A single plain file names the source after itself
+    if (!name && opts.file.length === 1 && !/[*?[{]/.test(opts.file[0])) {
+        name = path.basename(opts.file[0]);
+    }
+    if (!name && !opts.serve && !up && opts.file.length === 0) {
         name = `cli-${Math.floor(Math.random() * 1000)}`;
     }
 
+    const lines = opts.lines !== undefined ? parseInt(opts.lines, 10) : undefined;
+    if (lines !== undefined && (Number.isNaN(lines) || lines < 0)) {
+        console.error(`Error: Invalid --lines value: ${opts.lines}`);
+        process.exit(1);
+    }
+
+    if (session && !isSessionAction(session.action)) {
+        console.error(`Error: Invalid session action: ${session.action} (expected ${SESSION_ACTIONS.join(', ')})`);
+        process.exit(1);
+    }
+
+    if (!isFormatName(opts.format)) {
+        console.error(`Error: Invalid --format value: ${opts.format} (expected ${FORMAT_NAMES.join(', ')})`);
+        process.exit(1);
+    }
+
+    const minLevel = opts.minLevel !== undefined ? parseMinLevel(opts.minLevel) : undefined;
+    if (minLevel === null) {
+        console.error(`Error: Invalid --min-level value: ${opts.minLevel} (expected debug, info, warn or error)`);
+        process.exit(1);
+    }
+
+    let rateLimit: RateLimitOptions | undefined;
+    if (opts.maxRate !== undefined) {
+        const maxRate = Number(opts.maxRate);
+        if (!(maxRate > 0)) {
+            console.error(`Error: Invalid --max-rate value: ${opts.maxRate}`);
+            process.exit(1);
+        }
+        if (!isRateLimitMode(opts.rateMode)) {
+            console.error(`Error: Invalid --rate-mode value: ${opts.rateMode} (expected ${RATE_LIMIT_MODES.join(', ')})`);
+            process.exit(1);
+        }
+        rateLimit = { maxRate, mode: opts.rateMode };
+    }
+
+    const maxSourceRate = opts.maxSourceRate !== undefined ? Number(opts.maxSourceRate) : undefined;
+    if (maxSourceRate !== undefined && !(maxSourceRate > 0)) {
+        console.error(`Error: Invalid --max-source-rate value: ${opts.maxSourceRate}`);
+        process.exit(1);
+    }
+
+    let history: CliOptions['history'];
+    if (opts.history) {
+        const retentionDays = Number(opts.retentionDays);
+        if (!(retentionDays > 0)) {
+            console.error(`Error: Invalid --retention-days value: ${opts.retentionDays}`);
+            process.exit(1);
+        }
+        const retentionMb = Number(opts.retentionMb);
+        if (!(retentionMb > 0)) {
+            console.error(`Error: Invalid --retention-mb value: ${opts.retentionMb}`);
+            process.exit(1);
+        }
+        history = {
+            dir: path.resolve(opts.historyDir),
+            maxAgeMs: retentionDays * 24 * 60 * 60_000,
+            maxBytes: Math.floor(retentionMb * 1024 * 1024),
+        };
+    }
+
+    let spool: SpoolOptions | undefined;
+    if (opts.spool) {
+        const maxMb = Number(opts.spoolMaxMb);
+        if (!Number.isFinite(maxMb) || maxMb <= 0) {
+            console.error(`Error: Invalid --spool-max-mb value: ${opts.spoolMaxMb}`);
+            process.exit(1);
+        }
+        spool = { dir: path.resolve(opts.spoolDir), maxBytes: Math.floor(maxMb * 1024 * 1024) };
+    }
+
+    let demux: RegExp | undefined;
+    if (opts.demux) {
+        try {
+            demux = resolveDemuxPattern(opts.demux);
+        } catch (error) {
+            console.error(`Error: ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    }
+
+    let multiline: MultilineOptions | undefined;
+    if (opts.multiline || opts.multilineStart) {
+        const timeoutMs = parseInt(opts.multilineTimeout, 10);
+        if (Number.isNaN(timeoutMs) || timeoutMs < 0) {
+            console.error(`Error: Invalid --multiline-timeout value: ${opts.multilineTimeout}`);
+            process.exit(1);
+        }
+        multiline = { timeoutMs };
+        if (opts.multilineStart) {
+            try {
+                multiline.startPattern = new RegExp(opts.multilineStart);
+            } catch (error) {
+                console.error(`Error: Invalid --multiline-start pattern: ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            }
+        }
+    }
+
     // Validate server URL
     try {
         new URL(opts.server);
@@ -80,11 +388,67 @@ Examples:
         color: opts.color,
         server: opts.server,
         levelPattern: opts.levelPattern,
+        transform: opts.transform,
+        format: opts.format,
+        demux,
+        multiline,
+        tee: opts.teePretty ? 'pretty' : opts.tee ? 'plain' : undefined,
+        quiet: opts.quiet,
+        redact: { builtins: opts.redactBuiltins, rules: compilePatterns('--redact', opts.redact) },
+        filter: {
+            include: compilePatterns('--include', opts.include),
+            exclude: compilePatterns('--exclude', opts.exclude),
+            minLevel,
+        },
+        rateLimit,
+        spool,
+        retryForever: opts.retryForever,
+        command,
+        files: opts.file,
+        fromBeginning: opts.fromBeginning,
+        lines,
+        up,
+        session: session && isSessionAction(session.action)
+            ? { action: session.action, label: session.label }
+            : undefined,
         serve: opts.serve,
         open: opts.open, // Logic inverted in 'program' definition? 'no-open' implies default true. 
         // Commander handles boolean negation for flags starting with --no. 
         // If I say .option('--no-open'), the option key becomes 'open' with value false if flag present, true if not.
         wsPort: parseInt(opts.wsPort, 10),
         httpPort: parseInt(opts.httpPort, 10),
+        maxSourceRate,
+        syslogPort: parseListenerPort('--syslog-port', opts.syslogPort),
+        tcpPort: parseListenerPort('--tcp-port', opts.tcpPort),
+        otlpPort: parseListenerPort('--otlp-port', opts.otlpPort),
+        history,
     };
 }
+
+/**
+ * Compile the values of a repeatable regex option, exiting on an invalid pattern.
+ */
+function compilePatterns(flag: string, values: string[]): RegExp[] {
+    return values.map((value) => {
+        try {
+            return new RegExp(value);
+        } catch (error) {
+            console.error(`Error: Invalid ${flag} pattern: ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+}
+
+/**
+ * Parse the port of an optional server listener, exiting on an invalid value.
+ */
+function parseListenerPort(flag: string, value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        console.error(`Error: Invalid ${flag} value: ${value}`);
+        process.exit(1);
+    }
+    return port;
+}
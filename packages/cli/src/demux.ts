@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Demultiplexer for prefixed aggregate streams
+ *
+ * Splits lines like `api-1  | listening` (docker compose) or
+ * `web:dev: ready` (turborepo) into virtual sources, each registered
+ * with the server as its own source connection.
+ */
+
+import { hasAnsi, stripAnsi } from './ansi.js';
+import type { WebSocketClient } from './websocket-client.js';
+import { logger } from './logger.js';
+
+/**
+ * Built-in prefix patterns. Each has a named group `source` and
+ * optionally `content` (defaults to the rest of the line).
+ */
+export const DEMUX_PRESETS: Record<string, RegExp> = {
+    // docker compose logs -f: "api-1  | message"
+    compose: /^(?<source>[\w.-]+)\s*\| ?(?<content>.*)$/,
+    // turbo run dev: "web:dev: message" or "@acme/ui:build:css: message"
+    turbo: /^(?<source>[@\w./-]+):[\w:.-]+?: (?<content>.*)$/,
+    // kubectl logs --prefix: "[pod/api-7d9f/api] message"
+    kubectl: /^\[(?:pod\/)?(?<source>[^\]\s]+)\] (?<content>.*)$/,
+};
+
+/**
+ * How long close() waits for virtual sources that are still connecting.
+ */
+const CLOSE_TIMEOUT_MS = 3000;
+
+/**
+ * Resolve a `--demux` value to a regex: a preset name or a custom
+ * pattern containing a named group `source`.
+ * Throws if the pattern is invalid.
+ */
+export function resolveDemuxPattern(spec: string): RegExp {
+    const preset = DEMUX_PRESETS[spec];
+    if (preset) return preset;
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(spec);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Invalid demux pattern: ${message}`);
+    }
+    if (!spec.includes('(?<source>')) {
+        throw new Error(
+            `Demux pattern must contain a named group "source" or be one of: ${Object.keys(DEMUX_PRESETS).join(', ')}`
+        );
+    }
+    return regex;
+}
+
+/**
+ * Result of splitting a prefixed line.
+ */
+export interface DemuxedLine {
+    /** Virtual source name from the prefix */
+    source: string;
+    /** Line with the prefix removed */
+    content: string;
+}
+
+/**
+ * Split a line into its source prefix and content.
+ * Returns null if the line has no recognizable prefix.
+ */
+export function demuxLine(line: string, pattern: RegExp): DemuxedLine | null {
+    const match = line.match(pattern);
+    const source = match?.groups?.['source']?.trim();
+    if (!match || !source) return null;
+
+    const content = match.groups?.['content'] ?? line.slice((match.index ?? 0) + match[0].length);
+    return { source, content };
+}
+
+/**
+ * Routes lines to one WebSocket client per virtual source,
+ * connecting new sources lazily as their prefixes appear.
+ */
+export class Demultiplexer {
+    private clients: Map<string, WebSocketClient> = new Map();
+    private pendingConnections: Promise<void>[] = [];
+    private readonly pattern: RegExp;
+    private readonly fallback: WebSocketClient;
+
+    /**
+     * @param pattern - Prefix pattern with a named group `source`
+     * @param fallback - Client for lines without a prefix; virtual sources
+     *   connect with the same settings
+     */
+    constructor(pattern: RegExp, fallback: WebSocketClient) {
+        this.pattern = pattern;
+        this.fallback = fallback;
+    }
+
+    /**
+     * Pick the client for a line and strip its prefix.
+     */
+    route(line: string): { client: WebSocketClient; line: string } {
+        // Colored prefixes (e.g. `docker compose logs --ansi always`) only match once stripped
+        const demuxed = demuxLine(line, this.pattern)
+            ?? (hasAnsi(line) ? demuxLine(stripAnsi(line), this.pattern) : null);
+        if (!demuxed) {
+            return { client: this.fallback, line };
+        }
+        return { client: this.getClient(demuxed.source), line: demuxed.content };
+    }
+
+    /**
+     * Names of the virtual sources seen so far.
+     */
+    get sources(): string[] {
+        return Array.from(this.clients.keys());
+    }
+
+    /**
+     * Close all virtual source connections, first giving sources that are
+     * still registering a chance to connect and flush their buffered lines.
+     */
+    async close(timeoutMs = CLOSE_TIMEOUT_MS): Promise<void> {
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+            Promise.allSettled(this.pendingConnections),
+            new Promise<void>((resolve) => {
+                timer = setTimeout(resolve, timeoutMs);
+            }),
+        ]);
+        clearTimeout(timer);
+
+        for (const client of this.clients.values()) {
+            client.close();
+        }
+        this.clients.clear();
+    }
+
+    /**
+     * Get or lazily connect the client for a virtual source.
+     * Lines sent before the connection is ready are buffered by the client.
+     */
+    private getClient(source: string): WebSocketClient {
+        let client = this.clients.get(source);
+        if (!client) {
+            client = this.fallback.withSource(source);
+            this.clients.set(source, client);
+            this.pendingConnections.push(
+                client.connect().catch((error: Error) => {
+                    logger.error(`Failed to register source "${source}": ${error.message}`);
+                })
+            );
+        }
+        return client;
+    }
+}
@@ -0,0 +1,404 @@
+/**
+ * @fileoverview File tailer for Chronoscribe CLI
+ *
+ * Follows one or more files (or glob patterns) with `tail -F` semantics:
+ * rotated files are drained and reopened, truncated files are re-read from
+ * the start, and files that appear later and match a glob are picked up.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { StringDecoder } from 'node:string_decoder';
+import { logger } from './logger.js';
+
+/**
+ * Callback for each line read from a file.
+ */
+export type FileLineCallback = (line: string, filePath: string) => void;
+
+/**
+ * Options for the file tailer.
+ */
+export interface FileTailerOptions {
+    /** File paths or glob patterns to follow */
+    patterns: string[];
+    /** Read existing files from the beginning instead of the end */
+    fromBeginning?: boolean;
+    /** Start with the last N lines of existing files (ignored with fromBeginning) */
+    lines?: number;
+    /** How often to check files for changes */
+    pollIntervalMs?: number;
+}
+
+/**
+ * State of a followed file.
+ */
+interface TailedFile {
+    path: string;
+    fd: number;
+    /** Inode and device, used to detect rotation */
+    ino: number;
+    dev: number;
+    /** Byte offset of the next read */
+    position: number;
+    decoder: StringDecoder;
+    /** Incomplete trailing line carried over between reads */
+    partial: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 250;
+
+/**
+ * Globs are re-expanded every N polls to pick up new files.
+ */
+const GLOB_RESCAN_POLLS = 8;
+
+/**
+ * Maximum bytes read from one file per poll, so one busy file
+ * cannot block the others.
+ */
+const MAX_READ_BYTES = 1024 * 1024;
+
+/**
+ * Follows files and reports each complete line.
+ */
+export class FileTailer {
+    private files: Map<string, TailedFile> = new Map();
+    private timer: NodeJS.Timeout | null = null;
+    private pollCount = 0;
+    private readonly options: FileTailerOptions;
+    private readonly onLine: FileLineCallback;
+
+    constructor(options: FileTailerOptions, onLine: FileLineCallback) {
+        this.options = options;
+        this.onLine = onLine;
+    }
+
+    /**
+     * Start following. Existing files are positioned according to the
+     * options; files created later are always read from the beginning.
+     */
+    start(): void {
+        for (const filePath of expandPatterns(this.options.patterns)) {
+            this.open(filePath, true);
+        }
+
+        if (this.files.size === 0) {
+            logger.info(`Waiting for files matching: ${this.options.patterns.join(', ')}`);
+        }
+
+        this.timer = setInterval(
+            () => this.poll(),
+            this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+        );
+    }
+
+    /**
+     * Stop following and close all files, emitting any pending partial lines.
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        for (const file of this.files.values()) {
+            this.flushPartial(file);
+            fs.closeSync(file.fd);
+        }
+        this.files.clear();
+    }
+
+    /**
+     * Paths currently being followed.
+     */
+    get followedFiles(): string[] {
+        return Array.from(this.files.keys());
+    }
+
+    /**
+     * Check every followed file for new data, rotation and truncation.
+     */
+    private poll(): void {
+        this.pollCount++;
+        if (this.pollCount % GLOB_RESCAN_POLLS === 0) {
+            for (const filePath of expandPatterns(this.options.patterns)) {
+                if (!this.files.has(filePath)) {
+                    this.open(filePath, false);
+                }
+            }
+        }
+
+        for (const file of Array.from(this.files.values())) {
+            this.check(file);
+        }
+    }
+
+    /**
+     * Open a file and register it for following.
+     *
+     * @param initial - Whether the file existed when tailing started
+     */
+    private open(filePath: string, initial: boolean): void {
+        let fd: number;
+        try {
+            fd = fs.openSync(filePath, 'r');
+        } catch {
+            return;
+        }
+
+        const stats = fs.fstatSync(fd);
+        if (!stats.isFile()) {
+            fs.closeSync(fd);
+            return;
+        }
+
+        let position = 0;
+        if (initial && !this.options.fromBeginning) {
+            position = this.options.lines
+                ? findLastLinesOffset(fd, stats.size, this.options.lines)
+                : stats.size;
+        }
+
+        const file: TailedFile = {
+            path: filePath,
+            fd,
+            ino: stats.ino,
+            dev: stats.dev,
+            position,
+            decoder: new StringDecoder('utf8'),
+            partial: '',
+        };
+        this.files.set(filePath, file);
+
+        if (!initial) {
+            logger.info(`Following new file: ${filePath}`);
+        }
+        this.read(file);
+    }
+
+    /**
+     * Handle a single followed file during a poll.
+     */
+    private check(file: TailedFile): void {
+        let pathStats: fs.Stats | null;
+        try {
+            pathStats = fs.statSync(file.path);
+        } catch {
+            pathStats = null;
+        }
+
+        // Rotated or deleted: drain what is left of the old file first
+        if (!pathStats || pathStats.ino !== file.ino || pathStats.dev !== file.dev) {
+            this.read(file, true);
+            this.flushPartial(file);
+            fs.closeSync(file.fd);
+            this.files.delete(file.path);
+
+            if (pathStats) {
+                logger.info(`File rotated: ${file.path}`);
+                this.open(file.path, false);
+            }
+            return;
+        }
+
+        // Truncated in place (e.g. `> app.log`): start over
+        if (pathStats.size < file.position) {
+            logger.info(`File truncated: ${file.path}`);
+            file.position = 0;
+            file.partial = '';
+            file.decoder = new StringDecoder('utf8');
+        }
+
+        this.read(file);
+    }
+
+    /**
+     * Read newly appended data and emit complete lines.
+     *
+     * @param toEnd - Read up to the end of the file instead of at most
+     *   MAX_READ_BYTES, as a rotated file is closed afterwards
+     */
+    private read(file: TailedFile, toEnd = false): void {
+        const size = fs.fstatSync(file.fd).size;
+        let remaining = toEnd ? Infinity : Math.min(size - file.position, MAX_READ_BYTES);
+        if (remaining <= 0) return;
+
+        const buffer = Buffer.alloc(Math.min(remaining, 64 * 1024));
+        while (remaining > 0) {
+            const bytesRead = fs.readSync(file.fd, buffer, 0, Math.min(buffer.length, remaining), file.position);
+            if (bytesRead === 0) break;
+            file.position += bytesRead;
+            remaining -= bytesRead;
+            this.emitText(file, file.decoder.write(buffer.subarray(0, bytesRead)));
+        }
+    }
+
+    /**
+     * Split decoded text into lines, keeping any incomplete last line.
+     */
+    private emitText(file: TailedFile, text: string): void {
+        const lines = (file.partial + text).split(/\r?\n/);
+        file.partial = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) {
+                this.onLine(line, file.path);
+            }
+        }
+    }
+
+    /**
+     * Emit the incomplete last line of a file, if any.
+     */
+    private flushPartial(file: TailedFile): void {
+        const rest = file.partial + file.decoder.end();
+        file.partial = '';
+        if (rest.trim()) {
+            this.onLine(rest, file.path);
+        }
+    }
+}
+
+/**
+ * Find the byte offset where the last `count` lines of a file start.
+ */
+function findLastLinesOffset(fd: number, size: number, count: number): number {
+    const chunkSize = 64 * 1024;
+    const buffer = Buffer.alloc(chunkSize);
+    let position = size;
+    let newlines = 0;
+
+    // A trailing newline terminates the last line rather than starting a new one
+    if (size > 0) {
+        fs.readSync(fd, buffer, 0, 1, size - 1);
+        if (buffer[0] === 0x0a) position = size - 1;
+    }
+
+    while (position > 0) {
+        const start = Math.max(0, position - chunkSize);
+        const length = position - start;
+        fs.readSync(fd, buffer, 0, length, start);
+        for (let i = length - 1; i >= 0; i--) {
+            if (buffer[i] === 0x0a) {
+                newlines++;
+                if (newlines === count) {
+                    return start + i + 1;
+                }
+            }
+        }
+        position = start;
+    }
+
+    return 0;
+}
+
+/**
+ * Expand file paths and glob patterns into the list of existing files.
+ */
+export function expandPatterns(patterns: string[]): string[] {
+    const result = new Set<string>();
+    for (const pattern of patterns) {
+        if (!isGlob(pattern)) {
+            result.add(pattern);
+            continue;
+        }
+        for (const filePath of expandGlob(pattern)) {
+            result.add(filePath);
+        }
+    }
+    return Array.from(result);
+}
+
+/**
+ * Whether a path contains glob syntax.
+ */
+function isGlob(pattern: string): boolean {
+    return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Expand a single glob pattern by walking from its static base directory.
+ * Supports `*`, `?`, `**`, `[...]` and `{a,b}`.
+ */
+function expandGlob(pattern: string): string[] {
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(isGlob);
+    const baseDir = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+    const recursive = segments.slice(firstGlob).includes('**');
+    const maxDepth = recursive ? Infinity : segments.length - firstGlob;
+    const matcher = globToRegExp(normalized);
+
+    const matches: string[] = [];
+    const walk = (dir: string, depth: number): void => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const fullPath = dir === '.' ? entry.name : `${dir.replace(/\/$/, '')}/${entry.name}`;
+            if (entry.isDirectory()) {
+                if (depth < maxDepth && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+                    walk(fullPath, depth + 1);
+                }
+            } else if (matcher.test(fullPath)) {
+                matches.push(fullPath);
+            }
+        }
+    };
+    walk(baseDir, 1);
+
+    return matches.sort();
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i] ?? '';
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches zero or more directories
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                // `[!...]` negates the class, like `[^...]`
+                const body = glob.slice(i + 1, end);
+                source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    // Relative patterns like "./logs/*.log" should match "logs/app.log"
+    return new RegExp(`^(?:\\./)?${source.replace(/^\\\.\//, '')}$`);
+}
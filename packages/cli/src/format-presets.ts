@@ -0,0 +1,471 @@
+/**
+ * @fileoverview Built-in line formats for common servers
+ *
+ * Presets parse well-known formats (nginx and apache access/error logs,
+ * postgres, redis, syslog, journald JSON) into level, timestamp, message
+ * and structured fields. In `auto` mode the first lines of each stream are
+ * sniffed to pick a preset.
+ */
+
+import {
+    LogLevel,
+    detectLevel,
+    normalizeLevel,
+    parseSyslogMessage,
+    syslogSeverityLevel,
+    type LogFields,
+} from '@chronoscribe/shared';
+import { hasAnsi, stripAnsi } from './ansi.js';
+import {
+    LOG_FORMATS,
+    normalizeStructuredTimestamp,
+    parseLogLine,
+    type LogFormat,
+    type ParsedLog,
+} from './log-parser.js';
+import { logger } from './logger.js';
+
+/**
+ * A built-in line format.
+ */
+interface FormatPreset {
+    /** Parse a line, or return null if it is not in this format */
+    parse(line: string): ParsedLog | null;
+}
+
+/**
+ * Names of the built-in presets.
+ */
+export type PresetName = 'nginx' | 'apache' | 'postgres' | 'redis' | 'syslog' | 'journald';
+
+/**
+ * Any value accepted by `--format`.
+ */
+export type FormatName = LogFormat | PresetName;
+
+/**
+ * Sniffing stops after this many lines without a confident match.
+ */
+const SNIFF_LINES = 20;
+
+/**
+ * Matching lines needed before a preset is picked.
+ */
+const SNIFF_MATCHES = 3;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Common/combined access log, shared by nginx and apache:
+ * `1.2.3.4 - user [10/Oct/2000:13:55:36 -0700] "GET /x HTTP/1.1" 200 512 "ref" "agent" 0.012`
+ * The trailing request time is nginx's `$request_time`, if appended.
+ */
+const ACCESS_LOG = /^(?<client>\S+) \S+ (?<user>\S+) \[(?<time>[^\]]+)\] "(?<request>[^"]*)" (?<status>\d{3}) (?<bytes>\d+|-)(?: "(?<referer>[^"]*)" "(?<userAgent>[^"]*)")?(?: (?<requestTime>\d+(?:\.\d+)?))?/;
+
+/**
+ * nginx error log: `2024/01/02 03:04:05 [error] 12#12: *3 message, client: ...`
+ */
+const NGINX_ERROR = /^(?<time>\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}) \[(?<level>\w+)\] (?<pid>\d+)#\d+: (?:\*(?<connection>\d+) )?(?<message>.*)$/;
+
+/**
+ * apache error log (2.2 and 2.4):
+ * `[Tue Jan 02 03:04:05.123456 2024] [core:error] [pid 12:tid 34] [client 1.2.3.4:5] AH00124: message`
+ */
+const APACHE_ERROR = /^\[(?<time>\w{3} \w{3} \d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)? \d{4})\] \[(?:(?<module>[\w-]+):)?(?<level>\w+)\](?: \[pid (?<pid>\d+)[^\]]*\])?(?: \[client (?<client>[^\]]+)\])? (?<message>.*)$/;
+
+/**
+ * postgres with the default `log_line_prefix` (`%m [%p] `), or no prefix:
+ * `2024-01-02 03:04:05.123 UTC [42] ERROR:  relation "x" does not exist`
+ */
+const POSTGRES_LINE = /^(?:(?<time>\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?(?: ?[A-Z]{2,5}|[+-]\d{2})?) \[(?<pid>\d+)\](?: (?<user>[^\s@]+)@(?<database>\S+))? )?(?<severity>DEBUG[1-5]|LOG|INFO|NOTICE|WARNING|ERROR|FATAL|PANIC|DETAIL|HINT|QUERY|CONTEXT|LOCATION|STATEMENT):  (?<message>.*)$/;
+
+/**
+ * redis: `1:M 02 Jan 2024 03:04:05.123 * Ready to accept connections`
+ */
+const REDIS_LINE = /^(?<pid>\d+):(?<role>[XCSM]) (?<time>\d{1,2} \w{3} \d{4} \d{2}:\d{2}:\d{2}(?:\.\d+)?) (?<marker>[.\-*#]) (?<message>.*)$/;
+
+/**
+ * redis role markers.
+ */
+const REDIS_ROLES: Record<string, string> = {
+    X: 'sentinel',
+    C: 'child',
+    S: 'replica',
+    M: 'master',
+};
+
+/**
+ * redis verbosity markers: `.` debug, `-` verbose, `*` notice, `#` warning.
+ */
+const REDIS_LEVELS: Record<string, LogLevel> = {
+    '.': LogLevel.DEBUG,
+    '-': LogLevel.DEBUG,
+    '*': LogLevel.INFO,
+    '#': LogLevel.WARN,
+};
+
+/**
+ * journald keys that are mapped onto the entry rather than kept as fields.
+ */
+const JOURNALD_CONSUMED_KEYS = [
+    'MESSAGE',
+    'PRIORITY',
+    'SYSLOG_IDENTIFIER',
+    'SYSLOG_FACILITY',
+    'SYSLOG_PID',
+    'SYSLOG_TIMESTAMP',
+    'SYSLOG_RAW',
+];
+
+/**
+ * Built-in presets, in sniffing order.
+ */
+export const FORMAT_PRESETS: Record<PresetName, FormatPreset> = {
+    nginx: {
+        parse: (line) => parseAccessLine(line) ?? parseNginxErrorLine(line),
+    },
+    apache: {
+        parse: (line) => parseAccessLine(line) ?? parseApacheErrorLine(line),
+    },
+    postgres: { parse: parsePostgresLine },
+    redis: { parse: parseRedisLine },
+    syslog: { parse: parseSyslogLine },
+    journald: { parse: parseJournaldLine },
+};
+
+const PRESET_NAMES = Object.keys(FORMAT_PRESETS) as PresetName[];
+
+/**
+ * Every value accepted by `--format`.
+ */
+export const FORMAT_NAMES: FormatName[] = [...LOG_FORMATS, ...PRESET_NAMES];
+
+/**
+ * Whether a string is a valid `--format` value.
+ */
+export function isFormatName(value: string): value is FormatName {
+    return (FORMAT_NAMES as string[]).includes(value);
+}
+
+/**
+ * Parses the lines of one stream. With a preset, lines that don't match it
+ * fall back to generic parsing. In `auto` mode the first lines are sniffed
+ * and a preset is picked once it matches several of them.
+ */
+export class FormatParser {
+    private readonly format: FormatName;
+    private readonly levelPattern: string | undefined;
+    private preset: PresetName | null;
+    private sniffedLines = 0;
+    private matchCounts: Map<PresetName, number> = new Map();
+
+    constructor(format: FormatName = 'auto', levelPattern?: string) {
+        this.format = format;
+        this.levelPattern = levelPattern;
+        this.preset = format in FORMAT_PRESETS ? (format as PresetName) : null;
+    }
+
+    /**
+     * Preset in use, explicit or detected.
+     */
+    get detectedPreset(): PresetName | null {
+        return this.preset;
+    }
+
+    /**
+     * Parse a line. ANSI escape sequences are stripped from the content and
+     * kept in `styledContent`.
+     */
+    parse(line: string): ParsedLog {
+        const plain = stripAnsi(line);
+        const parsed = this.parsePlain(plain);
+
+        if (plain !== line && parsed.content === plain.trim()) {
+            parsed.styledContent = line.trim();
+        } else if (hasAnsi(parsed.content)) {
+            // Escapes inside a structured message, e.g. "\u001b[31m" in JSON
+            parsed.styledContent = parsed.content;
+            parsed.content = stripAnsi(parsed.content);
+        }
+        return parsed;
+    }
+
+    /**
+     * Parse a line without escape sequences.
+     */
+    private parsePlain(line: string): ParsedLog {
+        let parsed: ParsedLog | null = null;
+        if (this.preset) {
+            parsed = FORMAT_PRESETS[this.preset].parse(line);
+        } else if (this.format === 'auto' && this.sniffedLines < SNIFF_LINES) {
+            parsed = this.sniff(line);
+        }
+
+        const fallback: LogFormat = this.preset || this.format === 'auto' ? 'auto' : (this.format as LogFormat);
+        return parsed ?? parseLogLine(line, { format: fallback, levelPattern: this.levelPattern });
+    }
+
+    /**
+     * Try every preset on a line, count matches and pick a preset once
+     * one is clearly ahead. Returns the first preset's result, if any.
+     */
+    private sniff(line: string): ParsedLog | null {
+        this.sniffedLines++;
+
+        let first: ParsedLog | null = null;
+        for (const name of PRESET_NAMES) {
+            const parsed = FORMAT_PRESETS[name].parse(line);
+            if (!parsed) continue;
+            first ??= parsed;
+            this.matchCounts.set(name, (this.matchCounts.get(name) ?? 0) + 1);
+        }
+
+        let best: PresetName | null = null;
+        let bestCount = 0;
+        let tied = false;
+        for (const [name, count] of this.matchCounts) {
+            if (count > bestCount) {
+                best = name;
+                bestCount = count;
+                tied = false;
+            } else if (count === bestCount) {
+                tied = true;
+            }
+        }
+
+        // Presets sharing a format (nginx/apache access logs) stay tied until
+        // a distinguishing line shows up or sniffing ends
+        if (best && bestCount >= SNIFF_MATCHES && (!tied || this.sniffedLines >= SNIFF_LINES)) {
+            this.preset = best;
+            logger.info(`Detected log format: ${best}`);
+        }
+
+        return first;
+    }
+}
+
+/**
+ * Parse a common/combined access log line. The level follows the status:
+ * 5xx is ERROR, 4xx is WARN.
+ */
+function parseAccessLine(line: string): ParsedLog | null {
+    const groups = line.match(ACCESS_LOG)?.groups;
+    if (!groups) return null;
+
+    const status = Number(groups['status']);
+    const fields: LogFields = { client: groups['client'], status };
+
+    const request = groups['request'] ?? '';
+    const [method, path, protocol] = request.split(' ');
+    if (method && path) {
+        fields['method'] = method;
+        fields['path'] = path;
+        if (protocol) fields['protocol'] = protocol;
+    }
+    if (groups['user'] && groups['user'] !== '-') fields['user'] = groups['user'];
+    if (groups['bytes'] && groups['bytes'] !== '-') fields['bytes'] = Number(groups['bytes']);
+    if (groups['referer'] && groups['referer'] !== '-') fields['referer'] = groups['referer'];
+    if (groups['userAgent'] && groups['userAgent'] !== '-') fields['userAgent'] = groups['userAgent'];
+
+    let latency = '';
+    if (groups['requestTime']) {
+        const latencyMs = Math.round(Number(groups['requestTime']) * 1000);
+        fields['latencyMs'] = latencyMs;
+        latency = ` ${latencyMs}ms`;
+    }
+
+    let level = LogLevel.INFO;
+    if (status >= 500) level = LogLevel.ERROR;
+    else if (status >= 400) level = LogLevel.WARN;
+
+    return {
+        level,
+        content: `${method && path ? `${method} ${path}` : request} ${status}${latency}`,
+        originalTimestamp: parseClfTime(groups['time'] ?? ''),
+        fields,
+    };
+}
+
+/**
+ * Parse an nginx error log line.
+ */
+function parseNginxErrorLine(line: string): ParsedLog | null {
+    const groups = line.match(NGINX_ERROR)?.groups;
+    if (!groups) return null;
+
+    const message = groups['message'] ?? '';
+    const fields: LogFields = { pid: Number(groups['pid']) };
+    if (groups['connection']) fields['connection'] = Number(groups['connection']);
+
+    // Context nginx appends to the message: ", client: 1.2.3.4, ... request: "GET / HTTP/1.1""
+    const client = message.match(/, client: ([^,]+)/)?.[1];
+    const request = message.match(/, request: "([^"]*)"/)?.[1];
+    if (client) fields['client'] = client;
+    if (request) fields['request'] = request;
+
+    return {
+        level: normalizeLevel(groups['level'] ?? ''),
+        content: message,
+        originalTimestamp: normalizeStructuredTimestamp(groups['time']?.replace(/\//g, '-').replace(' ', 'T')),
+        fields,
+    };
+}
+
+/**
+ * Parse an apache error log line. `trace1`-`trace8` map to DEBUG.
+ */
+function parseApacheErrorLine(line: string): ParsedLog | null {
+    const groups = line.match(APACHE_ERROR)?.groups;
+    if (!groups) return null;
+
+    const fields: LogFields = {};
+    if (groups['module']) fields['module'] = groups['module'];
+    if (groups['pid']) fields['pid'] = Number(groups['pid']);
+    if (groups['client']) fields['client'] = groups['client'];
+
+    // "Tue Jan 02 03:04:05.123456 2024" -> "Jan 02 2024 03:04:05.123"
+    const time = groups['time']?.match(/^\w{3} (\w{3} \d{2}) (\d{2}:\d{2}:\d{2})(\.\d{1,3})?\d* (\d{4})$/);
+    const originalTimestamp = time
+        ? normalizeStructuredTimestamp(`${time[1]} ${time[4]} ${time[2]}${time[3] ?? ''}`)
+        : groups['time'];
+
+    const result: ParsedLog = {
+        level: normalizeLevel((groups['level'] ?? '').replace(/\d+$/, '')),
+        content: groups['message'] ?? '',
+        originalTimestamp,
+    };
+    if (Object.keys(fields).length > 0) {
+        result.fields = fields;
+    }
+    return result;
+}
+
+/**
+ * Parse a postgres server log line.
+ */
+function parsePostgresLine(line: string): ParsedLog | null {
+    const groups = line.match(POSTGRES_LINE)?.groups;
+    if (!groups) return null;
+
+    const severity = groups['severity'] ?? 'LOG';
+    const fields: LogFields = { severity };
+    if (groups['pid']) fields['pid'] = Number(groups['pid']);
+    if (groups['user']) fields['user'] = groups['user'];
+    if (groups['database']) fields['database'] = groups['database'];
+
+    let level: LogLevel;
+    if (severity === 'ERROR' || severity === 'FATAL' || severity === 'PANIC') {
+        level = LogLevel.ERROR;
+    } else if (severity === 'WARNING') {
+        level = LogLevel.WARN;
+    } else if (severity.startsWith('DEBUG')) {
+        level = LogLevel.DEBUG;
+    } else {
+        // LOG, INFO, NOTICE and the DETAIL/HINT/STATEMENT follow-up lines
+        level = LogLevel.INFO;
+    }
+
+    return {
+        level,
+        content: groups['message'] ?? '',
+        originalTimestamp: normalizeStructuredTimestamp(groups['time']),
+        fields,
+    };
+}
+
+/**
+ * Parse a redis server log line.
+ */
+function parseRedisLine(line: string): ParsedLog | null {
+    const groups = line.match(REDIS_LINE)?.groups;
+    if (!groups) return null;
+
+    return {
+        level: REDIS_LEVELS[groups['marker'] ?? ''] ?? LogLevel.INFO,
+        content: groups['message'] ?? '',
+        originalTimestamp: normalizeStructuredTimestamp(groups['time']),
+        fields: {
+            pid: Number(groups['pid']),
+            role: REDIS_ROLES[groups['role'] ?? ''] ?? groups['role'],
+        },
+    };
+}
+
+/**
+ * Parse an RFC 5424 or RFC 3164 syslog line. The level comes from the
+ * priority's severity when present, otherwise from the message text.
+ */
+export function parseSyslogLine(line: string): ParsedLog | null {
+    const message = parseSyslogMessage(line);
+    if (!message) return null;
+
+    return {
+        level: message.level,
+        content: message.message,
+        originalTimestamp: message.time,
+        fields: message.fields,
+    };
+}
+
+/**
+ * Parse a `journalctl -o json` line.
+ */
+function parseJournaldLine(line: string): ParsedLog | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{') || !trimmed.includes('"MESSAGE"')) return null;
+
+    let record: LogFields;
+    try {
+        record = JSON.parse(trimmed) as LogFields;
+    } catch {
+        return null;
+    }
+    if (typeof record !== 'object' || record === null || !('MESSAGE' in record)) return null;
+
+    // journald encodes non-UTF-8 messages as byte arrays
+    const rawMessage = record['MESSAGE'];
+    const message = Array.isArray(rawMessage)
+        ? Buffer.from(rawMessage as number[]).toString('utf8')
+        : String(rawMessage ?? '');
+
+    const fields: LogFields = {};
+    const unit = record['_SYSTEMD_UNIT'];
+    const identifier = record['SYSLOG_IDENTIFIER'];
+    const pid = record['_PID'] ?? record['SYSLOG_PID'];
+    const host = record['_HOSTNAME'];
+    if (unit !== undefined) fields['unit'] = unit;
+    if (identifier !== undefined) fields['identifier'] = identifier;
+    if (pid !== undefined) fields['pid'] = Number(pid);
+    if (host !== undefined) fields['host'] = host;
+
+    // Keep user-supplied fields; "_"-prefixed ones are journald bookkeeping
+    for (const [key, value] of Object.entries(record)) {
+        if (!key.startsWith('_') && !JOURNALD_CONSUMED_KEYS.includes(key)) {
+            fields[key] = value;
+        }
+    }
+
+    const priority = Number(record['PRIORITY']);
+    const realtime = Number(record['__REALTIME_TIMESTAMP']);
+
+    return {
+        level: Number.isNaN(priority) ? detectLevel(message) : syslogSeverityLevel(priority),
+        content: message,
+        // __REALTIME_TIMESTAMP is in microseconds
+        originalTimestamp: Number.isNaN(realtime) ? undefined : new Date(realtime / 1000).toISOString(),
+        fields,
+    };
+}
+
+/**
+ * Convert a CLF time (`10/Oct/2000:13:55:36 -0700`) to ISO 8601.
+ */
+function parseClfTime(text: string): string {
+    const match = text.match(/^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+    const month = MONTHS.indexOf(match?.[2] ?? '') + 1;
+    if (!match || month === 0) return text;
+
+    const iso = `${match[3]}-${String(month).padStart(2, '0')}-${match[1]}T${match[4]}${match[5]}:${match[6]}`;
+    return normalizeStructuredTimestamp(iso) ?? text;
+}
+
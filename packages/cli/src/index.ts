@@ -8,16 +8,28 @@
  * Usage:
  *   chronoscribe --serve
  *   npm start | chronoscribe --name frontend
+ *   chronoscribe run --name api -- npm run dev
+ *   chronoscribe session start "login bug repro"
  */
 
-import { parseArgs } from './cli.js';
+import { parseArgs, type CliOptions } from './cli.js';
 import { readStdin } from './stdin-reader.js';
-import { parseLogLine } from './log-parser.js';
-import { WebSocketClient } from './websocket-client.js';
+import { WebSocketClient, type ConnectionConfig } from './websocket-client.js';
+import { LogPipeline } from './pipeline.js';
+import { runProcess, createExitLog } from './process-runner.js';
+import { FileTailer } from './file-tailer.js';
+import { findConfigFile, loadProjectConfig } from './project-config.js';
+import { ServiceManager } from './service-manager.js';
+import { logger, setQuiet } from './logger.js';
+import { TeeWriter } from './tee.js';
+import { loadTransform, type LineTransform } from './transform.js';
+import { runSessionCommand } from './session-command.js';
 import { startServer } from '@chronoscribe/server';
 import { fileURLToPath } from 'node:url';
 import path from 'node:path';
+import os from 'node:os';
 import { exec } from 'node:child_process';
+import * as readline from 'node:readline';
 
 /**
  * Open URL in default browser.
@@ -42,16 +54,23 @@ function getDashboardPath(): string {
 async function main(): Promise<void> {
     // Parse command line arguments
     const options = parseArgs();
+    setQuiet(options.quiet);
+    const tee = options.tee ? new TeeWriter(options.tee) : undefined;
 
     // Handle Server Mode
     if (options.serve) {
-        console.log('[Chronoscribe] Starting server...');
+        logger.info('Starting server...');
 
         try {
             startServer({
                 wsPort: options.wsPort,
                 httpPort: options.httpPort,
                 dashboardPath: getDashboardPath(),
+                maxSourceRate: options.maxSourceRate,
+                syslogPort: options.syslogPort,
+                tcpPort: options.tcpPort,
+                otlpPort: options.otlpPort,
+                history: options.history,
             });
 
             if (options.open) {
@@ -63,13 +82,32 @@ async function main(): Promise<void> {
             // Keep process alive
             return;
         } catch (error: any) {
-            console.error('[Chronoscribe] Failed to start server:', error.message);
+            logger.error(`Failed to start server: ${error.message}`);
             process.exit(1);
         }
     }
 
-    // Client/Pipe Mode
-    console.log(`
+    // Session Mode
+    if (options.session) {
+        try {
+            await runSessionCommand(options.server, options.session.action, options.session.label);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            logger.error(`Failed to reach server: ${message}`);
+            logger.error(`Start it with: chronoscribe --serve`);
+            process.exit(1);
+        }
+        return;
+    }
+
+    // Multi-service Mode
+    if (options.up) {
+        await runServices(options, options.up, tee);
+        return;
+    }
+
+    // Client Mode
+    logger.raw(`
 ┌─────────────────────────────────────┐
 │  🪵 Chronoscribe CLI                     │
 │                                     │
@@ -78,55 +116,314 @@ async function main(): Promise<void> {
 └─────────────────────────────────────┘
 `);
 
-    // Create WebSocket client
-    const client = new WebSocketClient({
+    const transform = await loadTransformOrExit(options);
+    const client = await connectClient(options);
+    const pipeline = new LogPipeline(client, {
+        levelPattern: options.levelPattern,
+        transform,
+        format: options.format,
+        demux: options.demux,
+        multiline: options.multiline,
+        tee,
+        redact: options.redact,
+        filter: options.filter,
+        rateLimit: options.rateLimit,
+    });
+
+    if (options.command) {
+        runCommand(options.command, client, pipeline);
+    } else if (options.files.length > 0) {
+        tailFiles(options, client, pipeline);
+    } else {
+        pipeStdin(client, pipeline);
+    }
+}
+
+/**
+ * Connection settings shared by every source of this run.
+ */
+function connectionConfig(options: CliOptions): ConnectionConfig {
+    return {
         serverUrl: options.server,
+        spool: options.spool,
+        retryForever: options.retryForever,
+    };
+}
+
+/**
+ * Load the --transform module, if any, exiting with an error if it cannot
+ * be loaded.
+ */
+async function loadTransformOrExit(options: CliOptions): Promise<LineTransform | undefined> {
+    if (!options.transform) return undefined;
+
+    try {
+        const transform = await loadTransform(options.transform);
+        logger.info(`Using transform ${options.transform}`);
+        return transform;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Failed to load transform: ${message}`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Create a WebSocket client and connect it to the server, exiting on failure
+ * unless --retry-forever is set.
+ */
+async function connectClient(options: CliOptions): Promise<WebSocketClient> {
+    const client = new WebSocketClient({
+        ...connectionConfig(options),
         sourceName: options.name,
         color: options.color,
     });
 
-    // Connect to server
     try {
         await client.connect();
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`[Chronoscribe] Failed to connect to server: ${message}`);
-        console.error('[Chronoscribe] Make sure the Chronoscribe server is running.');
-        console.error(`[Chronoscribe] Start it with: chronoscribe --serve`);
+        if (options.retryForever) {
+            // Keep running; lines are buffered until a reconnect succeeds
+            logger.error(`Server unreachable (${message}); buffering lines until it is available.`);
+            return client;
+        }
+        logger.error(`Failed to connect to server: ${message}`);
+        logger.error('Make sure the Chronoscribe server is running.');
+        logger.error(`Start it with: chronoscribe --serve`);
         process.exit(1);
     }
 
-    // Track log count for statistics
-    let logCount = 0;
+    return client;
+}
+
+/**
+ * Pipe mode: forward lines read from stdin.
+ */
+function pipeStdin(client: WebSocketClient, pipeline: LogPipeline): void {
+    // Track duration for statistics
     const startTime = Date.now();
 
     // Start reading from stdin
     const cleanup = readStdin(
         (line) => {
-            const parsed = parseLogLine(line, options.levelPattern);
-            client.sendLog(parsed, line);
-            logCount++;
+            pipeline.push(line);
         },
-        () => {
+        async () => {
             // stdin closed (Ctrl+D or pipe ended)
             const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-            console.log(`\n[Chronoscribe] Processed ${logCount} logs in ${duration}s`);
+            logger.info(`\nProcessed ${pipeline.count} logs in ${duration}s`);
+            await pipeline.close();
             client.close();
             process.exit(0);
         }
     );
 
     // Handle graceful shutdown
-    process.on('SIGTERM', () => {
-        console.log('\n[Chronoscribe] Shutting down...');
+    process.on('SIGTERM', async () => {
+        logger.info('\nShutting down...');
         cleanup();
+        await pipeline.close();
         client.close();
         process.exit(0);
     });
 }
 
+/**
+ * Run mode: spawn a command, capture stdout and stderr, and report its exit.
+ * The CLI exits with the child's exit code once the child is gone.
+ */
+function runCommand(command: string[], client: WebSocketClient, pipeline: LogPipeline): void {
+    const startTime = Date.now();
+
+    logger.info(`Running: ${command.join(' ')}`);
+
+    runProcess(
+        command,
+        (line, stream) => {
+            pipeline.push(line, { stream });
+        },
+        async (code, signal) => {
+            // Send any grouped output before the exit event
+            pipeline.flush();
+            const exitLog = createExitLog(code, signal);
+            client.sendLog(exitLog, exitLog.content);
+
+            const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+            logger.info(`\n${exitLog.content}. Processed ${pipeline.count} logs in ${duration}s`);
+            await pipeline.close();
+            client.close();
+
+            const signalNumber = signal ? os.constants.signals[signal] : undefined;
+            process.exit(signalNumber !== undefined ? 128 + signalNumber : code ?? 0);
+        }
+    );
+}
+
+/**
+ * File mode: follow files and glob patterns, tagging each line with its path.
+ * Runs until interrupted.
+ */
+function tailFiles(options: CliOptions, client: WebSocketClient, pipeline: LogPipeline): void {
+    const startTime = Date.now();
+
+    const tailerOptions: ConstructorParameters<typeof FileTailer>[0] = {
+        patterns: options.files,
+        fromBeginning: options.fromBeginning,
+    };
+    if (options.lines !== undefined) tailerOptions.lines = options.lines;
+
+    const tailer = new FileTailer(tailerOptions, (line, file) => {
+        pipeline.push(line, { file });
+    });
+
+    tailer.start();
+    for (const file of tailer.followedFiles) {
+        logger.info(`Following ${file}`);
+    }
+
+    const shutdown = async (): Promise<void> => {
+        tailer.stop();
+        const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+        logger.info(`\nProcessed ${pipeline.count} logs in ${duration}s`);
+        await pipeline.close();
+        client.close();
+        process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+/**
+ * Up mode: start every service from the project config as its own source.
+ * When attached to a terminal, accepts start/stop/restart/status commands on stdin.
+ */
+async function runServices(
+    options: CliOptions,
+    up: NonNullable<CliOptions['up']>,
+    tee: TeeWriter | undefined
+): Promise<void> {
+    const configPath = findConfigFile(up.config);
+    if (!configPath) {
+        logger.error('No chronoscribe.config.json or Procfile found in this directory.');
+        process.exit(1);
+    }
+
+    const transform = await loadTransformOrExit(options);
+    let manager: ServiceManager;
+    let toStart: string[];
+    try {
+        const services = loadProjectConfig(configPath);
+        manager = new ServiceManager(services, connectionConfig(options), {
+            tee,
+            redact: options.redact,
+            filter: options.filter,
+            rateLimit: options.rateLimit,
+            transform,
+        });
+        toStart = up.services.length > 0
+            ? up.services
+            : services.filter((s) => s.autostart).map((s) => s.name);
+        for (const name of toStart) {
+            if (!manager.names.includes(name)) {
+                throw new Error(`Unknown service "${name}" (available: ${manager.names.join(', ')})`);
+            }
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`${message}`);
+        process.exit(1);
+    }
+
+    logger.info(`Loaded ${manager.names.length} services from ${configPath}`);
+
+    try {
+        await manager.connect();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (options.retryForever) {
+            logger.error(`Server unreachable (${message}); buffering lines until it is available.`);
+        } else {
+            logger.error(`Failed to connect to server: ${message}`);
+            logger.error(`Start it with: chronoscribe --serve`);
+            process.exit(1);
+        }
+    }
+
+    for (const name of toStart) {
+        manager.start(name);
+    }
+
+    let stopping = false;
+    const shutdown = async (): Promise<void> => {
+        if (stopping) return;
+        stopping = true;
+        logger.info('\nStopping all services...');
+        await manager.shutdown();
+        process.exit(0);
+    };
+
+    process.on('SIGINT', () => void shutdown());
+    process.on('SIGTERM', () => void shutdown());
+
+    if (process.stdin.isTTY) {
+        logger.info('Commands: start <name>, stop <name>, restart <name>, status, quit');
+        const rl = readline.createInterface({ input: process.stdin });
+        rl.on('line', (line) => {
+            void handleServiceCommand(manager, line.trim(), shutdown);
+        });
+    }
+}
+
+/**
+ * Handle an interactive command typed while services are running.
+ */
+async function handleServiceCommand(
+    manager: ServiceManager,
+    line: string,
+    shutdown: () => Promise<void>
+): Promise<void> {
+    const [action, name] = line.split(/\s+/);
+    try {
+        switch (action) {
+            case 'start':
+            case 'stop':
+            case 'restart':
+                if (!name) {
+                    logger.info(`Usage: ${action} <name>`);
+                } else if (action === 'start') {
+                    manager.start(name);
+                } else if (action === 'stop') {
+                    await manager.stop(name);
+                } else {
+                    await manager.restart(name);
+                }
+                break;
+            case 'status':
+                for (const s of manager.getStatus()) {
+                    const pid = s.pid !== undefined ? ` pid=${s.pid}` : '';
+                    logger.raw(`  ${s.name.padEnd(20)} ${s.state.padEnd(10)} restarts=${s.restarts}${pid}`);
+                }
+                break;
+            case 'quit':
+            case 'exit':
+                await shutdown();
+                break;
+            case '':
+            case undefined:
+                break;
+            default:
+                logger.info(`Unknown command "${action}"`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`${message}`);
+    }
+}
+
 // Run the CLI
 main().catch((error) => {
-    console.error('[Chronoscribe] Fatal error:', error);
+    logger.error(`Fatal error: ${error instanceof Error ? error.message : error}`);
     process.exit(1);
 });
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Include/exclude and minimum level filtering for Chronoscribe CLI
+ *
+ * Drops noisy lines (health checks, hot-reload chatter) before they are
+ * sent, so they never take up room in the server and dashboard buffers.
+ */
+
+import { LOG_LEVEL_PRIORITY, LogLevel } from '@chronoscribe/shared';
+import { stripAnsi } from './ansi.js';
+import type { ParsedLog } from './log-parser.js';
+
+/**
+ * Filter settings.
+ */
+export interface LineFilterOptions {
+    /** Keep only lines matching at least one of these */
+    include?: RegExp[] | undefined;
+    /** Drop lines matching any of these */
+    exclude?: RegExp[] | undefined;
+    /** Drop lines below this level */
+    minLevel?: LogLevel | undefined;
+}
+
+/**
+ * Why a line was dropped.
+ */
+type DropReason = 'notIncluded' | 'excluded' | 'belowLevel';
+
+/**
+ * Number of dropped lines, by reason.
+ */
+type DropCounts = Record<DropReason, number>;
+
+/**
+ * Parse a level name given on the command line or in the config.
+ * Returns null if it is not a known level.
+ */
+export function parseMinLevel(value: string): LogLevel | null {
+    const normalized = value.toUpperCase();
+    return normalized in LogLevel ? (normalized as LogLevel) : null;
+}
+
+/**
+ * Whether any filter is configured.
+ */
+export function hasLineFilter(options: LineFilterOptions): boolean {
+    return (options.include?.length ?? 0) > 0
+        || (options.exclude?.length ?? 0) > 0
+        || options.minLevel !== undefined;
+}
+
+/**
+ * Decides which lines are sent and counts the ones that are not.
+ */
+export class LineFilter {
+    private readonly options: LineFilterOptions;
+    private dropped: DropCounts = { notIncluded: 0, excluded: 0, belowLevel: 0 };
+
+    constructor(options: LineFilterOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Whether a line should be sent. Patterns are matched against the
+     * line as printed (without escape codes), the level against the
+     * detected level.
+     */
+    accepts(parsed: ParsedLog, raw: string): boolean {
+        const { include, exclude, minLevel } = this.options;
+
+        if (minLevel && LOG_LEVEL_PRIORITY[parsed.level] < LOG_LEVEL_PRIORITY[minLevel]) {
+            this.dropped.belowLevel++;
+            return false;
+        }
+
+        const line = stripAnsi(raw);
+        if (include && include.length > 0 && !include.some((pattern) => pattern.test(line))) {
+            this.dropped.notIncluded++;
+            return false;
+        }
+        if (exclude?.some((pattern) => pattern.test(line))) {
+            this.dropped.excluded++;
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Describe the lines dropped since the last call, e.g.
+     * "120 lines (118 excluded, 2 below WARN)", and reset the counts.
+     * Returns null if nothing was dropped.
+     */
+    takeSummary(): string | null {
+        const counts = this.dropped;
+        this.dropped = { notIncluded: 0, excluded: 0, belowLevel: 0 };
+
+        const total = counts.notIncluded + counts.excluded + counts.belowLevel;
+        if (total === 0) return null;
+
+        const parts = [
+            counts.excluded > 0 ? `${counts.excluded} excluded` : '',
+            counts.notIncluded > 0 ? `${counts.notIncluded} not included` : '',
+            counts.belowLevel > 0 ? `${counts.belowLevel} below ${this.options.minLevel}` : '',
+        ].filter(Boolean);
+        return `${total} lines (${parts.join(', ')})`;
+    }
+}
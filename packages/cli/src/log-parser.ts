@@ -3,9 +3,11 @@
  * 
  * Analyzes log lines to extract timestamps and log levels using
  * common patterns from various frameworks and log formats.
+ * Structured lines, JSON (pino, bunyan, winston, zap, logrus, ...) and
+ * logfmt, are parsed into fields instead of being scanned as text.
  */
 
-import { LogLevel } from '@chronoscribe/shared';
+import { LogLevel, detectLevel, normalizeLevel, type LogFields } from '@chronoscribe/shared';
 
 /**
  * Result of parsing a log line.
@@ -17,34 +19,12 @@ export interface ParsedLog {
     content: string;
     /** Original timestamp if found in the log */
     originalTimestamp?: string;
+    /** Remaining attributes of a structured log line */
+    fields?: LogFields;
+    /** Content with ANSI escape sequences preserved, if it had any */
+    styledContent?: string;
 }
 
-/**
- * Common log level patterns from various frameworks.
- * Listed in order of priority (most specific first).
- */
-const LEVEL_PATTERNS: Array<{ pattern: RegExp; level: LogLevel }> = [
-    // ERROR patterns
-    { pattern: /\b(ERROR|ERR|FATAL|CRITICAL|CRIT)\b/i, level: LogLevel.ERROR },
-    { pattern: /\[error\]/i, level: LogLevel.ERROR },
-    { pattern: /❌|🔴|💥/, level: LogLevel.ERROR },
-
-    // WARN patterns
-    { pattern: /\b(WARN|WARNING|WRN)\b/i, level: LogLevel.WARN },
-    { pattern: /\[warn(ing)?\]/i, level: LogLevel.WARN },
-    { pattern: /⚠️|🟡|🟠/, level: LogLevel.WARN },
-
-    // DEBUG patterns
-    { pattern: /\b(DEBUG|DBG|TRACE|VERBOSE)\b/i, level: LogLevel.DEBUG },
-    { pattern: /\[debug\]/i, level: LogLevel.DEBUG },
-    { pattern: /🔍|🐛/, level: LogLevel.DEBUG },
-
-    // INFO patterns (checked last as it's the default)
-    { pattern: /\b(INFO|INF|LOG)\b/i, level: LogLevel.INFO },
-    { pattern: /\[info\]/i, level: LogLevel.INFO },
-    { pattern: /ℹ️|🟢|✅/, level: LogLevel.INFO },
-];
-
 /**
  * Patterns for extracting timestamps from log lines.
  */
@@ -59,10 +39,73 @@ const TIMESTAMP_PATTERNS: RegExp[] = [
     /[A-Z][a-z]{2}\s+[A-Z][a-z]{2}\s+\d{1,2}\s+\d{2}:\d{2}:\d{2}/,
 ];
 
+/**
+ * Line formats understood by the parser.
+ * - `auto`: JSON and logfmt lines are detected, anything else is text
+ * - `json` / `logfmt`: parse as that format, falling back to text
+ * - `text`: only use the level and timestamp patterns
+ */
+export type LogFormat = 'auto' | 'json' | 'logfmt' | 'text';
+
+export const LOG_FORMATS: LogFormat[] = ['auto', 'json', 'logfmt', 'text'];
+
+/**
+ * Options for parsing a line.
+ */
+export interface ParseOptions {
+    /** Line format (default: "auto") */
+    format?: LogFormat | undefined;
+    /** Custom regex for log level detection (named group "level") */
+    levelPattern?: string | undefined;
+}
+
+/**
+ * Keys holding the level in structured logs, in priority order.
+ */
+const LEVEL_KEYS = ['level', 'severity', 'lvl', 'levelname', 'log.level'];
+
+/**
+ * Keys holding the message in structured logs, in priority order.
+ */
+const MESSAGE_KEYS = ['msg', 'message', '@message', 'event'];
+
+/**
+ * Keys holding the timestamp in structured logs, in priority order.
+ */
+const TIME_KEYS = ['time', 'timestamp', 'ts', '@timestamp'];
+
+/**
+ * Keys holding an error object or stack trace in structured logs.
+ */
+const ERROR_KEYS = ['err', 'error', 'exception'];
+
+/**
+ * A single `key=value` or `key="quoted value"` pair in a logfmt line.
+ */
+const LOGFMT_PAIR = /([^\s="]+)(?:=("(?:[^"\\]|\\.)*"|[^\s"]*))?(?=\s|$)/y;
+
 /**
  * Parse a log line to extract level, content, and timestamp.
  */
-export function parseLogLine(line: string, customPattern?: string): ParsedLog {
+export function parseLogLine(line: string, options: ParseOptions = {}): ParsedLog {
+    const format = options.format ?? 'auto';
+    let parsed: ParsedLog | null = null;
+
+    if (format === 'auto') {
+        parsed = parseJsonLine(line) ?? parseLogfmtLine(line, true);
+    } else if (format === 'json') {
+        parsed = parseJsonLine(line);
+    } else if (format === 'logfmt') {
+        parsed = parseLogfmtLine(line, false);
+    }
+
+    return parsed ?? parseTextLine(line, options.levelPattern);
+}
+
+/**
+ * Parse an unstructured line using the level and timestamp patterns.
+ */
+function parseTextLine(line: string, customPattern?: string): ParsedLog {
     let level = LogLevel.INFO;
     let originalTimestamp: string | undefined;
 
@@ -81,12 +124,7 @@ export function parseLogLine(line: string, customPattern?: string): ParsedLog {
 
     // Try default patterns if no custom pattern or it didn't match
     if (level === LogLevel.INFO && !customPattern) {
-        for (const { pattern, level: detectedLevel } of LEVEL_PATTERNS) {
-            if (pattern.test(line)) {
-                level = detectedLevel;
-                break;
-            }
-        }
+        level = detectLevel(line);
     }
 
     // Try to extract timestamp
@@ -106,23 +144,184 @@ export function parseLogLine(line: string, customPattern?: string): ParsedLog {
 }
 
 /**
- * Normalize a level string to a LogLevel enum value.
+ * Parse a JSON object line. Returns null if the line is not a JSON object.
+ */
+function parseJsonLine(line: string): ParsedLog | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch {
+        return null;
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null;
+
+    return parseRecord({ ...(parsed as LogFields) }, trimmed);
+}
+
+/**
+ * Parse a logfmt line (`level=warn msg="slow query" dur=230ms`).
+ * Returns null if the line is not logfmt.
+ *
+ * @param strict - Require at least two pairs including a well-known key, so
+ *   ordinary text containing an `=` is not mistaken for logfmt
  */
-function normalizeLevel(levelStr: string): LogLevel {
-    const upper = levelStr.toUpperCase();
+function parseLogfmtLine(line: string, strict: boolean): ParsedLog | null {
+    const trimmed = line.trim();
+    const fields: LogFields = {};
+    let pairs = 0;
+    let position = 0;
 
-    if (upper === 'ERROR' || upper === 'ERR' || upper === 'FATAL' || upper === 'CRITICAL') {
-        return LogLevel.ERROR;
+    while (position < trimmed.length) {
+        if (/\s/.test(trimmed[position] ?? '')) {
+            position++;
+            continue;
+        }
+
+        LOGFMT_PAIR.lastIndex = position;
+        const match = LOGFMT_PAIR.exec(trimmed);
+        if (!match?.[1]) return null;
+        position = LOGFMT_PAIR.lastIndex;
+
+        const value = match[2];
+        if (value === undefined) {
+            // A bare key is a boolean flag in logfmt
+            fields[match[1]] = true;
+            continue;
+        }
+        fields[match[1]] = value.startsWith('"') ? unquoteLogfmt(value) : value;
+        pairs++;
+    }
+
+    if (pairs === 0) return null;
+    if (strict && (pairs < 2 || ![...LEVEL_KEYS, ...MESSAGE_KEYS].some((key) => typeof fields[key] === 'string'))) {
+        return null;
+    }
+
+    return parseRecord(fields, trimmed);
+}
+
+/**
+ * Decode a double-quoted logfmt value.
+ */
+function unquoteLogfmt(value: string): string {
+    return value
+        .slice(1, -1)
+        .replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : char));
+}
+
+/**
+ * Map the well-known keys of a structured record onto a parsed log,
+ * keeping the remaining keys as fields.
+ *
+ * @param fields - Record to read from; well-known keys are removed from it
+ * @param line - Original line, used as content when there is no message
+ */
+function parseRecord(fields: LogFields, line: string): ParsedLog {
+    const levelValue = takeField(fields, LEVEL_KEYS);
+    const messageValue = takeField(fields, MESSAGE_KEYS);
+    const timeValue = takeField(fields, TIME_KEYS);
+
+    let content = typeof messageValue === 'string'
+        ? messageValue
+        : messageValue !== undefined ? JSON.stringify(messageValue) : '';
+
+    const stack = takeErrorStack(fields);
+    if (stack) {
+        // Keep the stack in the content so the dashboard can expand it
+        content = content && !stack.includes(content) ? `${content}\n${stack}` : stack;
+    }
+    if (!content) {
+        content = line;
+    }
+
+    let level: LogLevel;
+    if (typeof levelValue === 'number') {
+        level = normalizeNumericLevel(levelValue);
+    } else if (typeof levelValue === 'string') {
+        level = normalizeLevel(levelValue);
+    } else {
+        level = stack ? LogLevel.ERROR : detectLevel(content);
+    }
+
+    const result: ParsedLog = {
+        level,
+        content: content.trim(),
+        originalTimestamp: normalizeStructuredTimestamp(timeValue),
+    };
+    if (Object.keys(fields).length > 0) {
+        result.fields = fields;
     }
-    if (upper === 'WARN' || upper === 'WARNING' || upper === 'WRN') {
-        return LogLevel.WARN;
+    return result;
+}
+
+/**
+ * Remove and return the first present key from a structured log object.
+ */
+function takeField(fields: LogFields, keys: string[]): unknown {
+    for (const key of keys) {
+        if (key in fields) {
+            const value = fields[key];
+            delete fields[key];
+            return value;
+        }
     }
-    if (upper === 'DEBUG' || upper === 'DBG' || upper === 'TRACE' || upper === 'VERBOSE') {
-        return LogLevel.DEBUG;
+    return undefined;
+}
+
+/**
+ * Extract a stack trace from `err`/`error`/`exception` or a top-level `stack`.
+ * The stack is removed from the fields; the rest of the error object is kept.
+ */
+function takeErrorStack(fields: LogFields): string | undefined {
+    for (const key of ERROR_KEYS) {
+        const value = fields[key];
+        if (typeof value === 'object' && value !== null && typeof (value as LogFields)['stack'] === 'string') {
+            const { stack, ...rest } = value as LogFields;
+            if (Object.keys(rest).length > 0) {
+                fields[key] = rest;
+            } else {
+                delete fields[key];
+            }
+            return stack as string;
+        }
+        // A multi-line string is an already formatted traceback
+        if (typeof value === 'string' && value.includes('\n')) {
+            delete fields[key];
+            return value;
+        }
     }
-    if (upper === 'INFO' || upper === 'INF' || upper === 'LOG') {
-        return LogLevel.INFO;
+
+    // zap uses "stacktrace", Python JSON formatters "exc_info"
+    const stack = takeField(fields, ['stack', 'stacktrace', 'exc_info']);
+    return typeof stack === 'string' ? stack : undefined;
+}
+
+/**
+ * Convert a structured timestamp (ISO string or epoch seconds/milliseconds)
+ * to an ISO 8601 string.
+ */
+export function normalizeStructuredTimestamp(value: unknown): string | undefined {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        // Epoch seconds (zap, logrus with float timestamps) vs milliseconds (pino, bunyan)
+        const ms = value < 1e11 ? value * 1000 : value;
+        return new Date(ms).toISOString();
+    }
+    if (typeof value === 'string' && value) {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? value : date.toISOString();
     }
+    return undefined;
+}
 
-    return LogLevel.INFO;
+/**
+ * Map numeric levels (pino/bunyan: 10 trace ... 60 fatal) to a LogLevel.
+ */
+function normalizeNumericLevel(level: number): LogLevel {
+    if (level >= 50) return LogLevel.ERROR;
+    if (level >= 40) return LogLevel.WARN;
+    if (level >= 30) return LogLevel.INFO;
+    return LogLevel.DEBUG;
 }
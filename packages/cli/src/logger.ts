@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Status output for Chronoscribe CLI
+ *
+ * Banner and status lines go to stderr, so stdout only carries log lines
+ * echoed with --tee. Status lines can be silenced with --quiet; errors
+ * are always printed.
+ */
+
+const PREFIX = '[Chronoscribe]';
+
+let quiet = false;
+
+/**
+ * Suppress the banner and status lines.
+ */
+export function setQuiet(value: boolean): void {
+    quiet = value;
+}
+
+/**
+ * Format a prefixed line. Leading newlines are printed before the prefix.
+ */
+function format(message: string): string {
+    const [, newlines = '', text = ''] = message.match(/^(\n*)([\s\S]*)$/) ?? [];
+    return `${newlines}${PREFIX} ${text}\n`;
+}
+
+/**
+ * CLI status logger.
+ */
+export const logger = {
+    /**
+     * Print a status line (suppressed by --quiet).
+     */
+    info(message: string): void {
+        if (!quiet) {
+            process.stderr.write(format(message));
+        }
+    },
+
+    /**
+     * Print an error line (never suppressed).
+     */
+    error(message: string): void {
+        process.stderr.write(format(message));
+    },
+
+    /**
+     * Print unprefixed text such as the banner (suppressed by --quiet).
+     */
+    raw(text: string): void {
+        if (!quiet) {
+            process.stderr.write(`${text}\n`);
+        }
+    },
+};
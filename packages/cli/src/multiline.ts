@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Multi-line event aggregation for Chronoscribe CLI
+ *
+ * Groups continuation lines (stack frames, "Caused by:", Python tracebacks,
+ * indented output) with the line that started the event, so a stack trace
+ * is sent as a single log entry with embedded newlines.
+ */
+
+import { stripAnsi } from './ansi.js';
+
+/**
+ * Options for multi-line grouping.
+ */
+export interface MultilineOptions {
+    /**
+     * Regex matching the first line of an event. When set, every line that
+     * does not match is treated as a continuation of the previous event.
+     */
+    startPattern?: RegExp | undefined;
+    /** Flush an event after this long without new lines (default: 250ms) */
+    timeoutMs?: number | undefined;
+    /** Maximum lines per event before it is flushed (default: 500) */
+    maxLines?: number | undefined;
+}
+
+/**
+ * Callback for a completed event: the grouped lines, oldest first,
+ * the matching original raw lines, and the capture time of the first line.
+ */
+export type EventCallback = (lines: string[], rawLines: string[], capturedAt: number) => void;
+
+export const DEFAULT_MULTILINE_TIMEOUT_MS = 250;
+const DEFAULT_MAX_LINES = 500;
+
+/**
+ * Lines that always continue the previous event.
+ */
+const CONTINUATION_PATTERNS: RegExp[] = [
+    // Indented lines: JS/Java "    at ...", Python "  File ...", wrapped output
+    /^\s+\S/,
+    // Java chained exceptions
+    /^Caused by:/,
+    /^Suppressed:/,
+    // Go panics: "goroutine 1 [running]:" followed by frames
+    /^goroutine \d+ \[/,
+];
+
+/**
+ * First line of a Python traceback.
+ */
+const PYTHON_TRACEBACK = /^Traceback \(most recent call last\):/;
+
+/**
+ * Last line of a Python traceback, e.g. "ValueError: bad input".
+ */
+const PYTHON_EXCEPTION_LINE = /^[\w.]+(?:Error|Exception|Exit|Interrupt|Warning)\b/;
+
+/**
+ * Groups consecutive lines into events.
+ */
+export class MultilineAggregator {
+    private buffer: string[] = [];
+    private rawBuffer: string[] = [];
+    private capturedAt = 0;
+    private timer: NodeJS.Timeout | null = null;
+    /** Whether the current event is an unfinished Python traceback */
+    private inTraceback = false;
+    private readonly options: MultilineOptions;
+    private readonly onEvent: EventCallback;
+
+    constructor(options: MultilineOptions, onEvent: EventCallback) {
+        this.options = options;
+        this.onEvent = onEvent;
+    }
+
+    /**
+     * Add a line, flushing the previous event if this line starts a new one.
+     *
+     * @param line - Line used for grouping decisions
+     * @param raw - Original line, if it differs (e.g. before a prefix was stripped)
+     * @param capturedAt - When the line was read (epoch milliseconds)
+     */
+    push(line: string, raw: string = line, capturedAt: number = Date.now()): void {
+        // Colors must not hide indentation or exception names
+        const plain = stripAnsi(line);
+        if (this.buffer.length > 0 && !this.isContinuation(plain)) {
+            this.flush();
+        }
+
+        if (this.buffer.length === 0) {
+            this.capturedAt = capturedAt;
+            this.inTraceback = PYTHON_TRACEBACK.test(plain);
+        } else if (this.inTraceback && !/^\s/.test(plain)) {
+            // The unindented exception line ends the traceback
+            this.inTraceback = false;
+        }
+
+        this.buffer.push(line);
+        this.rawBuffer.push(raw);
+
+        if (this.buffer.length >= (this.options.maxLines ?? DEFAULT_MAX_LINES)) {
+            this.flush();
+            return;
+        }
+        this.resetTimer();
+    }
+
+    /**
+     * Emit the pending event, if any.
+     */
+    flush(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.buffer.length === 0) return;
+
+        const lines = this.buffer;
+        const rawLines = this.rawBuffer;
+        this.buffer = [];
+        this.rawBuffer = [];
+        this.inTraceback = false;
+        this.onEvent(lines, rawLines, this.capturedAt);
+    }
+
+    /**
+     * Whether a line continues the event currently being buffered.
+     */
+    private isContinuation(line: string): boolean {
+        if (this.options.startPattern) {
+            return !this.options.startPattern.test(line);
+        }
+        if (this.inTraceback && PYTHON_EXCEPTION_LINE.test(line)) {
+            return true;
+        }
+        return CONTINUATION_PATTERNS.some((pattern) => pattern.test(line));
+    }
+
+    /**
+     * Restart the idle timer that flushes the pending event.
+     */
+    private resetTimer(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(
+            () => this.flush(),
+            this.options.timeoutMs ?? DEFAULT_MULTILINE_TIMEOUT_MS
+        );
+    }
+}
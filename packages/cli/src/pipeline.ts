@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Line processing pipeline for Chronoscribe CLI
+ *
+ * Takes raw lines from any input (stdin, a spawned process, followed files),
+ * parses them and sends them to the right source on the server.
+ */
+
+import type { LogMessageMetadata } from '@chronoscribe/shared';
+import { FormatParser, type FormatName } from './format-presets.js';
+import type { ParsedLog } from './log-parser.js';
+import { stripAnsi } from './ansi.js';
+import { Demultiplexer } from './demux.js';
+import { LineFilter, hasLineFilter, type LineFilterOptions } from './line-filter.js';
+import { logger } from './logger.js';
+import { MultilineAggregator, type MultilineOptions } from './multiline.js';
+import { RateLimiter, type RateLimitOptions } from './rate-limiter.js';
+import { Redactor, type RedactOptions } from './redact.js';
+import type { TeeWriter } from './tee.js';
+import { Transformer, type LineTransform } from './transform.js';
+import { captureTime, type WebSocketClient } from './websocket-client.js';
+
+/**
+ * Options for the line pipeline.
+ */
+export interface LogPipelineOptions {
+    /** Custom regex for log level detection */
+    levelPattern?: string | undefined;
+    /** Line format or preset (default: "auto") */
+    format?: FormatName | undefined;
+    /** Prefix pattern for splitting lines into virtual sources */
+    demux?: RegExp | undefined;
+    /** Group multi-line events such as stack traces (disabled when unset) */
+    multiline?: MultilineOptions | undefined;
+    /** Echo lines to the terminal (disabled when unset) */
+    tee?: TeeWriter | undefined;
+    /** Mask secrets before lines are sent (disabled when unset) */
+    redact?: RedactOptions | undefined;
+    /** Drop lines by pattern or level before they are sent */
+    filter?: LineFilterOptions | undefined;
+    /** Limit each source's line rate (unlimited when unset) */
+    rateLimit?: RateLimitOptions | undefined;
+    /** User-supplied function applied to every parsed line */
+    transform?: LineTransform | undefined;
+}
+
+/**
+ * Per-source processing state. Each source sniffs its own format and
+ * counts its own redactions and dropped lines.
+ */
+interface SourceState {
+    parser: FormatParser;
+    transformer: Transformer | null;
+    redactor: Redactor | null;
+    filter: LineFilter | null;
+    limiter: RateLimiter | null;
+}
+
+/**
+ * How often dropped line counts are reported.
+ */
+const FILTER_SUMMARY_INTERVAL_MS = 30_000;
+
+/**
+ * How often rate limit notices are sent while suppression lasts.
+ */
+const RATE_NOTICE_INTERVAL_MS = 1000;
+
+/**
+ * Parses lines and sends them to the server.
+ */
+export class LogPipeline {
+    private readonly client: WebSocketClient;
+    private readonly format: FormatName | undefined;
+    private readonly levelPattern: string | undefined;
+    private sources: Map<WebSocketClient, SourceState> = new Map();
+    private readonly demux: Demultiplexer | null;
+    private readonly multiline: MultilineOptions | undefined;
+    private readonly tee: TeeWriter | undefined;
+    private readonly redact: RedactOptions | undefined;
+    private readonly filter: LineFilterOptions | undefined;
+    private summaryTimer: NodeJS.Timeout | null = null;
+    private readonly rateLimit: RateLimitOptions | undefined;
+    private readonly transform: LineTransform | undefined;
+    private noticeTimer: NodeJS.Timeout | null = null;
+    /** One aggregator per client and stream/file, so events never interleave */
+    private aggregators: Map<WebSocketClient, Map<string, MultilineAggregator>> = new Map();
+    private lineCount = 0;
+
+    constructor(client: WebSocketClient, options: LogPipelineOptions) {
+        this.client = client;
+        this.format = options.format;
+        this.levelPattern = options.levelPattern;
+        this.demux = options.demux
+            ? new Demultiplexer(options.demux, client)
+            : null;
+        this.multiline = options.multiline;
+        this.tee = options.tee;
+        this.redact = options.redact;
+        this.filter = options.filter && hasLineFilter(options.filter) ? options.filter : undefined;
+        if (this.filter) {
+            this.summaryTimer = setInterval(
+                () => this.reportFiltered(' in the last 30s'),
+                FILTER_SUMMARY_INTERVAL_MS
+            );
+            this.summaryTimer.unref();
+        }
+        this.transform = options.transform;
+        this.rateLimit = options.rateLimit;
+        if (this.rateLimit) {
+            this.noticeTimer = setInterval(() => this.sendAllNotices(), RATE_NOTICE_INTERVAL_MS);
+            this.noticeTimer.unref();
+        }
+    }
+
+    /**
+     * Process a single raw line.
+     */
+    push(rawLine: string, metadata?: LogMessageMetadata): void {
+        if (this.tee?.mode === 'plain') {
+            this.tee.writeLine(rawLine, metadata?.stream);
+        }
+
+        const { client, line } = this.demux
+            ? this.demux.route(rawLine)
+            : { client: this.client, line: rawLine };
+        if (!stripAnsi(line).trim()) return;
+
+        const capturedAt = captureTime();
+        if (this.multiline) {
+            this.getAggregator(client, metadata).push(line, rawLine, capturedAt);
+        } else {
+            this.send(client, line, rawLine, { ...metadata, capturedAt });
+        }
+    }
+
+    /**
+     * Emit all partially grouped events immediately.
+     */
+    flush(): void {
+        for (const byKey of this.aggregators.values()) {
+            for (const aggregator of byKey.values()) {
+                aggregator.flush();
+            }
+        }
+    }
+
+    /**
+     * Number of log entries sent so far.
+     */
+    get count(): number {
+        return this.lineCount;
+    }
+
+    /**
+     * Flush pending events and close any connections opened by the
+     * pipeline (not the main client).
+     */
+    async close(): Promise<void> {
+        this.flush();
+        if (this.summaryTimer) {
+            clearInterval(this.summaryTimer);
+            this.summaryTimer = null;
+        }
+        this.reportFiltered('');
+        if (this.noticeTimer) {
+            clearInterval(this.noticeTimer);
+            this.noticeTimer = null;
+        }
+        this.sendAllNotices();
+        for (const [client, { redactor, transformer }] of this.sources) {
+            if (redactor && redactor.count > 0) {
+                logger.info(`Redacted ${redactor.count} secrets from ${client.name}`);
+            }
+            if (transformer && transformer.failureCount > 0) {
+                logger.error(`Transform failed on ${transformer.failureCount} lines from ${client.name}`);
+            }
+        }
+        await this.demux?.close();
+    }
+
+    /**
+     * Log how many lines each source dropped since the last report.
+     *
+     * @param period - Appended to the message, e.g. " in the last 30s"
+     */
+    private reportFiltered(period: string): void {
+        for (const [client, { filter }] of this.sources) {
+            const summary = filter?.takeSummary();
+            if (summary) {
+                logger.info(`Filtered out ${summary} from ${client.name}${period}`);
+            }
+        }
+    }
+
+    /**
+     * Send pending rate limit notices for every source.
+     */
+    private sendAllNotices(): void {
+        for (const [client, { limiter }] of this.sources) {
+            if (limiter) {
+                this.sendNotices(client, limiter);
+            }
+        }
+    }
+
+    /**
+     * Send a source's pending rate limit notices.
+     */
+    private sendNotices(client: WebSocketClient, limiter: RateLimiter): void {
+        for (const notice of limiter.takeNotices()) {
+            this.deliver(client, notice, notice.content, undefined);
+        }
+    }
+
+    /**
+     * Get the processing state for a client.
+     */
+    private getSource(client: WebSocketClient): SourceState {
+        let state = this.sources.get(client);
+        if (!state) {
+            state = {
+                parser: new FormatParser(this.format, this.levelPattern),
+                transformer: this.transform ? new Transformer(this.transform) : null,
+                redactor: this.redact ? new Redactor(this.redact) : null,
+                filter: this.filter ? new LineFilter(this.filter) : null,
+                limiter: this.rateLimit ? new RateLimiter(this.rateLimit) : null,
+            };
+            this.sources.set(client, state);
+        }
+        return state;
+    }
+
+    /**
+     * Parse an event and send it to its source, unless it is filtered out.
+     */
+    private send(
+        client: WebSocketClient,
+        content: string,
+        raw: string,
+        metadata: LogMessageMetadata | undefined
+    ): void {
+        const { parser, transformer, redactor, filter, limiter } = this.getSource(client);
+        let parsed = parser.parse(content);
+        if (transformer) {
+            const transformed = transformer.apply(stripAnsi(content), parsed, { source: client.name });
+            if (!transformed) return;
+            parsed = transformed;
+        }
+        if (filter && !filter.accepts(parsed, raw)) return;
+        if (limiter) {
+            // Report collapsed repeats before the line that ends them
+            if (limiter.endsRun(parsed)) {
+                this.sendNotices(client, limiter);
+            }
+            if (!limiter.accept(parsed)) return;
+        }
+        if (redactor) {
+            ({ parsed, raw } = redactor.redactLog(parsed, raw));
+        }
+        this.deliver(client, parsed, raw, metadata);
+        this.lineCount++;
+    }
+
+    /**
+     * Echo an event (in pretty tee mode) and send it.
+     */
+    private deliver(
+        client: WebSocketClient,
+        parsed: ParsedLog,
+        raw: string,
+        metadata: LogMessageMetadata | undefined
+    ): void {
+        if (this.tee?.mode === 'pretty') {
+            this.tee.writeEvent(client.name, client.sourceColor, parsed, metadata?.stream);
+        }
+        client.sendLog(parsed, raw, metadata);
+    }
+
+    /**
+     * Get the aggregator for a client and stream/file combination.
+     */
+    private getAggregator(
+        client: WebSocketClient,
+        metadata: LogMessageMetadata | undefined
+    ): MultilineAggregator {
+        let byKey = this.aggregators.get(client);
+        if (!byKey) {
+            byKey = new Map();
+            this.aggregators.set(client, byKey);
+        }
+
+        const key = `${metadata?.stream ?? ''}\0${metadata?.file ?? ''}`;
+        let aggregator = byKey.get(key);
+        if (!aggregator) {
+            aggregator = new MultilineAggregator(this.multiline ?? {}, (lines, rawLines, capturedAt) => {
+                this.send(client, lines.join('\n'), rawLines.join('\n'), { ...metadata, capturedAt });
+            });
+            byKey.set(key, aggregator);
+        }
+        return aggregator;
+    }
+}
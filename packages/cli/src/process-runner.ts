@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Child process runner for Chronoscribe CLI
+ *
+ * Spawns a command and captures its stdout and stderr line by line,
+ * forwarding termination signals so the child shuts down with the CLI.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import * as readline from 'node:readline';
+import { LogLevel, type LogStream } from '@chronoscribe/shared';
+import type { ParsedLog } from './log-parser.js';
+
+/**
+ * Callback for each line captured from the child process.
+ */
+export type StreamLineCallback = (line: string, stream: LogStream) => void;
+
+/**
+ * Callback when the child process exits.
+ * Exactly one of `code` or `signal` is non-null.
+ */
+export type ExitCallback = (code: number | null, signal: NodeJS.Signals | null) => void;
+
+/**
+ * Signals forwarded from the CLI to the child process.
+ */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+/**
+ * Options for spawning a child process.
+ */
+export interface RunProcessOptions {
+    /** Working directory for the child (default: current directory) */
+    cwd?: string;
+    /** Extra environment variables merged over the CLI's environment */
+    env?: Record<string, string>;
+    /** Whether the child shares the CLI's stdin (default: true) */
+    inheritStdin?: boolean;
+    /** Whether SIGINT/SIGTERM/SIGHUP are forwarded to the child (default: true) */
+    forwardSignals?: boolean;
+}
+
+/**
+ * Handle to a running child process.
+ */
+export interface RunningProcess {
+    /** The underlying child process */
+    child: ChildProcess;
+    /** Send a signal to the child process */
+    kill: (signal?: NodeJS.Signals) => void;
+}
+
+/**
+ * Spawn a command and capture its output streams.
+ *
+ * A single argument is run through the shell so that quoted pipelines
+ * such as `chronoscribe run "npm start | grep api"` keep working.
+ *
+ * @param command - Command and its arguments
+ * @param onLine - Callback for each non-empty line of output
+ * @param onExit - Callback when the process exits (after all output is read)
+ * @param options - Spawn options
+ * @returns Handle to the running process
+ */
+export function runProcess(
+    command: string[],
+    onLine: StreamLineCallback,
+    onExit: ExitCallback,
+    options: RunProcessOptions = {}
+): RunningProcess {
+    const { cwd, env, inheritStdin = true, forwardSignals = true } = options;
+    const [file, ...args] = command;
+    if (!file) {
+        throw new Error('No command given');
+    }
+
+    const child = spawn(file, args, {
+        stdio: [inheritStdin ? 'inherit' : 'ignore', 'pipe', 'pipe'],
+        shell: args.length === 0,
+        cwd,
+        env: env ? { ...process.env, ...env } : process.env,
+    });
+
+    // Forward termination signals to the child instead of exiting immediately
+    const signalHandlers = (forwardSignals ? FORWARDED_SIGNALS : []).map((signal) => {
+        const handler = (): void => {
+            if (child.exitCode === null && child.signalCode === null) {
+                child.kill(signal);
+            }
+        };
+        process.on(signal, handler);
+        return { signal, handler };
+    });
+
+    const removeSignalHandlers = (): void => {
+        for (const { signal, handler } of signalHandlers) {
+            process.off(signal, handler);
+        }
+    };
+
+    // Wait for both streams to drain before reporting the exit,
+    // so the exit event is always the last entry in the timeline.
+    let openStreams = 2;
+    let exitStatus: { code: number | null; signal: NodeJS.Signals | null } | null = null;
+
+    const maybeFinish = (): void => {
+        if (openStreams === 0 && exitStatus) {
+            removeSignalHandlers();
+            onExit(exitStatus.code, exitStatus.signal);
+        }
+    };
+
+    const capture = (input: NodeJS.ReadableStream, stream: LogStream): void => {
+        const rl = readline.createInterface({ input, crlfDelay: Infinity });
+        rl.on('line', (line) => {
+            if (line.trim()) {
+                onLine(line, stream);
+            }
+        });
+        rl.on('close', () => {
+            openStreams--;
+            maybeFinish();
+        });
+    };
+
+    if (child.stdout) capture(child.stdout, 'stdout');
+    if (child.stderr) capture(child.stderr, 'stderr');
+
+    child.on('error', (error) => {
+        onLine(`Failed to start "${command.join(' ')}": ${error.message}`, 'stderr');
+        if (!exitStatus) {
+            exitStatus = { code: 127, signal: null };
+            maybeFinish();
+        }
+    });
+
+    child.on('exit', (code, signal) => {
+        exitStatus = { code, signal };
+        maybeFinish();
+    });
+
+    return {
+        child,
+        kill: (signal: NodeJS.Signals = 'SIGTERM') => {
+            child.kill(signal);
+        },
+    };
+}
+
+/**
+ * Describe how a process exited, for display in the timeline.
+ */
+export function describeExit(code: number | null, signal: NodeJS.Signals | null): string {
+    if (signal) {
+        return `Process terminated by signal ${signal}`;
+    }
+    return `Process exited with code ${code ?? 0}`;
+}
+
+/**
+ * Whether an exit status counts as a failure (non-zero code or killed by a signal).
+ */
+export function isFailedExit(code: number | null, signal: NodeJS.Signals | null): boolean {
+    return signal !== null || (code ?? 0) !== 0;
+}
+
+/**
+ * Build the timeline entry reporting a process exit.
+ */
+export function createExitLog(code: number | null, signal: NodeJS.Signals | null): ParsedLog {
+    return {
+        level: isFailedExit(code, signal) ? LogLevel.ERROR : LogLevel.INFO,
+        content: describeExit(code, signal),
+    };
+}
@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Project config loading for `chronoscribe up`
+ *
+ * Reads the list of services to run from `chronoscribe.config.json`
+ * or a Procfile, and validates it into a normalized form.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { FORMAT_NAMES, isFormatName, type FormatName } from './format-presets.js';
+import { parseMinLevel, type LineFilterOptions } from './line-filter.js';
+import {
+    RATE_LIMIT_MODES,
+    isRateLimitMode,
+    type RateLimitMode,
+    type RateLimitOptions,
+} from './rate-limiter.js';
+import type { MultilineOptions } from './multiline.js';
+
+/**
+ * When a crashed service should be restarted.
+ * - `never`: leave it stopped
+ * - `on-failure`: restart on a non-zero exit code or signal
+ * - `always`: restart whenever it exits
+ */
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+/**
+ * A single service definition, as written in the config file.
+ */
+export interface ServiceConfig {
+    /** Command to run, either as a shell string or an argument list */
+    command: string | string[];
+    /** Working directory, relative to the config file */
+    cwd?: string;
+    /** Extra environment variables */
+    env?: Record<string, string>;
+    /** Preferred source color */
+    color?: string;
+    /** Custom regex for log level detection (named group "level") */
+    levelPattern?: string;
+    /** Line format or preset (default: "auto") */
+    format?: FormatName;
+    /** Group stack traces into one entry; optionally with a start-of-event regex */
+    multiline?: boolean | { start?: string; timeoutMs?: number };
+    /** Extra redaction regexes for this service */
+    redact?: string[];
+    /** Only send lines matching one of these regexes */
+    include?: string[];
+    /** Drop lines matching any of these regexes */
+    exclude?: string[];
+    /** Drop lines below this level */
+    minLevel?: string;
+    /** Maximum lines per second for this service */
+    maxRate?: number;
+    /** Handling of lines beyond maxRate (default: "drop") */
+    rateMode?: RateLimitMode;
+    /** Restart policy (default: "never") */
+    restart?: RestartPolicy;
+    /** Maximum consecutive restarts before giving up (default: 5) */
+    maxRestarts?: number;
+    /** Base delay before restarting, doubled on each attempt (default: 1000) */
+    restartDelayMs?: number;
+    /** Whether to start the service with `up` (default: true) */
+    autostart?: boolean;
+}
+
+/**
+ * Top-level shape of `chronoscribe.config.json`.
+ */
+export interface ProjectConfig {
+    services: Record<string, ServiceConfig>;
+    /** Redaction regexes applied to every service */
+    redact?: string[];
+}
+
+/**
+ * A validated service, ready to be spawned.
+ */
+export interface ResolvedService {
+    name: string;
+    command: string[];
+    cwd: string;
+    env?: Record<string, string>;
+    color?: string;
+    levelPattern?: string;
+    format?: FormatName;
+    multiline?: MultilineOptions;
+    /** Redaction rules from the config (shared and service-specific) */
+    redact?: RegExp[];
+    filter?: LineFilterOptions;
+    rateLimit?: RateLimitOptions;
+    restart: RestartPolicy;
+    maxRestarts: number;
+    restartDelayMs: number;
+    autostart: boolean;
+}
+
+/**
+ * Config file names looked up in the working directory, in order.
+ */
+export const CONFIG_FILE_NAMES = ['chronoscribe.config.json', 'Procfile'] as const;
+
+const RESTART_POLICIES: RestartPolicy[] = ['never', 'on-failure', 'always'];
+
+/**
+ * Find the project config file, either the explicit path or the first
+ * known file name in the given directory.
+ */
+export function findConfigFile(explicitPath: string | undefined, dir: string = process.cwd()): string | null {
+    if (explicitPath) {
+        return path.resolve(dir, explicitPath);
+    }
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const candidate = path.join(dir, fileName);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+/**
+ * Load and validate a project config file.
+ * Throws an Error with a readable message if the file is invalid.
+ */
+export function loadProjectConfig(filePath: string): ResolvedService[] {
+    const text = fs.readFileSync(filePath, 'utf8');
+    const baseDir = path.dirname(filePath);
+
+    const config = path.basename(filePath).startsWith('Procfile')
+        ? parseProcfile(text)
+        : parseJsonConfig(text, filePath);
+
+    const sharedRedact = compilePatternList('Config', 'redact', config.redact);
+    const services = Object.entries(config.services).map(([name, service]) =>
+        resolveService(name, service, baseDir, sharedRedact)
+    );
+
+    if (services.length === 0) {
+        throw new Error(`No services defined in ${filePath}`);
+    }
+
+    return services;
+}
+
+/**
+ * Parse the JSON config format.
+ */
+function parseJsonConfig(text: string, filePath: string): ProjectConfig {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Invalid JSON in ${filePath}: ${message}`);
+    }
+
+    if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        typeof (parsed as { services?: unknown }).services !== 'object' ||
+        (parsed as { services?: unknown }).services === null
+    ) {
+        throw new Error(`${filePath} must contain a "services" object`);
+    }
+
+    return parsed as ProjectConfig;
+}
+
+/**
+ * Parse a Procfile (`name: command` per line, `#` comments).
+ */
+function parseProcfile(text: string): ProjectConfig {
+    const services: Record<string, ServiceConfig> = {};
+
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+
+        const match = trimmed.match(/^([\w.-]+)\s*:\s*(.+)$/);
+        if (!match?.[1] || !match[2]) {
+            throw new Error(`Invalid Procfile line: ${trimmed}`);
+        }
+        services[match[1]] = { command: match[2] };
+    }
+
+    return { services };
+}
+
+/**
+ * Validate a single service entry and fill in defaults.
+ */
+function resolveService(
+    name: string,
+    service: ServiceConfig,
+    baseDir: string,
+    sharedRedact: RegExp[]
+): ResolvedService {
+    const command = typeof service.command === 'string' ? [service.command] : service.command;
+    if (!Array.isArray(command) || command.length === 0 || !command.every((c) => typeof c === 'string')) {
+        throw new Error(`Service "${name}" needs a "command" string or array`);
+    }
+
+    const restart = service.restart ?? 'never';
+    if (!RESTART_POLICIES.includes(restart)) {
+        throw new Error(
+            `Service "${name}" has invalid restart policy "${restart}" (expected ${RESTART_POLICIES.join(', ')})`
+        );
+    }
+
+    if (service.format !== undefined && !isFormatName(service.format)) {
+        throw new Error(
+            `Service "${name}" has invalid format "${service.format}" (expected ${FORMAT_NAMES.join(', ')})`
+        );
+    }
+
+    const resolved: ResolvedService = {
+        name,
+        command,
+        cwd: path.resolve(baseDir, service.cwd ?? '.'),
+        restart,
+        maxRestarts: service.maxRestarts ?? 5,
+        restartDelayMs: service.restartDelayMs ?? 1000,
+        autostart: service.autostart ?? true,
+    };
+    if (service.env) resolved.env = service.env;
+    if (service.color) resolved.color = service.color;
+    if (service.levelPattern) resolved.levelPattern = service.levelPattern;
+    if (service.format) resolved.format = service.format;
+    if (service.multiline) resolved.multiline = resolveMultiline(name, service.multiline);
+
+    const owner = `Service "${name}"`;
+    if (service.maxRate !== undefined) {
+        if (typeof service.maxRate !== 'number' || !(service.maxRate > 0)) {
+            throw new Error(`${owner} has invalid maxRate "${service.maxRate}" (expected a positive number)`);
+        }
+        if (service.rateMode !== undefined && !isRateLimitMode(service.rateMode)) {
+            throw new Error(
+                `${owner} has invalid rateMode "${service.rateMode}" (expected ${RATE_LIMIT_MODES.join(', ')})`
+            );
+        }
+        resolved.rateLimit = { maxRate: service.maxRate, mode: service.rateMode };
+    }
+
+    const redact = [...sharedRedact, ...compilePatternList(owner, 'redact', service.redact)];
+    if (redact.length > 0) resolved.redact = redact;
+
+    if (service.include || service.exclude || service.minLevel !== undefined) {
+        const minLevel = service.minLevel !== undefined ? parseMinLevel(String(service.minLevel)) : undefined;
+        if (minLevel === null) {
+            throw new Error(`${owner} has invalid minLevel "${service.minLevel}" (expected debug, info, warn or error)`);
+        }
+        resolved.filter = {
+            include: compilePatternList(owner, 'include', service.include),
+            exclude: compilePatternList(owner, 'exclude', service.exclude),
+            minLevel,
+        };
+    }
+
+    return resolved;
+}
+
+/**
+ * Compile a list of regex strings (e.g. `redact` or `exclude`).
+ *
+ * @param owner - What the list belongs to, for error messages
+ * @param key - Name of the setting, for error messages
+ */
+function compilePatternList(owner: string, key: string, patterns: unknown): RegExp[] {
+    if (patterns === undefined) return [];
+    if (!Array.isArray(patterns) || !patterns.every((pattern) => typeof pattern === 'string')) {
+        throw new Error(`${owner} "${key}" must be an array of regex strings`);
+    }
+    return patterns.map((pattern: string) => {
+        try {
+            return new RegExp(pattern);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`${owner} has an invalid ${key} pattern: ${message}`);
+        }
+    });
+}
+
+/**
+ * Convert a service's `multiline` setting into aggregator options.
+ */
+function resolveMultiline(
+    name: string,
+    multiline: Exclude<ServiceConfig['multiline'], false | undefined>
+): MultilineOptions {
+    if (multiline === true) return {};
+
+    const options: MultilineOptions = { timeoutMs: multiline.timeoutMs };
+    if (multiline.start) {
+        try {
+            options.startPattern = new RegExp(multiline.start);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Service "${name}" has an invalid multiline start pattern: ${message}`);
+        }
+    }
+    return options;
+}
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Per-source rate limiting for Chronoscribe CLI
+ *
+ * Keeps a source stuck in an error loop from drowning everything else.
+ * Lines beyond the rate are dropped, sampled, or collapsed when identical,
+ * and the limiter produces notices ("N lines suppressed") so the dashboard
+ * shows that suppression happened.
+ */
+
+import { LogLevel, TokenBucket } from '@chronoscribe/shared';
+import type { ParsedLog } from './log-parser.js';
+
+/**
+ * What happens to lines beyond the rate.
+ * - `drop`: they are dropped
+ * - `sample`: one in every SAMPLE_EVERY is still sent
+ * - `collapse`: repeats of the last sent line are counted as
+ *   "repeated N times"; other lines are dropped
+ */
+export type RateLimitMode = 'drop' | 'sample' | 'collapse';
+
+export const RATE_LIMIT_MODES: readonly RateLimitMode[] = ['drop', 'sample', 'collapse'];
+
+/**
+ * Rate limit settings.
+ */
+export interface RateLimitOptions {
+    /** Maximum lines per second (bursts of up to one second's worth are allowed) */
+    maxRate: number;
+    /** Handling of lines beyond the rate (default: "drop") */
+    mode?: RateLimitMode | undefined;
+}
+
+/**
+ * In sample mode, one in this many lines beyond the rate is sent.
+ */
+const SAMPLE_EVERY = 10;
+
+/**
+ * Check whether a string is a valid rate limit mode.
+ */
+export function isRateLimitMode(value: unknown): value is RateLimitMode {
+    return typeof value === 'string' && (RATE_LIMIT_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Rate limiter for one source.
+ */
+export class RateLimiter {
+    private readonly bucket: TokenBucket;
+    private readonly maxRate: number;
+    private readonly mode: RateLimitMode;
+    /** Lines beyond the rate seen since the limit was last hit */
+    private overflow = 0;
+    private suppressed = 0;
+    /** Last line sent, for collapse mode */
+    private last: ParsedLog | null = null;
+    private repeated = 0;
+
+    constructor(options: RateLimitOptions) {
+        this.maxRate = options.maxRate;
+        this.mode = options.mode ?? 'drop';
+        this.bucket = new TokenBucket(options.maxRate);
+    }
+
+    /**
+     * Whether a line may be sent now. Lines that are not are counted
+     * for the next notices.
+     */
+    accept(parsed: ParsedLog): boolean {
+        const identical = this.mode === 'collapse'
+            && this.last !== null
+            && this.last.level === parsed.level
+            && this.last.content === parsed.content;
+
+        if (this.bucket.take()) {
+            this.overflow = 0;
+            if (!identical) {
+                this.last = parsed;
+            }
+            return true;
+        }
+
+        this.overflow++;
+        if (this.mode === 'sample' && this.overflow % SAMPLE_EVERY === 0) {
+            return true;
+        }
+        if (identical) {
+            this.repeated++;
+        } else {
+            this.suppressed++;
+        }
+        return false;
+    }
+
+    /**
+     * Whether a line ends a run of collapsed repeats, so the "repeated"
+     * notice should be sent before it rather than on the next tick.
+     */
+    endsRun(parsed: ParsedLog): boolean {
+        return this.repeated > 0
+            && this.last !== null
+            && (this.last.level !== parsed.level || this.last.content !== parsed.content);
+    }
+
+    /**
+     * Notices for lines held back since the last call.
+     */
+    takeNotices(): ParsedLog[] {
+        const notices: ParsedLog[] = [];
+
+        if (this.repeated > 0 && this.last) {
+            notices.push({
+                level: this.last.level,
+                content: `Previous line repeated ${this.repeated} times (rate limit ${this.maxRate}/s)`,
+                fields: { repeated: this.repeated },
+            });
+            this.repeated = 0;
+        }
+        if (this.suppressed > 0) {
+            notices.push({
+                level: LogLevel.WARN,
+                content: `${this.suppressed} lines suppressed (rate limit ${this.maxRate}/s)`,
+                fields: { suppressed: this.suppressed },
+            });
+            this.suppressed = 0;
+        }
+
+        return notices;
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Secret redaction for Chronoscribe CLI
+ *
+ * Masks tokens, keys, credentials and emails in log lines before they
+ * leave the process, so the dashboard can be shared and logs exported
+ * safely. Built-in detectors can be combined with custom regex rules.
+ */
+
+import type { LogFields } from '@chronoscribe/shared';
+import { hasAnsi, stripAnsi } from './ansi.js';
+import type { ParsedLog } from './log-parser.js';
+
+/**
+ * Redaction settings.
+ */
+export interface RedactOptions {
+    /** Apply the built-in detectors (default: true) */
+    builtins?: boolean | undefined;
+    /** Custom rules; a named group `secret` limits the mask to that group */
+    rules?: RegExp[] | undefined;
+}
+
+/**
+ * A named pattern whose matches are masked.
+ */
+interface RedactionRule {
+    name: string;
+    pattern: RegExp;
+}
+
+/**
+ * Built-in detectors, applied in order. Where a named group `secret` is
+ * present, only that part is masked so the surrounding context stays readable
+ * (e.g. `postgres://app:[REDACTED:url-credentials]@db/prod`).
+ */
+const BUILTIN_RULES: RedactionRule[] = [
+    { name: 'jwt', pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/dg },
+    { name: 'aws-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/dg },
+    {
+        name: 'aws-secret',
+        pattern: /\baws_?secret_?access_?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/dgi,
+    },
+    { name: 'bearer', pattern: /\bBearer\s+(?<secret>[\w~+/.-]+=*)/dgi },
+    { name: 'url-credentials', pattern: /\b[a-z][\w+.-]*:\/\/[^\s:@/]*:(?<secret>[^\s@/]+)@/dgi },
+    { name: 'email', pattern: /\b[\w.%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}\b/dgi },
+];
+
+/**
+ * Masks secrets in parsed logs and counts how many were found.
+ */
+export class Redactor {
+    private readonly rules: RedactionRule[];
+    private redactions = 0;
+
+    constructor(options: RedactOptions = {}) {
+        this.rules = [
+            ...(options.builtins === false ? [] : BUILTIN_RULES),
+            ...(options.rules ?? []).map((pattern) => ({
+                name: 'custom',
+                // Global with match indices, for the `secret` group offsets
+                pattern: new RegExp(pattern.source, `${pattern.flags.replace(/[gdy]/g, '')}dg`),
+            })),
+        ];
+    }
+
+    /**
+     * Whether any rules are active.
+     */
+    get enabled(): boolean {
+        return this.rules.length > 0;
+    }
+
+    /**
+     * Number of secrets redacted so far (counted in the raw lines).
+     */
+    get count(): number {
+        return this.redactions;
+    }
+
+    /**
+     * Mask secrets in a parsed log and its raw line. Colors are dropped from
+     * anything that had a secret masked, since the mask can't be placed
+     * reliably between escape sequences.
+     */
+    redactLog(parsed: ParsedLog, raw: string): { parsed: ParsedLog; raw: string } {
+        const redactedRaw = this.redactStyled(raw, true);
+        const result: ParsedLog = { ...parsed, content: this.redactStyled(parsed.content) };
+        if (
+            parsed.styledContent !== undefined &&
+            (result.content !== parsed.content || this.redactStyled(parsed.styledContent) !== parsed.styledContent)
+        ) {
+            delete result.styledContent;
+        }
+        if (parsed.fields !== undefined) {
+            result.fields = this.redactValue(parsed.fields) as LogFields;
+        }
+        return { parsed: result, raw: redactedRaw };
+    }
+
+    /**
+     * Mask every rule's matches in a string.
+     *
+     * @param count - Add the matches to the redaction count
+     */
+    redact(text: string, count = false): string {
+        let result = text;
+        for (const rule of this.rules) {
+            result = this.apply(result, rule, count);
+        }
+        return result;
+    }
+
+    /**
+     * Mask secrets in text that may contain escape sequences. The rules run
+     * on the plain text, as escapes can separate a secret from the context
+     * a detector looks for (`\e[1mBearer\e[0m eyJ...`). Returns the text
+     * unchanged if nothing was found, else the masked plain text.
+     */
+    private redactStyled(text: string, count = false): string {
+        if (!hasAnsi(text)) {
+            return this.redact(text, count);
+        }
+        const plain = stripAnsi(text);
+        const redacted = this.redact(plain, count);
+        return redacted === plain ? text : redacted;
+    }
+
+    /**
+     * Mask one rule's matches.
+     */
+    private apply(text: string, rule: RedactionRule, count: boolean): string {
+        const { pattern } = rule;
+        pattern.lastIndex = 0;
+
+        let result = '';
+        let lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+            const [start, end] = match.indices?.groups?.['secret']
+                ?? [match.index, match.index + match[0].length];
+            result += `${text.slice(lastIndex, start)}[REDACTED:${rule.name}]`;
+            lastIndex = end;
+            if (count) this.redactions++;
+        }
+
+        return lastIndex === 0 ? text : result + text.slice(lastIndex);
+    }
+
+    /**
+     * Mask secrets in the strings of a structured value.
+     */
+    private redactValue(value: unknown): unknown {
+        if (typeof value === 'string') {
+            return this.redact(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => this.redactValue(item));
+        }
+        if (typeof value === 'object' && value !== null) {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.redactValue(item)])
+            );
+        }
+        return value;
+    }
+}
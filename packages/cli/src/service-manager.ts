@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Multi-service runner for `chronoscribe up`
+ *
+ * Spawns every service from the project config, registers each one as its
+ * own source on the server, and applies restart policies when they exit.
+ */
+
+import { LogLevel } from '@chronoscribe/shared';
+import { WebSocketClient, type ConnectionConfig } from './websocket-client.js';
+import { LogPipeline, type LogPipelineOptions } from './pipeline.js';
+import {
+    runProcess,
+    createExitLog,
+    isFailedExit,
+    type RunningProcess,
+} from './process-runner.js';
+import type { ResolvedService } from './project-config.js';
+import { logger } from './logger.js';
+
+/**
+ * Lifecycle state of a managed service.
+ */
+export type ServiceState = 'stopped' | 'running' | 'stopping' | 'restarting' | 'exited' | 'crashed';
+
+/**
+ * Status snapshot of a managed service.
+ */
+export interface ServiceStatus {
+    name: string;
+    state: ServiceState;
+    pid?: number;
+    restarts: number;
+}
+
+/**
+ * Internal bookkeeping for a managed service.
+ */
+interface ManagedService {
+    config: ResolvedService;
+    client: WebSocketClient;
+    pipeline: LogPipeline;
+    state: ServiceState;
+    process: RunningProcess | null;
+    /** Consecutive restarts since the service last ran stably */
+    restarts: number;
+    startedAt: number;
+    restartTimer: NodeJS.Timeout | null;
+    /** Resolvers waiting for the current process to exit */
+    exitWaiters: Array<() => void>;
+}
+
+/**
+ * A service that stays up this long is considered stable
+ * and its restart counter is reset.
+ */
+const STABLE_RUN_MS = 10_000;
+
+/**
+ * Upper bound for the restart backoff delay.
+ */
+const MAX_RESTART_DELAY_MS = 30_000;
+
+/**
+ * Grace period before a stopping service is killed with SIGKILL.
+ */
+const STOP_TIMEOUT_MS = 10_000;
+
+/**
+ * Pipeline settings from the command line, shared by every service.
+ * Redaction rules and filters are extended by each service's own; a
+ * service's rate limit and minimum level replace the shared ones.
+ */
+export type ServicePipelineDefaults = Pick<LogPipelineOptions, 'tee' | 'redact' | 'filter' | 'rateLimit' | 'transform'>;
+
+/**
+ * Runs and supervises a set of services, one source per service.
+ */
+export class ServiceManager {
+    private services: Map<string, ManagedService> = new Map();
+    private shuttingDown = false;
+
+    /**
+     * @param services - Services from the project config
+     * @param connection - Server and spool settings for each service's source
+     * @param defaults - Pipeline settings from the command line
+     */
+    constructor(
+        services: ResolvedService[],
+        connection: ConnectionConfig,
+        defaults: ServicePipelineDefaults = {}
+    ) {
+        const { redact = {}, filter = {} } = defaults;
+        for (const config of services) {
+            const client = new WebSocketClient({
+                ...connection,
+                sourceName: config.name,
+                color: config.color,
+            });
+            this.services.set(config.name, {
+                config,
+                client,
+                pipeline: new LogPipeline(client, {
+                    levelPattern: config.levelPattern,
+                    format: config.format,
+                    multiline: config.multiline,
+                    tee: defaults.tee,
+                    redact: {
+                        builtins: redact.builtins,
+                        rules: [...(redact.rules ?? []), ...(config.redact ?? [])],
+                    },
+                    filter: {
+                        include: [...(filter.include ?? []), ...(config.filter?.include ?? [])],
+                        exclude: [...(filter.exclude ?? []), ...(config.filter?.exclude ?? [])],
+                        minLevel: config.filter?.minLevel ?? filter.minLevel,
+                    },
+                    rateLimit: config.rateLimit ?? defaults.rateLimit,
+                    transform: defaults.transform,
+                }),
+                state: 'stopped',
+                process: null,
+                restarts: 0,
+                startedAt: 0,
+                restartTimer: null,
+                exitWaiters: [],
+            });
+        }
+    }
+
+    /**
+     * Connect every service's source to the server.
+     */
+    async connect(): Promise<void> {
+        await Promise.all(
+            Array.from(this.services.values()).map((service) => service.client.connect())
+        );
+    }
+
+    /**
+     * Names of all configured services.
+     */
+    get names(): string[] {
+        return Array.from(this.services.keys());
+    }
+
+    /**
+     * Start a service. Does nothing if it is already running.
+     */
+    start(name: string): void {
+        const service = this.getService(name);
+        if (service.state === 'running' || service.state === 'stopping') {
+            logger.info(`${name} is already ${service.state}`);
+            return;
+        }
+        this.clearRestartTimer(service);
+        service.restarts = 0;
+        this.spawn(service);
+    }
+
+    /**
+     * Stop a service and wait for it to exit. It will not be restarted.
+     */
+    stop(name: string): Promise<void> {
+        const service = this.getService(name);
+        this.clearRestartTimer(service);
+
+        if (!service.process) {
+            if (service.state === 'restarting') service.state = 'stopped';
+            return Promise.resolve();
+        }
+
+        service.state = 'stopping';
+        const running = service.process;
+        running.kill('SIGTERM');
+
+        const killTimer = setTimeout(() => running.kill('SIGKILL'), STOP_TIMEOUT_MS);
+        return new Promise((resolve) => {
+            service.exitWaiters.push(() => {
+                clearTimeout(killTimer);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop a service (if running) and start it again.
+     */
+    async restart(name: string): Promise<void> {
+        await this.stop(name);
+        this.start(name);
+    }
+
+    /**
+     * Stop all services and close their connections.
+     */
+    async shutdown(): Promise<void> {
+        this.shuttingDown = true;
+        await Promise.all(this.names.map((name) => this.stop(name)));
+        for (const service of this.services.values()) {
+            await service.pipeline.close();
+            service.client.close();
+        }
+    }
+
+    /**
+     * Current status of every service.
+     */
+    getStatus(): ServiceStatus[] {
+        return Array.from(this.services.values()).map((service) => {
+            const status: ServiceStatus = {
+                name: service.config.name,
+                state: service.state,
+                restarts: service.restarts,
+            };
+            if (service.process?.child.pid !== undefined) {
+                status.pid = service.process.child.pid;
+            }
+            return status;
+        });
+    }
+
+    /**
+     * Look up a service by name, throwing for unknown names.
+     */
+    private getService(name: string): ManagedService {
+        const service = this.services.get(name);
+        if (!service) {
+            throw new Error(`Unknown service "${name}" (available: ${this.names.join(', ')})`);
+        }
+        return service;
+    }
+
+    /**
+     * Spawn the service's process and wire its output to its source.
+     */
+    private spawn(service: ManagedService): void {
+        const { config, pipeline } = service;
+
+        logger.info(`Starting ${config.name}: ${config.command.join(' ')}`);
+        service.state = 'running';
+        service.startedAt = Date.now();
+
+        const runOptions: Parameters<typeof runProcess>[3] = {
+            cwd: config.cwd,
+            inheritStdin: false,
+            forwardSignals: false,
+        };
+        if (config.env) runOptions.env = config.env;
+
+        service.process = runProcess(
+            config.command,
+            (line, stream) => {
+                pipeline.push(line, { stream });
+            },
+            (code, signal) => this.handleExit(service, code, signal),
+            runOptions
+        );
+    }
+
+    /**
+     * Report an exit and apply the restart policy.
+     */
+    private handleExit(
+        service: ManagedService,
+        code: number | null,
+        signal: NodeJS.Signals | null
+    ): void {
+        const { config, client, pipeline } = service;
+        pipeline.flush();
+        const exitLog = createExitLog(code, signal);
+        client.sendLog(exitLog, exitLog.content);
+        logger.info(`${config.name}: ${exitLog.content}`);
+
+        service.process = null;
+        const waiters = service.exitWaiters;
+        service.exitWaiters = [];
+
+        const failed = isFailedExit(code, signal);
+        const stopRequested = service.state === 'stopping' || this.shuttingDown;
+        service.state = stopRequested ? 'stopped' : failed ? 'crashed' : 'exited';
+
+        if (Date.now() - service.startedAt >= STABLE_RUN_MS) {
+            service.restarts = 0;
+        }
+
+        const wantsRestart =
+            !stopRequested &&
+            (config.restart === 'always' || (config.restart === 'on-failure' && failed));
+
+        if (wantsRestart) {
+            if (service.restarts < config.maxRestarts) {
+                this.scheduleRestart(service);
+            } else {
+                const message = `Giving up after ${config.maxRestarts} restarts`;
+                client.sendLog({ level: LogLevel.ERROR, content: message }, message);
+                logger.error(`${config.name}: ${message}`);
+            }
+        }
+
+        for (const resolve of waiters) resolve();
+    }
+
+    /**
+     * Restart a service after an exponential backoff delay.
+     */
+    private scheduleRestart(service: ManagedService): void {
+        const { config, client } = service;
+        const delay = Math.min(
+            config.restartDelayMs * Math.pow(2, service.restarts),
+            MAX_RESTART_DELAY_MS
+        );
+        service.restarts++;
+        service.state = 'restarting';
+
+        const message = `Restarting in ${delay}ms (attempt ${service.restarts}/${config.maxRestarts})`;
+        client.sendLog({ level: LogLevel.WARN, content: message }, message);
+        logger.info(`${config.name}: ${message}`);
+
+        service.restartTimer = setTimeout(() => {
+            service.restartTimer = null;
+            if (service.state === 'restarting' && !this.shuttingDown) {
+                this.spawn(service);
+            }
+        }, delay);
+    }
+
+    /**
+     * Cancel a pending restart, if any.
+     */
+    private clearRestartTimer(service: ManagedService): void {
+        if (service.restartTimer) {
+            clearTimeout(service.restartTimer);
+            service.restartTimer = null;
+        }
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Capture session control for Chronoscribe CLI
+ *
+ * `chronoscribe session start|stop|list` connects to the server, sends one
+ * session request, prints the outcome on stdout and exits.
+ */
+
+import WebSocket from 'ws';
+import {
+    MessageType,
+    createSessionStartMessage,
+    createSessionStopMessage,
+    createSessionsRequestMessage,
+    isMessageType,
+    parseMessage,
+    serializeMessage,
+    type CaptureSession,
+    type ClientMessage,
+    type SessionsListMessage,
+} from '@chronoscribe/shared';
+
+/**
+ * What the session command does.
+ * - `start`: start a session with the given label, stopping the running one
+ * - `stop`: stop the running session
+ * - `list`: print all sessions
+ */
+export type SessionAction = 'start' | 'stop' | 'list';
+
+export const SESSION_ACTIONS: readonly SessionAction[] = ['start', 'stop', 'list'];
+
+/**
+ * How long to wait for the server's reply.
+ */
+const REPLY_TIMEOUT_MS = 5000;
+
+/**
+ * Check whether a value is a session action.
+ */
+export function isSessionAction(value: unknown): value is SessionAction {
+    return typeof value === 'string' && (SESSION_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Run a session command against the server. Rejects if the server cannot
+ * be reached or doesn't reply.
+ */
+export async function runSessionCommand(serverUrl: string, action: SessionAction, label: string): Promise<void> {
+    const ws = await open(serverUrl);
+    try {
+        switch (action) {
+            case 'start': {
+                const previous = new Set((await request(ws, createSessionsRequestMessage())).map((s) => s.id));
+                const isNew = (s: CaptureSession) => !previous.has(s.id);
+                const sessions = await request(ws, createSessionStartMessage(label), (list) => list.some(isNew));
+                const session = sessions.find(isNew);
+                if (session) {
+                    console.log(`Started session "${session.label}" (${session.id})`);
+                }
+                break;
+            }
+            case 'stop': {
+                const running = (await request(ws, createSessionsRequestMessage())).find((s) => !s.endedAt);
+                if (!running) {
+                    console.log('No session is running');
+                    break;
+                }
+                const isStopped = (s: CaptureSession) => s.id === running.id && s.endedAt !== undefined;
+                const sessions = await request(ws, createSessionStopMessage(), (list) => list.some(isStopped));
+                const session = sessions.find(isStopped) ?? running;
+                console.log(`Stopped session "${session.label}" after ${formatDuration(session)}`);
+                break;
+            }
+            case 'list': {
+                const sessions = await request(ws, createSessionsRequestMessage());
+                if (sessions.length === 0) {
+                    console.log('No sessions');
+                }
+                for (const session of sessions) {
+                    const state = session.endedAt ? formatDuration(session) : 'running';
+                    const sources = session.sources.length > 0 ? session.sources.join(', ') : '-';
+                    console.log(
+                        `  ${session.id.slice(0, 8)}  ${session.label.padEnd(30)} ` +
+                        `${new Date(session.startedAt).toLocaleString()}  ${state.padEnd(10)} ${sources}`
+                    );
+                }
+                break;
+            }
+        }
+    } finally {
+        ws.close();
+    }
+}
+
+/**
+ * Connect to the server.
+ */
+function open(serverUrl: string): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(serverUrl);
+        ws.once('open', () => resolve(ws));
+        ws.once('error', reject);
+    });
+}
+
+/**
+ * Send a session message and wait for a sessions list reflecting it. Lists
+ * that don't pass `accept` are skipped: after a moment the server treats
+ * this connection as a viewer and sends it the list unprompted too.
+ */
+function request(
+    ws: WebSocket,
+    message: ClientMessage,
+    accept: (sessions: CaptureSession[]) => boolean = () => true
+): Promise<CaptureSession[]> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            ws.off('message', onMessage);
+            reject(new Error('No reply from server'));
+        }, REPLY_TIMEOUT_MS);
+
+        const onMessage = (data: WebSocket.RawData) => {
+            const reply = parseMessage(data.toString());
+            if (!isMessageType<SessionsListMessage>(reply, MessageType.SESSIONS_LIST)) return;
+            if (!accept(reply.payload.sessions)) return;
+
+            clearTimeout(timer);
+            ws.off('message', onMessage);
+            resolve(reply.payload.sessions);
+        };
+        ws.on('message', onMessage);
+        ws.send(serializeMessage(message));
+    });
+}
+
+/**
+ * Format how long a session ran (or has run so far), e.g. "4m 12s".
+ */
+function formatDuration(session: CaptureSession): string {
+    const end = session.endedAt ? new Date(session.endedAt).getTime() : Date.now();
+    const seconds = Math.max(0, Math.round((end - new Date(session.startedAt).getTime()) / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Disk-backed outbound spool for Chronoscribe CLI
+ *
+ * While the server is unreachable, serialized messages are appended to a
+ * file (one per line) instead of being held in memory. The spool is replayed
+ * in order on reconnect, and survives CLI restarts: a new CLI with the same
+ * source name and server picks up what the previous one could not send.
+ *
+ * A lock file next to the spool (created exclusively, holding the owner's
+ * pid) keeps two running CLIs from sharing one spool. A lock left by a CLI
+ * that is no longer running is taken over.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+/**
+ * Spool settings.
+ */
+export interface SpoolOptions {
+    /** Directory holding spool files */
+    dir: string;
+    /** Maximum spool file size; new lines are dropped beyond it */
+    maxBytes: number;
+}
+
+export const DEFAULT_SPOOL_DIR = path.join(os.tmpdir(), 'chronoscribe-spool');
+export const DEFAULT_SPOOL_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Append-only message spool for one source.
+ */
+export class DiskSpool {
+    readonly filePath: string;
+    private readonly lockPath: string;
+    private readonly maxBytes: number;
+    private fd: number | null = null;
+    private size = 0;
+    private locked = false;
+
+    /**
+     * @param options - Spool directory and size limit
+     * @param serverUrl - Server the messages are for
+     * @param sourceName - Source the messages belong to
+     * @throws If another running CLI holds the spool
+     */
+    constructor(options: SpoolOptions, serverUrl: string, sourceName: string) {
+        this.maxBytes = options.maxBytes;
+
+        const safeName = sourceName.replace(/[^\w.-]+/g, '_').slice(0, 64);
+        const serverHash = createHash('sha1').update(serverUrl).digest('hex').slice(0, 8);
+        this.filePath = path.join(options.dir, `${safeName}-${serverHash}.spool`);
+        this.lockPath = `${this.filePath}.lock`;
+
+        fs.mkdirSync(options.dir, { recursive: true });
+        this.lock();
+        try {
+            this.size = fs.statSync(this.filePath).size;
+        } catch {
+            this.size = 0;
+        }
+    }
+
+    /**
+     * Whether the spool holds unsent messages.
+     */
+    get hasPending(): boolean {
+        return this.size > 0;
+    }
+
+    /**
+     * Append a serialized message. Returns false if the spool is full.
+     */
+    append(message: string): boolean {
+        const line = `${message}\n`;
+        const bytes = Buffer.byteLength(line);
+        if (this.size + bytes > this.maxBytes) {
+            return false;
+        }
+
+        this.fd ??= fs.openSync(this.filePath, 'a');
+        fs.writeSync(this.fd, line);
+        this.size += bytes;
+        return true;
+    }
+
+    /**
+     * Replay spooled messages in order. Stops when `send` returns false
+     * (e.g. the connection dropped again) and keeps the rest for later.
+     *
+     * @returns Number of messages sent
+     */
+    drain(send: (message: string) => boolean): number {
+        this.closeFile();
+        if (this.size === 0) return 0;
+
+        let text: string;
+        try {
+            text = fs.readFileSync(this.filePath, 'utf8');
+        } catch {
+            this.size = 0;
+            return 0;
+        }
+
+        const messages = text.split('\n').filter(Boolean);
+        let sent = 0;
+        while (sent < messages.length && send(messages[sent] ?? '')) {
+            sent++;
+        }
+
+        const rest = messages.slice(sent);
+        if (rest.length === 0) {
+            fs.rmSync(this.filePath, { force: true });
+            this.size = 0;
+        } else {
+            const remaining = `${rest.join('\n')}\n`;
+            fs.writeFileSync(this.filePath, remaining);
+            this.size = Buffer.byteLength(remaining);
+        }
+        return sent;
+    }
+
+    /**
+     * Close the spool file and release the lock. Unsent messages stay on disk.
+     */
+    close(): void {
+        this.closeFile();
+        if (this.locked) {
+            fs.rmSync(this.lockPath, { force: true });
+            this.locked = false;
+        }
+    }
+
+    /**
+     * Create the lock file, taking over a stale one.
+     */
+    private lock(): void {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+                const fd = fs.openSync(this.lockPath, 'wx');
+                fs.writeSync(fd, String(process.pid));
+                fs.closeSync(fd);
+                this.locked = true;
+                return;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+            }
+
+            if (!fs.existsSync(this.lockPath)) continue;
+            const owner = readOwner(this.lockPath);
+            if (owner === null || isRunning(owner)) {
+                throw new Error(
+                    `Spool ${this.filePath} is in use by another Chronoscribe CLI` +
+                    (owner === null ? ` (remove ${this.lockPath} if it is not)` : ` (pid ${owner})`)
+                );
+            }
+            // Left behind by a CLI that exited without closing the spool
+            fs.rmSync(this.lockPath, { force: true });
+        }
+        throw new Error(`Could not lock spool ${this.filePath}`);
+    }
+
+    private closeFile(): void {
+        if (this.fd !== null) {
+            fs.closeSync(this.fd);
+            this.fd = null;
+        }
+    }
+}
+
+/**
+ * Pid stored in a lock file, or null if it can't be read (yet).
+ */
+function readOwner(lockPath: string): number | null {
+    try {
+        const pid = Number(fs.readFileSync(lockPath, 'utf8').trim());
+        return Number.isInteger(pid) && pid > 0 ? pid : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether a process with the given pid is running.
+ */
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: it exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
@@ -6,6 +6,7 @@
  */
 
 import * as readline from 'node:readline';
+import { logger } from './logger.js';
 
 /**
  * Callback for processing each log line.
@@ -25,8 +26,8 @@ export function readStdin(
 ): () => void {
     // Check if stdin is a TTY (interactive terminal)
     if (process.stdin.isTTY) {
-        console.log('[Chronoscribe] Interactive mode: Type log lines and press Enter.');
-        console.log('[Chronoscribe] Press Ctrl+D to exit.\n');
+        logger.info('Interactive mode: Type log lines and press Enter.');
+        logger.info('Press Ctrl+D to exit.\n');
     }
 
     const rl = readline.createInterface({
@@ -35,10 +36,8 @@ export function readStdin(
     });
 
     rl.on('line', (line) => {
-        // Skip empty lines
-        if (line.trim()) {
-            onLine(line);
-        }
+        // Empty lines are passed on too, so --tee echoes them
+        onLine(line);
     });
 
     rl.on('close', () => {
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Terminal passthrough for Chronoscribe CLI (--tee)
+ *
+ * Echoes lines to the terminal while they are also sent to the server, so
+ * piping into Chronoscribe doesn't swallow the app's output.
+ */
+
+import { LogLevel, type LogStream } from '@chronoscribe/shared';
+import { stripAnsi } from './ansi.js';
+import type { ParsedLog } from './log-parser.js';
+
+/**
+ * How echoed lines look.
+ * - `plain`: exactly as received
+ * - `pretty`: prefixed with the source name (in its color) and level
+ */
+export type TeeMode = 'plain' | 'pretty';
+
+const RESET = '\u001b[0m';
+
+/**
+ * Level label colors for pretty mode.
+ */
+const LEVEL_COLORS: Record<LogLevel, string> = {
+    [LogLevel.DEBUG]: '\u001b[90m',
+    [LogLevel.INFO]: '\u001b[32m',
+    [LogLevel.WARN]: '\u001b[33m',
+    [LogLevel.ERROR]: '\u001b[31m',
+};
+
+/**
+ * Writes echoed lines to stdout (stderr for lines captured from stderr).
+ */
+export class TeeWriter {
+    readonly mode: TeeMode;
+    private readonly colors: boolean;
+    private nameWidth = 0;
+    private closed = false;
+
+    constructor(mode: TeeMode) {
+        this.mode = mode;
+        this.colors = Boolean(process.stdout.isTTY) && !('NO_COLOR' in process.env);
+
+        // Stop echoing if the reader goes away (e.g. `| head`)
+        process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+            if (error.code === 'EPIPE') {
+                this.closed = true;
+            }
+        });
+    }
+
+    /**
+     * Echo a line as received (plain mode).
+     */
+    writeLine(line: string, stream?: LogStream): void {
+        this.write(`${line}\n`, stream);
+    }
+
+    /**
+     * Echo a parsed event with a source and level prefix (pretty mode).
+     * Continuation lines of multi-line events are indented under the first.
+     */
+    writeEvent(source: string, color: string | undefined, parsed: ParsedLog, stream?: LogStream): void {
+        this.nameWidth = Math.max(this.nameWidth, source.length);
+
+        const name = source.padEnd(this.nameWidth);
+        const level = parsed.level.padEnd(5);
+        const prefix = this.colors
+            ? `${hexToAnsi(color)}${name}${RESET} | ${LEVEL_COLORS[parsed.level]}${level}${RESET} `
+            : `${name} | ${level} `;
+        const indent = `${' '.repeat(this.nameWidth)} | ${' '.repeat(6)}`;
+
+        const content = this.colors
+            ? parsed.styledContent ?? parsed.content
+            : stripAnsi(parsed.content);
+        const lines = content.split('\n');
+        const text = lines.map((line, i) => (i === 0 ? prefix : indent) + line).join('\n');
+        this.write(`${text}${this.colors && parsed.styledContent ? RESET : ''}\n`, stream);
+    }
+
+    /**
+     * Write to the terminal stream matching the captured stream.
+     */
+    private write(text: string, stream?: LogStream): void {
+        if (this.closed) return;
+        (stream === 'stderr' ? process.stderr : process.stdout).write(text);
+    }
+}
+
+/**
+ * Convert a `#rrggbb` color to a truecolor escape sequence.
+ * Other color values (names) are left uncolored.
+ */
+function hexToAnsi(color: string | undefined): string {
+    const match = color?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (!match) return '';
+    const [r, g, b] = [match[1], match[2], match[3]].map((hex) => parseInt(hex ?? '0', 16));
+    return `\u001b[38;2;${r};${g};${b}m`;
+}
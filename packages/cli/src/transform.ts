@@ -0,0 +1,186 @@
+/**
+ * @fileoverview User-supplied transform scripts for Chronoscribe CLI
+ *
+ * A transform is a module whose default export (or `transform` export) is
+ * called with every line after it is parsed. It can rewrite the entry, add
+ * fields, change the level or drop the line, so in-house formats can be
+ * handled without forking the parser.
+ */
+
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { normalizeLevel, type LogFields } from '@chronoscribe/shared';
+import type { ParsedLog } from './log-parser.js';
+import { logger } from './logger.js';
+
+/**
+ * Changes returned by a transform. Omitted properties are left as parsed;
+ * `fields` are merged into the parsed fields.
+ */
+export interface TransformResult {
+    /** New level, e.g. "warn" or "fatal" (normalized like parsed levels) */
+    level?: string;
+    /** New content */
+    content?: string;
+    /** Fields to add or overwrite */
+    fields?: LogFields;
+    /** Timestamp found in the line */
+    originalTimestamp?: string;
+}
+
+/**
+ * Context passed to a transform along with the line.
+ */
+export interface TransformContext {
+    /** Name of the source the line belongs to */
+    source: string;
+}
+
+/**
+ * A transform function. Returns changes to apply, `null` to drop the line,
+ * or nothing to keep it as parsed.
+ *
+ * @param line - The line as read, without color codes
+ * @param parsed - Result of the built-in parser
+ */
+export type LineTransform = (
+    line: string,
+    parsed: ParsedLog,
+    context: TransformContext
+) => TransformResult | null | undefined | void;
+
+/**
+ * Extensions that need a TypeScript loader on Node versions without
+ * built-in type stripping.
+ */
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+/**
+ * Load a transform module.
+ *
+ * TypeScript files are imported directly where Node supports it, and
+ * otherwise through `tsx` if it is installed next to the script or the CLI.
+ *
+ * @param modulePath - Path to the module, relative to the working directory
+ */
+export async function loadTransform(modulePath: string): Promise<LineTransform> {
+    const resolved = path.resolve(modulePath);
+    const url = pathToFileURL(resolved).href;
+
+    let exports: Record<string, unknown>;
+    try {
+        exports = await import(url);
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ERR_MODULE_NOT_FOUND') {
+            throw new Error(`Transform not found: ${resolved}`);
+        }
+        if (code !== 'ERR_UNKNOWN_FILE_EXTENSION' || !TYPESCRIPT_EXTENSIONS.includes(path.extname(resolved))) {
+            throw error;
+        }
+        exports = await importWithTsx(resolved, url);
+    }
+
+    // CommonJS modules (including TypeScript compiled as CommonJS) are
+    // wrapped in a default export
+    const wrapped = exports['default'] as Record<string, unknown> | undefined;
+    const candidates = [
+        exports['default'],
+        exports['transform'],
+        wrapped?.['default'],
+        wrapped?.['transform'],
+    ];
+    const transform = candidates.find((candidate) => typeof candidate === 'function');
+    if (!transform) {
+        throw new Error(`Transform ${resolved} must export a function (as default or "transform")`);
+    }
+    return transform as LineTransform;
+}
+
+/**
+ * Import a TypeScript module through tsx's loader API.
+ */
+async function importWithTsx(resolved: string, url: string): Promise<Record<string, unknown>> {
+    let apiPath: string | null = null;
+    for (const base of [resolved, import.meta.url]) {
+        try {
+            apiPath = createRequire(base).resolve('tsx/esm/api');
+            break;
+        } catch {
+            // Not installed there, try the next location
+        }
+    }
+    if (!apiPath) {
+        throw new Error(
+            `Cannot load TypeScript transform ${resolved}: install tsx in your project or use Node 22.18+`
+        );
+    }
+
+    const { tsImport } = await import(pathToFileURL(apiPath).href) as {
+        tsImport: (specifier: string, parentURL: string) => Promise<Record<string, unknown>>;
+    };
+    return tsImport(url, url);
+}
+
+/**
+ * Applies a transform to parsed lines. A transform that throws leaves the
+ * line as parsed; failures are counted and the first one is reported.
+ */
+export class Transformer {
+    private readonly transform: LineTransform;
+    private failures = 0;
+
+    constructor(transform: LineTransform) {
+        this.transform = transform;
+    }
+
+    /**
+     * Number of lines the transform threw on.
+     */
+    get failureCount(): number {
+        return this.failures;
+    }
+
+    /**
+     * Transform a parsed line. Returns null if the line should be dropped.
+     */
+    apply(line: string, parsed: ParsedLog, context: TransformContext): ParsedLog | null {
+        let result: ReturnType<LineTransform>;
+        try {
+            result = this.transform(line, { ...parsed }, context);
+        } catch (error) {
+            if (this.failures++ === 0) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                logger.error(`Transform failed on a line from ${context.source}: ${message}`);
+            }
+            return parsed;
+        }
+
+        if (result === null) return null;
+        if (result === undefined || typeof result !== 'object') return parsed;
+        if (typeof (result as { then?: unknown }).then === 'function') {
+            if (this.failures++ === 0) {
+                logger.error('Transform returned a promise; transforms must return their result directly');
+            }
+            return parsed;
+        }
+
+        const transformed: ParsedLog = { ...parsed };
+        if (typeof result.level === 'string') {
+            transformed.level = normalizeLevel(result.level);
+        }
+        if (typeof result.content === 'string' && result.content !== parsed.content) {
+            transformed.content = result.content;
+            // The styled version no longer matches the content
+            delete transformed.styledContent;
+        }
+        if (typeof result.originalTimestamp === 'string') {
+            transformed.originalTimestamp = result.originalTimestamp;
+        }
+        if (result.fields && typeof result.fields === 'object') {
+            transformed.fields = { ...parsed.fields, ...result.fields };
+        }
+        return transformed;
+    }
+}
@@ -2,20 +2,29 @@
  * @fileoverview WebSocket client for Chronoscribe CLI
  * 
  * Manages the WebSocket connection to the Chronoscribe server with
- * automatic reconnection and message buffering.
+ * automatic reconnection and message buffering (in memory, or spooled
+ * to disk so long outages and CLI restarts don't lose lines). While
+ * connected, lines are coalesced into LOG_BATCH messages.
  */
 
 import WebSocket from 'ws';
 import {
+    LogLevel,
     MessageType,
     createSourceRegisterMessage,
     createLogMessage,
+    createLogBatchMessage,
     parseMessage,
     serializeMessage,
     type WelcomeMessage,
+    type LogMessageMetadata,
+    type LogMessage,
+    type LogBatchMessage,
     isMessageType,
 } from '@chronoscribe/shared';
 import type { ParsedLog } from './log-parser.js';
+import { logger } from './logger.js';
+import { DiskSpool, type SpoolOptions } from './spool.js';
 
 /**
  * Configuration for the WebSocket client.
@@ -33,8 +42,31 @@ export interface WebSocketClientConfig {
         maxAttempts: number;
         baseDelayMs: number;
     };
+    /** Keep reconnecting instead of exiting after maxAttempts */
+    retryForever?: boolean | undefined;
+    /** Spool unsent messages to disk (in-memory buffer when unset) */
+    spool?: SpoolOptions | undefined;
+    /** Line coalescing settings */
+    batch?: BatchOptions | undefined;
 }
 
+/**
+ * How lines are coalesced into batch messages while connected.
+ */
+export interface BatchOptions {
+    /** Send as soon as this many lines are pending */
+    maxLines: number;
+    /** Send as soon as the pending lines reach about this many bytes */
+    maxBytes: number;
+    /** Send pending lines at most this long after the first one arrived */
+    windowMs: number;
+}
+
+/**
+ * Connection settings shared by every client of a CLI run.
+ */
+export type ConnectionConfig = Omit<WebSocketClientConfig, 'sourceName' | 'color'>;
+
 /**
  * Default reconnection settings.
  */
@@ -44,6 +76,54 @@ const DEFAULT_RECONNECT = {
     baseDelayMs: 1000,
 };
 
+/**
+ * Default batching: small enough windows that interactive output still
+ * feels live, large enough batches that noisy builds need few frames.
+ */
+const DEFAULT_BATCH: BatchOptions = {
+    maxLines: 500,
+    maxBytes: 256 * 1024,
+    windowMs: 20,
+};
+
+/**
+ * Upper bound for the reconnection backoff.
+ */
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * Messages kept in memory while disconnected when there is no spool.
+ */
+const MAX_BUFFERED_MESSAGES = 1000;
+
+/**
+ * Current time in epoch milliseconds with sub-millisecond precision.
+ */
+export function captureTime(): number {
+    return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Message reporting lines lost while the server was unreachable.
+ */
+function describeDropped(count: number): string {
+    return `Dropped ${count} lines while the Chronoscribe server was unreachable`;
+}
+
+/**
+ * Open the disk spool, or fall back to the in-memory buffer if another
+ * CLI is using it.
+ */
+function openSpool(options: SpoolOptions, serverUrl: string, sourceName: string): DiskSpool | null {
+    try {
+        return new DiskSpool(options, serverUrl, sourceName);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`${message}; buffering unsent lines in memory instead.`);
+        return null;
+    }
+}
+
 /**
  * WebSocket client for sending logs to the server.
  */
@@ -60,14 +140,35 @@ export class WebSocketClient {
     private isConnected = false;
     private reconnectAttempts = 0;
     private messageBuffer: string[] = [];
+    /** Messages dropped because the buffer or spool was full */
+    private droppedMessages = 0;
+    private spool: DiskSpool | null;
+    private readonly batchConfig: BatchOptions;
+    /** Lines waiting to be sent as one batch */
+    private pending: LogMessage['payload'][] = [];
+    private pendingBytes = 0;
+    private batchTimer: NodeJS.Timeout | null = null;
+    /** Sequence number of the last log sent (or buffered) */
+    private sequence = 0;
     private assignedColor?: string;
     private shouldReconnect = true;
+    private readonly config: WebSocketClientConfig;
 
     constructor(config: WebSocketClientConfig) {
+        this.config = config;
         this.serverUrl = config.serverUrl;
         this.sourceName = config.sourceName;
         this.color = config.color;
         this.reconnectConfig = config.reconnect ?? DEFAULT_RECONNECT;
+        this.batchConfig = config.batch ?? DEFAULT_BATCH;
+        this.spool = config.spool ? openSpool(config.spool, config.serverUrl, config.sourceName) : null;
+    }
+
+    /**
+     * Create a client for another source with the same connection settings.
+     */
+    withSource(sourceName: string, color?: string): WebSocketClient {
+        return new WebSocketClient({ ...this.config, sourceName, color });
     }
 
     /**
@@ -79,7 +180,7 @@ export class WebSocketClient {
                 this.ws = new WebSocket(this.serverUrl);
 
                 this.ws.on('open', () => {
-                    console.log(`[Chronoscribe] Connected to ${this.serverUrl}`);
+                    logger.info(`Connected to ${this.serverUrl}`);
                     this.reconnectAttempts = 0;
 
                     // Register as a source
@@ -97,7 +198,7 @@ export class WebSocketClient {
                     if (isMessageType<WelcomeMessage>(message, MessageType.WELCOME)) {
                         this.isConnected = true;
                         this.assignedColor = message.payload.color;
-                        console.log(`[Chronoscribe] Registered as "${this.sourceName}" (color: ${this.assignedColor})`);
+                        logger.info(`Registered as "${this.sourceName}" (color: ${this.assignedColor})`);
 
                         // Send any buffered messages
                         this.flushBuffer();
@@ -105,12 +206,14 @@ export class WebSocketClient {
                     }
 
                     if (message.type === MessageType.ERROR) {
-                        console.error(`[Chronoscribe] Server error: ${message.payload.message}`);
+                        logger.error(`Server error: ${message.payload.message}`);
                     }
                 });
 
                 this.ws.on('close', () => {
                     this.isConnected = false;
+                    // Move unsent lines to the buffer/spool ahead of newer ones
+                    this.flushPending();
                     if (this.shouldReconnect && this.reconnectConfig.enabled) {
                         this.attemptReconnect();
                     }
@@ -121,7 +224,7 @@ export class WebSocketClient {
                         // Connection failed
                         reject(error);
                     } else {
-                        console.error(`[Chronoscribe] WebSocket error: ${error.message}`);
+                        logger.error(`WebSocket error: ${error.message}`);
                     }
                 });
 
@@ -135,15 +238,24 @@ export class WebSocketClient {
      * Attempt to reconnect with exponential backoff.
      */
     private attemptReconnect(): void {
-        if (this.reconnectAttempts >= this.reconnectConfig.maxAttempts) {
-            console.error('[Chronoscribe] Max reconnection attempts reached. Exiting.');
+        if (!this.config.retryForever && this.reconnectAttempts >= this.reconnectConfig.maxAttempts) {
+            logger.error('Max reconnection attempts reached. Exiting.');
+            if (this.spool?.hasPending) {
+                logger.error(`Unsent lines are kept in ${this.spool.filePath} and will be sent on the next run.`);
+            }
             process.exit(1);
         }
 
-        const delay = this.reconnectConfig.baseDelayMs * Math.pow(2, this.reconnectAttempts);
+        const delay = Math.min(
+            this.reconnectConfig.baseDelayMs * Math.pow(2, this.reconnectAttempts),
+            MAX_RECONNECT_DELAY_MS
+        );
         this.reconnectAttempts++;
 
-        console.log(`[Chronoscribe] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.reconnectConfig.maxAttempts})...`);
+        const attempt = this.config.retryForever
+            ? `attempt ${this.reconnectAttempts}`
+            : `attempt ${this.reconnectAttempts}/${this.reconnectConfig.maxAttempts}`;
+        logger.info(`Reconnecting in ${delay}ms (${attempt})...`);
 
         setTimeout(() => {
             this.connect().catch(() => {
@@ -153,44 +265,138 @@ export class WebSocketClient {
     }
 
     /**
-     * Send a log to the server.
+     * Send a log to the server. Each log gets the next sequence number, and
+     * the current time as capture time unless the metadata has one.
      */
-    sendLog(parsedLog: ParsedLog, rawLine: string): void {
+    sendLog(parsedLog: ParsedLog, rawLine: string, metadata?: LogMessageMetadata): void {
         const message = createLogMessage(
             parsedLog.content,
             rawLine,
             parsedLog.level,
-            parsedLog.originalTimestamp
+            parsedLog.originalTimestamp,
+            {
+                ...metadata,
+                fields: parsedLog.fields,
+                styledContent: parsedLog.styledContent,
+                capturedAt: metadata?.capturedAt ?? captureTime(),
+                sequence: ++this.sequence,
+            }
         );
-        const serialized = serializeMessage(message);
 
         if (this.isConnected && this.ws?.readyState === WebSocket.OPEN) {
-            this.ws.send(serialized);
+            this.pending.push(message.payload);
+            this.pendingBytes += message.payload.raw.length + message.payload.content.length;
+            if (
+                this.pending.length >= this.batchConfig.maxLines ||
+                this.pendingBytes >= this.batchConfig.maxBytes
+            ) {
+                this.flushPending();
+            } else {
+                this.batchTimer ??= setTimeout(() => this.flushPending(), this.batchConfig.windowMs);
+            }
+        } else {
+            this.flushPending();
+            this.enqueue(serializeMessage(message));
+        }
+    }
+
+    /**
+     * Send pending lines: a single line as LOG, several as LOG_BATCH.
+     * If the connection is gone, they are buffered one message per line.
+     */
+    private flushPending(): void {
+        if (this.batchTimer) {
+            clearTimeout(this.batchTimer);
+            this.batchTimer = null;
+        }
+        if (this.pending.length === 0) return;
+
+        const logs = this.pending;
+        this.pending = [];
+        this.pendingBytes = 0;
+
+        if (this.isConnected && this.ws?.readyState === WebSocket.OPEN) {
+            const message: LogMessage | LogBatchMessage = logs.length === 1 && logs[0]
+                ? { type: MessageType.LOG, payload: logs[0] }
+                : createLogBatchMessage(logs);
+            this.ws.send(serializeMessage(message));
+        } else {
+            for (const payload of logs) {
+                this.enqueue(serializeMessage({ type: MessageType.LOG, payload }));
+            }
+        }
+    }
+
+    /**
+     * Keep a message for when the server is reachable again.
+     */
+    private enqueue(serialized: string): void {
+        if (this.spool) {
+            if (!this.spool.append(serialized) && this.droppedMessages++ === 0) {
+                logger.error(`Spool ${this.spool.filePath} is full; dropping new lines until the server is back.`);
+            }
         } else {
             // Buffer the message for later
             this.messageBuffer.push(serialized);
             // Limit buffer size to prevent memory issues
-            if (this.messageBuffer.length > 1000) {
+            if (this.messageBuffer.length > MAX_BUFFERED_MESSAGES) {
                 this.messageBuffer.shift();
+                this.droppedMessages++;
             }
         }
     }
 
     /**
-     * Flush the message buffer.
+     * Send spooled and buffered messages in order, then report anything
+     * that had to be dropped while disconnected.
      */
     private flushBuffer(): void {
-        if (this.messageBuffer.length === 0) return;
+        const send = (message: string): boolean => {
+            if (this.ws?.readyState !== WebSocket.OPEN) return false;
+            this.ws.send(message);
+            return true;
+        };
 
-        console.log(`[Chronoscribe] Sending ${this.messageBuffer.length} buffered messages...`);
+        if (this.spool?.hasPending) {
+            const sent = this.spool.drain(send);
+            logger.info(`Sent ${sent} spooled messages`);
+        }
 
-        for (const message of this.messageBuffer) {
-            if (this.ws?.readyState === WebSocket.OPEN) {
-                this.ws.send(message);
+        if (this.messageBuffer.length > 0) {
+            logger.info(`Sending ${this.messageBuffer.length} buffered messages...`);
+            // Keep what could not be sent for the next connection
+            let sent = 0;
+            while (sent < this.messageBuffer.length && send(this.messageBuffer[sent] ?? '')) {
+                sent++;
             }
+            this.messageBuffer = this.messageBuffer.slice(sent);
         }
 
-        this.messageBuffer = [];
+        const dropped = this.droppedMessages;
+        if (dropped > 0) {
+            const content = describeDropped(dropped);
+            const notice = createLogMessage(content, content, LogLevel.WARN, undefined, {
+                capturedAt: captureTime(),
+            });
+            if (send(serializeMessage(notice))) {
+                this.droppedMessages = 0;
+                logger.error(content);
+            }
+        }
+    }
+
+    /**
+     * Source name this client registers as.
+     */
+    get name(): string {
+        return this.sourceName;
+    }
+
+    /**
+     * Color assigned by the server, or the preferred color until registered.
+     */
+    get sourceColor(): string | undefined {
+        return this.assignedColor ?? this.color;
     }
 
     /**
@@ -198,6 +404,16 @@ export class WebSocketClient {
      */
     close(): void {
         this.shouldReconnect = false;
+        this.flushPending();
+        if (this.spool) {
+            this.spool.close();
+            if (this.spool.hasPending) {
+                logger.info(`Unsent lines are kept in ${this.spool.filePath} and will be sent on the next run.`);
+            }
+        }
+        if (this.droppedMessages > 0) {
+            logger.error(describeDropped(this.droppedMessages));
+        }
         if (this.ws) {
             this.ws.close();
             this.ws = null;
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Tests for ANSI escape handling in the CLI
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { hasAnsi, stripAnsi } from '../src/ansi.js';
+import { FormatParser } from '../src/format-presets.js';
+
+describe('stripAnsi', () => {
+    it('removes colors, cursor movement, OSC hyperlinks and other escapes', () => {
+        expect(stripAnsi('\u001b[1;31mERROR\u001b[0m done')).toBe('ERROR done');
+        expect(stripAnsi('\u001b[38;2;255;0;0mred\u001b[39m \u001b[2K\u001b[1Gline')).toBe('red line');
+        expect(stripAnsi('see \u001b]8;;https://example.com\u0007docs\u001b]8;;\u001b\\ now')).toBe('see docs now');
+        expect(stripAnsi('\u001bMup')).toBe('up');
+    });
+
+    it('leaves plain text alone', () => {
+        expect(hasAnsi('plain [1m] text')).toBe(false);
+        expect(stripAnsi('plain [1m] text')).toBe('plain [1m] text');
+    });
+});
+
+describe('FormatParser styled content', () => {
+    it('keeps the colored line when the content is the whole line', () => {
+        const parsed = new FormatParser('text').parse('  \u001b[33mWARN\u001b[0m slow query  ');
+
+        expect(parsed).toEqual({
+            level: LogLevel.WARN,
+            content: 'WARN slow query',
+            styledContent: '\u001b[33mWARN\u001b[0m slow query',
+        });
+    });
+
+    it('strips escapes inside a structured message', () => {
+        const parsed = new FormatParser('json').parse('{"level":"error","msg":"\\u001b[31mfailed\\u001b[0m"}');
+
+        expect(parsed.level).toBe(LogLevel.ERROR);
+        expect(parsed.content).toBe('failed');
+        expect(parsed.styledContent).toBe('\u001b[31mfailed\u001b[0m');
+    });
+
+    it('drops the styled line when parsing changed the content', () => {
+        const parsed = new FormatParser('logfmt').parse('\u001b[2mlevel=info\u001b[0m msg="started"');
+
+        expect(parsed.content).toBe('started');
+        expect(parsed.styledContent).toBeUndefined();
+    });
+
+    it('sets no styled content for plain lines', () => {
+        expect(new FormatParser('text').parse('plain').styledContent).toBeUndefined();
+    });
+});
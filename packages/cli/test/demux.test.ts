@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Tests for splitting prefixed aggregate streams
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEMUX_PRESETS, demuxLine, resolveDemuxPattern } from '../src/demux.js';
+
+describe('resolveDemuxPattern', () => {
+    it('resolves preset names', () => {
+        expect(resolveDemuxPattern('compose')).toBe(DEMUX_PRESETS['compose']);
+    });
+
+    it('accepts a custom pattern with a source group', () => {
+        const pattern = resolveDemuxPattern('^<(?<source>\\w+)> ');
+        expect(demuxLine('<db> ready', pattern)).toEqual({ source: 'db', content: 'ready' });
+    });
+
+    it('rejects patterns without a source group', () => {
+        expect(() => resolveDemuxPattern('^(\\w+): ')).toThrow(/named group "source"/);
+    });
+
+    it('rejects invalid patterns', () => {
+        expect(() => resolveDemuxPattern('(?<source>[')).toThrow(/Invalid demux pattern/);
+    });
+});
+
+describe('demuxLine', () => {
+    it('splits docker compose lines', () => {
+        expect(demuxLine('api-1  | listening on 3000', resolveDemuxPattern('compose'))).toEqual({
+            source: 'api-1',
+            content: 'listening on 3000',
+        });
+    });
+
+    it('splits turborepo lines', () => {
+        expect(demuxLine('@acme/ui:build:css: done', resolveDemuxPattern('turbo'))).toEqual({
+            source: '@acme/ui',
+            content: 'done',
+        });
+    });
+
+    it('splits kubectl --prefix lines', () => {
+        expect(demuxLine('[pod/api-7d9f/api] GET /health', resolveDemuxPattern('kubectl'))).toEqual({
+            source: 'api-7d9f/api',
+            content: 'GET /health',
+        });
+    });
+
+    it('returns null for lines without a prefix', () => {
+        expect(demuxLine('plain line', resolveDemuxPattern('compose'))).toBeNull();
+    });
+
+    it('uses the rest of the line when there is no content group', () => {
+        expect(demuxLine('db: up', /^(?<source>\w+): /)).toEqual({ source: 'db', content: 'up' });
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Tests for following files and globs
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileTailer, expandPatterns, type FileTailerOptions } from '../src/file-tailer.js';
+import { setQuiet } from '../src/logger.js';
+
+const POLL_MS = 100;
+
+let dir: string;
+let tailer: FileTailer | undefined;
+let lines: string[];
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-tail-'));
+    lines = [];
+    setQuiet(true);
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+});
+
+afterEach(() => {
+    tailer?.stop();
+    tailer = undefined;
+    vi.useRealTimers();
+    setQuiet(false);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function file(name: string): string {
+    return path.join(dir, name);
+}
+
+function follow(options: Partial<FileTailerOptions> & Pick<FileTailerOptions, 'patterns'>): FileTailer {
+    tailer = new FileTailer({ pollIntervalMs: POLL_MS, ...options }, (line) => lines.push(line));
+    tailer.start();
+    return tailer;
+}
+
+/**
+ * Let the tailer poll `count` times.
+ */
+function poll(count = 1): void {
+    vi.advanceTimersByTime(POLL_MS * count);
+}
+
+describe('FileTailer', () => {
+    it('starts at the end of existing files, or at their last lines', () => {
+        fs.writeFileSync(file('a.log'), 'one\ntwo\nthree\n');
+        fs.writeFileSync(file('b.log'), 'four\nfive\n');
+        follow({ patterns: [file('a.log')] });
+        fs.appendFileSync(file('a.log'), 'new\n');
+        poll();
+        expect(lines).toEqual(['new']);
+
+        tailer?.stop();
+        lines = [];
+        follow({ patterns: [file('b.log')], lines: 1 });
+        expect(lines).toEqual(['five']);
+    });
+
+    it('keeps an incomplete last line until it is finished', () => {
+        fs.writeFileSync(file('app.log'), '');
+        follow({ patterns: [file('app.log')] });
+
+        fs.appendFileSync(file('app.log'), 'par');
+        poll();
+        fs.appendFileSync(file('app.log'), 'tial\r\nnext\n');
+        poll();
+
+        expect(lines).toEqual(['partial', 'next']);
+    });
+
+    it('drains a rotated file to its end before following the new one', () => {
+        fs.writeFileSync(file('app.log'), '');
+        follow({ patterns: [file('app.log')] });
+
+        // More than one poll reads from a file, written just before rotation
+        const line = 'x'.repeat(99);
+        const count = 15_000;
+        fs.appendFileSync(file('app.log'), `${line}\n`.repeat(count) + 'last old line');
+        fs.renameSync(file('app.log'), file('app.log.1'));
+        fs.writeFileSync(file('app.log'), 'first new line\n');
+        poll();
+
+        expect(lines).toHaveLength(count + 2);
+        expect(lines.slice(-2)).toEqual(['last old line', 'first new line']);
+    });
+
+    it('reads a truncated file from the start', () => {
+        fs.writeFileSync(file('app.log'), '');
+        follow({ patterns: [file('app.log')] });
+        fs.appendFileSync(file('app.log'), 'before truncation\n');
+        poll();
+
+        fs.writeFileSync(file('app.log'), 'after\n');
+        poll();
+
+        expect(lines).toEqual(['before truncation', 'after']);
+    });
+
+    it('picks up new files matching a glob from the beginning', () => {
+        fs.writeFileSync(file('a.log'), 'old\n');
+        const followed = follow({ patterns: [path.join(dir, '*.log')] });
+
+        fs.writeFileSync(file('b.log'), 'from the start\n');
+        fs.writeFileSync(file('b.txt'), 'not matched\n');
+        poll(8);
+
+        expect(followed.followedFiles.sort()).toEqual([file('a.log'), file('b.log')]);
+        expect(lines).toEqual(['from the start']);
+    });
+});
+
+describe('expandPatterns', () => {
+    const names = (patterns: string[]) => expandPatterns(patterns).map((name) => path.relative(dir, name)).sort();
+
+    beforeEach(() => {
+        for (const name of ['a.log', 'b.log', 'c.txt', 'api/out.log', 'api/deep/err.log', 'node_modules/x.log', '.cache/y.log']) {
+            fs.mkdirSync(path.dirname(file(name)), { recursive: true });
+            fs.writeFileSync(file(name), '');
+        }
+    });
+
+    it('keeps plain paths whether or not they exist', () => {
+        expect(expandPatterns([file('missing.log')])).toEqual([file('missing.log')]);
+    });
+
+    it('expands *, ?, character classes and alternatives', () => {
+        expect(names([`${dir}/*.log`])).toEqual(['a.log', 'b.log']);
+        expect(names([`${dir}/?.txt`])).toEqual(['c.txt']);
+        expect(names([`${dir}/[a-b].log`])).toEqual(['a.log', 'b.log']);
+        expect(names([`${dir}/[!a].log`])).toEqual(['b.log']);
+        expect(names([`${dir}/*.{txt,log}`])).toEqual(['a.log', 'b.log', 'c.txt']);
+    });
+
+    it('walks ** into subdirectories, skipping node_modules and hidden ones', () => {
+        expect(names([`${dir}/**/*.log`])).toEqual(['a.log', 'api/deep/err.log', 'api/out.log', 'b.log']);
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Tests for the built-in line format presets
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { FORMAT_PRESETS, FormatParser, isFormatName } from '../src/format-presets.js';
+import { setQuiet } from '../src/logger.js';
+
+const ACCESS_LINE = '1.2.3.4 - ada [10/Oct/2000:13:55:36 -0700] "GET /api/users HTTP/1.1" 503 512 "-" "curl/8.0" 0.012';
+
+beforeAll(() => {
+    // Keep "Detected log format" out of the test output
+    setQuiet(true);
+});
+
+describe('access log presets', () => {
+    it('parse combined access lines with the request time', () => {
+        expect(FORMAT_PRESETS.nginx.parse(ACCESS_LINE)).toEqual({
+            level: LogLevel.ERROR,
+            content: 'GET /api/users 503 12ms',
+            originalTimestamp: '2000-10-10T20:55:36.000Z',
+            fields: {
+                client: '1.2.3.4',
+                status: 503,
+                method: 'GET',
+                path: '/api/users',
+                protocol: 'HTTP/1.1',
+                user: 'ada',
+                bytes: 512,
+                userAgent: 'curl/8.0',
+                latencyMs: 12,
+            },
+        });
+    });
+
+    it('map 4xx statuses to WARN', () => {
+        const line = '1.2.3.4 - - [10/Oct/2000:13:55:36 -0700] "GET /missing HTTP/1.1" 404 -';
+        expect(FORMAT_PRESETS.apache.parse(line)?.level).toBe(LogLevel.WARN);
+    });
+});
+
+describe('error log presets', () => {
+    it('parse nginx error lines with their context', () => {
+        const parsed = FORMAT_PRESETS.nginx.parse(
+            '2024/01/02 03:04:05 [error] 12#12: *3 open() failed, client: 1.2.3.4, request: "GET / HTTP/1.1"'
+        );
+        expect(parsed?.level).toBe(LogLevel.ERROR);
+        expect(parsed?.fields).toEqual({ pid: 12, connection: 3, client: '1.2.3.4', request: 'GET / HTTP/1.1' });
+    });
+
+    it('parse apache error lines and map trace levels to DEBUG', () => {
+        const parsed = FORMAT_PRESETS.apache.parse(
+            '[Tue Jan 02 03:04:05.123456 2024] [core:trace3] [pid 12:tid 34] [client 1.2.3.4:5] AH00124: loop'
+        );
+        expect(parsed?.level).toBe(LogLevel.DEBUG);
+        expect(parsed?.content).toBe('AH00124: loop');
+        expect(parsed?.fields).toEqual({ module: 'core', pid: 12, client: '1.2.3.4:5' });
+    });
+});
+
+describe('postgres preset', () => {
+    it('parses the default prefix and severity', () => {
+        expect(FORMAT_PRESETS.postgres.parse(
+            '2024-01-02 03:04:05.123 UTC [42] ERROR:  relation "x" does not exist'
+        )).toEqual({
+            level: LogLevel.ERROR,
+            content: 'relation "x" does not exist',
+            originalTimestamp: '2024-01-02T03:04:05.123Z',
+            fields: { severity: 'ERROR', pid: 42 },
+        });
+    });
+
+    it('parses follow-up lines without a prefix', () => {
+        expect(FORMAT_PRESETS.postgres.parse('STATEMENT:  select 1')?.level).toBe(LogLevel.INFO);
+    });
+});
+
+describe('redis preset', () => {
+    it('maps the role and verbosity marker', () => {
+        const parsed = FORMAT_PRESETS.redis.parse('1:M 02 Jan 2024 03:04:05.123 # WARNING overcommit_memory');
+        expect(parsed?.level).toBe(LogLevel.WARN);
+        expect(parsed?.fields).toEqual({ pid: 1, role: 'master' });
+    });
+});
+
+describe('journald preset', () => {
+    it('maps priority, timestamp and identifiers', () => {
+        const parsed = FORMAT_PRESETS.journald.parse(JSON.stringify({
+            MESSAGE: 'Started nginx',
+            PRIORITY: '3',
+            __REALTIME_TIMESTAMP: '1704164645000000',
+            _SYSTEMD_UNIT: 'nginx.service',
+            _PID: '77',
+            CUSTOM: 'kept',
+        }));
+        expect(parsed).toEqual({
+            level: LogLevel.ERROR,
+            content: 'Started nginx',
+            originalTimestamp: '2024-01-02T03:04:05.000Z',
+            fields: { unit: 'nginx.service', pid: 77, CUSTOM: 'kept' },
+        });
+    });
+
+    it('decodes byte array messages', () => {
+        const parsed = FORMAT_PRESETS.journald.parse('{"MESSAGE":[104,105]}');
+        expect(parsed?.content).toBe('hi');
+    });
+});
+
+describe('FormatParser', () => {
+    it('detects a preset after several matching lines', () => {
+        const parser = new FormatParser();
+        for (let i = 0; i < 3; i++) {
+            parser.parse(`1:M 02 Jan 2024 03:04:0${i}.000 * Ready`);
+        }
+        expect(parser.detectedPreset).toBe('redis');
+    });
+
+    it('keeps nginx and apache tied on access lines until sniffing ends', () => {
+        const parser = new FormatParser();
+        for (let i = 0; i < 19; i++) {
+            parser.parse(ACCESS_LINE);
+        }
+        expect(parser.detectedPreset).toBeNull();
+
+        parser.parse(ACCESS_LINE);
+        expect(parser.detectedPreset).toBe('nginx');
+    });
+
+    it('falls back to generic parsing for lines the preset does not match', () => {
+        const parser = new FormatParser('redis');
+        expect(parser.parse('{"level":"warn","msg":"from json"}')).toMatchObject({
+            level: LogLevel.WARN,
+            content: 'from json',
+        });
+    });
+
+    it('strips ANSI escapes and keeps the styled content', () => {
+        expect(new FormatParser('text').parse('\x1b[31mERROR boom\x1b[0m')).toMatchObject({
+            level: LogLevel.ERROR,
+            content: 'ERROR boom',
+            styledContent: '\x1b[31mERROR boom\x1b[0m',
+        });
+    });
+});
+
+describe('isFormatName', () => {
+    it('accepts generic formats and presets only', () => {
+        expect(isFormatName('logfmt')).toBe(true);
+        expect(isFormatName('journald')).toBe(true);
+        expect(isFormatName('xml')).toBe(false);
+    });
+});
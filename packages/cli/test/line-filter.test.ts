@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Tests for include/exclude and minimum level filtering
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { LineFilter, hasLineFilter, parseMinLevel } from '../src/line-filter.js';
+import type { ParsedLog } from '../src/log-parser.js';
+
+function parsed(level: LogLevel, content = 'line'): ParsedLog {
+    return { level, content };
+}
+
+describe('parseMinLevel', () => {
+    it('accepts level names in any case', () => {
+        expect(parseMinLevel('warn')).toBe(LogLevel.WARN);
+        expect(parseMinLevel('ERROR')).toBe(LogLevel.ERROR);
+    });
+
+    it('rejects unknown names', () => {
+        expect(parseMinLevel('loud')).toBeNull();
+    });
+});
+
+describe('hasLineFilter', () => {
+    it('is false when nothing is configured', () => {
+        expect(hasLineFilter({ include: [], exclude: [] })).toBe(false);
+        expect(hasLineFilter({ minLevel: LogLevel.INFO })).toBe(true);
+    });
+});
+
+describe('LineFilter', () => {
+    it('drops lines below the minimum level', () => {
+        const filter = new LineFilter({ minLevel: LogLevel.WARN });
+        expect(filter.accepts(parsed(LogLevel.INFO), 'info line')).toBe(false);
+        expect(filter.accepts(parsed(LogLevel.ERROR), 'error line')).toBe(true);
+    });
+
+    it('keeps only lines matching an include pattern', () => {
+        const filter = new LineFilter({ include: [/api/, /db/] });
+        expect(filter.accepts(parsed(LogLevel.INFO), 'db ready')).toBe(true);
+        expect(filter.accepts(parsed(LogLevel.INFO), 'cache ready')).toBe(false);
+    });
+
+    it('drops lines matching an exclude pattern', () => {
+        const filter = new LineFilter({ exclude: [/GET \/health/] });
+        expect(filter.accepts(parsed(LogLevel.INFO), 'GET /health 200')).toBe(false);
+        expect(filter.accepts(parsed(LogLevel.INFO), 'GET /users 200')).toBe(true);
+    });
+
+    it('matches patterns against the line without escape codes', () => {
+        const filter = new LineFilter({ exclude: [/^GET \/health/] });
+        expect(filter.accepts(parsed(LogLevel.INFO), '\x1b[32mGET\x1b[0m /health')).toBe(false);
+    });
+
+    it('summarizes and resets the dropped counts', () => {
+        const filter = new LineFilter({ exclude: [/health/], include: [/GET/], minLevel: LogLevel.INFO });
+        filter.accepts(parsed(LogLevel.INFO), 'GET /health');
+        filter.accepts(parsed(LogLevel.INFO), 'GET /health');
+        filter.accepts(parsed(LogLevel.INFO), 'POST /users');
+        filter.accepts(parsed(LogLevel.DEBUG), 'GET /users');
+
+        expect(filter.takeSummary()).toBe('4 lines (2 excluded, 1 not included, 1 below INFO)');
+        expect(filter.takeSummary()).toBeNull();
+    });
+});
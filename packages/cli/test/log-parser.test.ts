@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Tests for log line parsing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { normalizeStructuredTimestamp, parseLogLine } from '../src/log-parser.js';
+
+describe('parseLogLine text lines', () => {
+    it('detects the level and timestamp', () => {
+        expect(parseLogLine('2023-12-15T14:30:00.000Z ERROR database down  ')).toEqual({
+            level: LogLevel.ERROR,
+            content: '2023-12-15T14:30:00.000Z ERROR database down',
+            originalTimestamp: '2023-12-15T14:30:00.000Z',
+        });
+    });
+
+    it('defaults to INFO', () => {
+        expect(parseLogLine('server started').level).toBe(LogLevel.INFO);
+    });
+
+    it('uses a custom level pattern', () => {
+        const parsed = parseLogLine('<warning> disk almost full', { levelPattern: '^<(?<level>\\w+)>' });
+        expect(parsed.level).toBe(LogLevel.WARN);
+    });
+});
+
+describe('parseLogLine JSON lines', () => {
+    it('maps pino records', () => {
+        expect(parseLogLine('{"level":40,"time":1702650600000,"msg":"slow query","ms":230}')).toEqual({
+            level: LogLevel.WARN,
+            content: 'slow query',
+            originalTimestamp: '2023-12-15T14:30:00.000Z',
+            fields: { ms: 230 },
+        });
+    });
+
+    it('maps string levels and message keys', () => {
+        const parsed = parseLogLine('{"severity":"error","message":"failed","user":"ada"}');
+        expect(parsed.level).toBe(LogLevel.ERROR);
+        expect(parsed.content).toBe('failed');
+        expect(parsed.fields).toEqual({ user: 'ada' });
+    });
+
+    it('appends an error stack to the message and keeps the rest of the error', () => {
+        const parsed = parseLogLine(JSON.stringify({
+            msg: 'request failed',
+            err: { type: 'Error', stack: 'Error: boom\n    at main' },
+        }));
+        expect(parsed.level).toBe(LogLevel.ERROR);
+        expect(parsed.content).toBe('request failed\nError: boom\n    at main');
+        expect(parsed.fields).toEqual({ err: { type: 'Error' } });
+    });
+
+    it('uses the whole line when there is no message', () => {
+        expect(parseLogLine('{"level":"info","port":3000}').content).toBe('{"level":"info","port":3000}');
+    });
+
+    it('treats arrays and invalid JSON as text', () => {
+        expect(parseLogLine('[1,2]').fields).toBeUndefined();
+        expect(parseLogLine('{not json}').content).toBe('{not json}');
+    });
+
+    it('falls back to text with --format json', () => {
+        expect(parseLogLine('plain text', { format: 'json' }).content).toBe('plain text');
+    });
+
+    it('ignores JSON with --format text', () => {
+        expect(parseLogLine('{"msg":"hi"}', { format: 'text' }).content).toBe('{"msg":"hi"}');
+    });
+});
+
+describe('normalizeStructuredTimestamp', () => {
+    it('accepts epoch seconds and milliseconds', () => {
+        expect(normalizeStructuredTimestamp(1702650600)).toBe('2023-12-15T14:30:00.000Z');
+        expect(normalizeStructuredTimestamp(1702650600000)).toBe('2023-12-15T14:30:00.000Z');
+    });
+
+    it('keeps unparseable strings as they are', () => {
+        expect(normalizeStructuredTimestamp('yesterday')).toBe('yesterday');
+        expect(normalizeStructuredTimestamp(null)).toBeUndefined();
+    });
+});
+
+describe('parseLogLine logfmt lines', () => {
+    it('maps well-known keys and keeps the rest as fields', () => {
+        expect(parseLogLine('time=2023-12-15T14:30:00Z level=warn msg="slow query" dur=230ms cached')).toEqual({
+            level: LogLevel.WARN,
+            content: 'slow query',
+            originalTimestamp: '2023-12-15T14:30:00.000Z',
+            fields: { dur: '230ms', cached: true },
+        });
+    });
+
+    it('decodes escapes in quoted values', () => {
+        expect(parseLogLine('level=info msg="say \\"hi\\"\\nbye"').content).toBe('say "hi"\nbye');
+    });
+
+    it('does not mistake text with an "=" for logfmt', () => {
+        expect(parseLogLine('computed x=5').fields).toBeUndefined();
+        expect(parseLogLine('a=1 b=2').fields).toBeUndefined();
+    });
+
+    it('parses any pairs with --format logfmt', () => {
+        expect(parseLogLine('a=1 b=2', { format: 'logfmt' }).fields).toEqual({ a: '1', b: '2' });
+    });
+
+    it('falls back to text for malformed pairs', () => {
+        expect(parseLogLine('level=info msg="unterminated', { format: 'logfmt' }).fields).toBeUndefined();
+    });
+});
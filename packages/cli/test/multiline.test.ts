@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Tests for multi-line event grouping
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MultilineAggregator, type MultilineOptions } from '../src/multiline.js';
+
+/**
+ * Feed lines through an aggregator and collect the flushed events.
+ */
+function group(lines: string[], options: MultilineOptions = {}): string[][] {
+    const events: string[][] = [];
+    const aggregator = new MultilineAggregator(options, (event) => events.push(event));
+    for (const line of lines) {
+        aggregator.push(line);
+    }
+    aggregator.flush();
+    return events;
+}
+
+describe('MultilineAggregator', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('groups indented stack frames with the error line', () => {
+        expect(group([
+            'Error: boom',
+            '    at main (app.js:1:1)',
+            '    at run (app.js:2:1)',
+            'next line',
+        ])).toEqual([
+            ['Error: boom', '    at main (app.js:1:1)', '    at run (app.js:2:1)'],
+            ['next line'],
+        ]);
+    });
+
+    it('keeps Java "Caused by:" chains in one event', () => {
+        expect(group([
+            'java.lang.IllegalStateException: outer',
+            '\tat com.acme.Main.run(Main.java:10)',
+            'Caused by: java.io.IOException: inner',
+            '\tat com.acme.Io.read(Io.java:5)',
+        ])).toHaveLength(1);
+    });
+
+    it('ends a Python traceback at the exception line', () => {
+        expect(group([
+            'Traceback (most recent call last):',
+            '  File "app.py", line 1, in <module>',
+            'ValueError: bad input',
+            'INFO done',
+        ])).toEqual([
+            ['Traceback (most recent call last):', '  File "app.py", line 1, in <module>', 'ValueError: bad input'],
+            ['INFO done'],
+        ]);
+    });
+
+    it('sees indentation behind ANSI colors', () => {
+        expect(group(['\x1b[31mError: boom\x1b[0m', '\x1b[2m    at main\x1b[0m'])).toHaveLength(1);
+    });
+
+    it('treats lines not matching the start pattern as continuations', () => {
+        expect(group(['[1] start', 'more', '[2] next'], { startPattern: /^\[\d+\]/ })).toEqual([
+            ['[1] start', 'more'],
+            ['[2] next'],
+        ]);
+    });
+
+    it('flushes at the line limit', () => {
+        expect(group(['a', '  b', '  c'], { maxLines: 2 })).toEqual([['a', '  b'], ['  c']]);
+    });
+
+    it('flushes after the idle timeout', () => {
+        vi.useFakeTimers();
+        const events: string[][] = [];
+        const aggregator = new MultilineAggregator({ timeoutMs: 100 }, (event) => events.push(event));
+
+        aggregator.push('Error: boom');
+        aggregator.push('    at main');
+        vi.advanceTimersByTime(99);
+        expect(events).toHaveLength(0);
+
+        vi.advanceTimersByTime(1);
+        expect(events).toEqual([['Error: boom', '    at main']]);
+    });
+
+    it('passes raw lines and the first capture time', () => {
+        const calls: [string[], number][] = [];
+        const aggregator = new MultilineAggregator({}, (_lines, rawLines, capturedAt) => {
+            calls.push([rawLines, capturedAt]);
+        });
+        aggregator.push('boom', 'api | boom', 1000);
+        aggregator.push('  at x', 'api |   at x', 2000);
+        aggregator.flush();
+
+        expect(calls).toEqual([[['api | boom', 'api |   at x'], 1000]]);
+    });
+});
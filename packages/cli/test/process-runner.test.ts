@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Tests for the child process runner
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LogLevel, type LogStream } from '@chronoscribe/shared';
+import { createExitLog, runProcess, type RunProcessOptions } from '../src/process-runner.js';
+
+interface RunResult {
+    lines: Array<[LogStream, string]>;
+    code: number | null;
+    signal: NodeJS.Signals | null;
+    /** Lines received when the exit was reported */
+    linesAtExit: number;
+}
+
+/**
+ * Run a Node.js script as a child process and collect its output.
+ */
+function runNode(script: string, options: RunProcessOptions = {}): Promise<RunResult> {
+    return run([process.execPath, '-e', script], options);
+}
+
+function run(command: string[], options: RunProcessOptions = {}): Promise<RunResult> {
+    return new Promise((resolve) => {
+        const lines: RunResult['lines'] = [];
+        runProcess(
+            command,
+            (line, stream) => lines.push([stream, line]),
+            (code, signal) => resolve({ lines, code, signal, linesAtExit: lines.length }),
+            { inheritStdin: false, forwardSignals: false, ...options }
+        );
+    });
+}
+
+describe('runProcess', () => {
+    it('tags lines with their stream and skips blank lines', async () => {
+        const result = await runNode('console.log("out 1\\n\\nout 2"); console.error("err 1")');
+
+        expect(result.lines.filter(([stream]) => stream === 'stdout')).toEqual([['stdout', 'out 1'], ['stdout', 'out 2']]);
+        expect(result.lines.filter(([stream]) => stream === 'stderr')).toEqual([['stderr', 'err 1']]);
+        expect(result.code).toBe(0);
+    });
+
+    it('reports the exit only after both streams are drained', async () => {
+        // Write more than a pipe buffer holds, then exit right away
+        const result = await runNode(`
+            process.stdout.write("x".repeat(200000) + "\\nlast out\\n");
+            process.stderr.write("last err\\n");
+            process.exitCode = 3;
+        `);
+
+        expect(result.linesAtExit).toBe(result.lines.length);
+        expect(result.lines.map(([, line]) => line).slice(-2).sort()).toEqual(['last err', 'last out']);
+        expect(result.code).toBe(3);
+    });
+
+    it('runs a single argument through the shell', async () => {
+        const result = await run(['echo one | tr a-z A-Z']);
+        expect(result.lines).toEqual([['stdout', 'ONE']]);
+    });
+
+    it('passes extra environment variables', async () => {
+        const result = await runNode('console.log(process.env.CHRONOSCRIBE_TEST)', { env: { CHRONOSCRIBE_TEST: 'set' } });
+        expect(result.lines).toEqual([['stdout', 'set']]);
+    });
+
+    it('reports a command that cannot start as exit code 127', async () => {
+        const result = await run(['chronoscribe-no-such-command', '--flag']);
+
+        expect(result.code).toBe(127);
+        expect(result.lines).toHaveLength(1);
+        expect(result.lines[0]?.[1]).toMatch(/^Failed to start "chronoscribe-no-such-command --flag": .*ENOENT/);
+    });
+
+    it('forwards termination signals to the child while it runs', async () => {
+        const before = new Set(process.listeners('SIGTERM'));
+        const done = runNode('console.log("ready"); setInterval(() => {}, 1000)', { forwardSignals: true });
+        const handler = process.listeners('SIGTERM').find((listener) => !before.has(listener));
+        expect(handler).toBeDefined();
+
+        // Deliver the signal to the handler only; the test runner keeps running
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        (handler as () => void)();
+        const result = await done;
+
+        expect(result.signal).toBe('SIGTERM');
+        expect(process.listeners('SIGTERM')).not.toContain(handler);
+    });
+});
+
+describe('createExitLog', () => {
+    it('reports a clean exit as info', () => {
+        expect(createExitLog(0, null)).toEqual({ level: LogLevel.INFO, content: 'Process exited with code 0' });
+    });
+
+    it('reports failures and signals as errors', () => {
+        expect(createExitLog(2, null)).toEqual({ level: LogLevel.ERROR, content: 'Process exited with code 2' });
+        expect(createExitLog(null, 'SIGKILL')).toEqual({
+            level: LogLevel.ERROR,
+            content: 'Process terminated by signal SIGKILL',
+        });
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tests for project config loading
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findConfigFile, loadProjectConfig } from '../src/project-config.js';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-config-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Write a config file to the temporary directory.
+ */
+function writeConfig(name: string, content: unknown): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+    return file;
+}
+
+const loadJson = (config: unknown) => loadProjectConfig(writeConfig('chronoscribe.config.json', config));
+
+describe('findConfigFile', () => {
+    it('prefers the JSON config over a Procfile', () => {
+        writeConfig('Procfile', 'web: npm start');
+        expect(findConfigFile(undefined, dir)).toBe(path.join(dir, 'Procfile'));
+
+        writeConfig('chronoscribe.config.json', {});
+        expect(findConfigFile(undefined, dir)).toBe(path.join(dir, 'chronoscribe.config.json'));
+    });
+
+    it('resolves an explicit path and returns null when nothing is found', () => {
+        expect(findConfigFile('conf/services.json', dir)).toBe(path.join(dir, 'conf', 'services.json'));
+        expect(findConfigFile(undefined, dir)).toBeNull();
+    });
+});
+
+describe('loadProjectConfig', () => {
+    it('reads a Procfile with comments and blank lines', () => {
+        const services = loadProjectConfig(writeConfig('Procfile', '# services\n\nweb: npm start\r\nworker.1 : node worker.js --queue a\n'));
+
+        expect(services.map((service) => [service.name, service.command, service.cwd])).toEqual([
+            ['web', ['npm start'], dir],
+            ['worker.1', ['node worker.js --queue a'], dir],
+        ]);
+    });
+
+    it('rejects invalid Procfile lines', () => {
+        expect(() => loadProjectConfig(writeConfig('Procfile', 'web npm start'))).toThrow('Invalid Procfile line: web npm start');
+    });
+
+    it('fills in defaults for JSON services', () => {
+        const [service] = loadJson({ services: { api: { command: ['node', 'server.js'], cwd: 'api' } } });
+
+        expect(service).toEqual({
+            name: 'api',
+            command: ['node', 'server.js'],
+            cwd: path.join(dir, 'api'),
+            restart: 'never',
+            maxRestarts: 5,
+            restartDelayMs: 1000,
+            autostart: true,
+        });
+    });
+
+    it.each([
+        ['{ nope', /^Invalid JSON in .*chronoscribe\.config\.json: /],
+        [{ services: 5 }, /must contain a "services" object$/],
+        [{ services: {} }, /^No services defined in /],
+        [{ services: { api: {} } }, 'Service "api" needs a "command" string or array'],
+        [{ services: { api: { command: [] } } }, 'Service "api" needs a "command" string or array'],
+        [{ services: { api: { command: 'x', restart: 'sometimes' } } }, 'Service "api" has invalid restart policy "sometimes" (expected never, on-failure, always)'],
+    ])('rejects %j', (config, error) => {
+        expect(() => loadJson(config)).toThrow(error);
+    });
+});
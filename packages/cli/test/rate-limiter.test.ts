@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Tests for per-source rate limiting
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { RateLimiter, isRateLimitMode } from '../src/rate-limiter.js';
+import type { ParsedLog } from '../src/log-parser.js';
+
+function line(content: string, level = LogLevel.INFO): ParsedLog {
+    return { level, content };
+}
+
+/**
+ * Offer lines to a limiter and count how many were accepted.
+ */
+function acceptedCount(limiter: RateLimiter, lines: ParsedLog[]): number {
+    return lines.filter((parsed) => limiter.accept(parsed)).length;
+}
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('allows a burst of one second and then drops', () => {
+        const limiter = new RateLimiter({ maxRate: 5 });
+        const lines = Array.from({ length: 8 }, (_, i) => line(`line ${i}`));
+
+        expect(acceptedCount(limiter, lines)).toBe(5);
+        expect(limiter.takeNotices()).toEqual([{
+            level: LogLevel.WARN,
+            content: '3 lines suppressed (rate limit 5/s)',
+            fields: { suppressed: 3 },
+        }]);
+        expect(limiter.takeNotices()).toEqual([]);
+    });
+
+    it('refills over time', () => {
+        const limiter = new RateLimiter({ maxRate: 2 });
+        acceptedCount(limiter, [line('a'), line('b'), line('c')]);
+
+        vi.advanceTimersByTime(500);
+        expect(limiter.accept(line('d'))).toBe(true);
+        expect(limiter.accept(line('e'))).toBe(false);
+    });
+
+    it('sends one in ten lines beyond the rate in sample mode', () => {
+        const limiter = new RateLimiter({ maxRate: 1, mode: 'sample' });
+        const lines = Array.from({ length: 21 }, (_, i) => line(`line ${i}`));
+
+        expect(acceptedCount(limiter, lines)).toBe(3);
+        expect(limiter.takeNotices()[0]?.fields).toEqual({ suppressed: 18 });
+    });
+
+    it('counts repeats of the last sent line in collapse mode', () => {
+        const limiter = new RateLimiter({ maxRate: 1, mode: 'collapse' });
+        const boom = line('boom', LogLevel.ERROR);
+
+        expect(acceptedCount(limiter, [boom, boom, boom, boom])).toBe(1);
+        expect(limiter.endsRun(boom)).toBe(false);
+        expect(limiter.endsRun(line('other'))).toBe(true);
+
+        expect(limiter.takeNotices()).toEqual([{
+            level: LogLevel.ERROR,
+            content: 'Previous line repeated 3 times (rate limit 1/s)',
+            fields: { repeated: 3 },
+        }]);
+    });
+
+    it('suppresses different lines in collapse mode', () => {
+        const limiter = new RateLimiter({ maxRate: 1, mode: 'collapse' });
+        acceptedCount(limiter, [line('a'), line('a'), line('b')]);
+
+        expect(limiter.takeNotices().map((notice) => notice.fields)).toEqual([
+            { repeated: 1 },
+            { suppressed: 1 },
+        ]);
+    });
+});
+
+describe('isRateLimitMode', () => {
+    it('accepts the known modes only', () => {
+        expect(isRateLimitMode('collapse')).toBe(true);
+        expect(isRateLimitMode('throttle')).toBe(false);
+        expect(isRateLimitMode(3)).toBe(false);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Tests for supervising `up` services
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ServiceManager } from '../src/service-manager.js';
+import type { ResolvedService } from '../src/project-config.js';
+
+const clients = vi.hoisted(() => new Map<string, string[]>());
+
+// Record what each service's source sends instead of connecting to a server
+vi.mock('../src/websocket-client.js', async (importOriginal) => ({
+    ...await importOriginal<object>(),
+    WebSocketClient: class {
+        readonly name: string;
+        readonly sourceColor: string | undefined = undefined;
+        readonly sent: string[] = [];
+
+        constructor(config: { sourceName: string }) {
+            this.name = config.sourceName;
+            clients.set(this.name, this.sent);
+        }
+
+        sendLog(parsed: { content: string }): void {
+            this.sent.push(parsed.content);
+        }
+
+        connect(): Promise<void> {
+            return Promise.resolve();
+        }
+
+        close(): void {}
+    },
+}));
+
+let manager: ServiceManager | undefined;
+
+beforeEach(() => {
+    clients.clear();
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+    await manager?.shutdown();
+    manager = undefined;
+    vi.restoreAllMocks();
+});
+
+/**
+ * A service running a Node.js script.
+ */
+function service(name: string, script: string, settings: Partial<ResolvedService> = {}): ResolvedService {
+    return {
+        name,
+        command: [process.execPath, '-e', script],
+        cwd: process.cwd(),
+        restart: 'never',
+        maxRestarts: 5,
+        restartDelayMs: 10,
+        autostart: true,
+        ...settings,
+    };
+}
+
+function start(...services: ResolvedService[]): ServiceManager {
+    manager = new ServiceManager(services, { serverUrl: 'ws://localhost:1' });
+    for (const { name } of services) {
+        manager.start(name);
+    }
+    return manager;
+}
+
+const sent = (name: string) => clients.get(name) ?? [];
+const stateOf = (name: string) => manager?.getStatus().find((status) => status.name === name)?.state;
+
+describe('ServiceManager', () => {
+    it('sends each service output and exit to its own source', async () => {
+        start(service('api', 'console.log("api up")'), service('worker', 'console.error("worker up"); process.exit(2)'));
+
+        await vi.waitFor(() => {
+            expect(stateOf('api')).toBe('exited');
+            expect(stateOf('worker')).toBe('crashed');
+        });
+        expect(sent('api')).toEqual(['api up', 'Process exited with code 0']);
+        expect(sent('worker')).toEqual(['worker up', 'Process exited with code 2']);
+    });
+
+    it('restarts on failure with a doubling delay, up to maxRestarts', async () => {
+        start(service('api', 'process.exit(1)', { restart: 'on-failure', maxRestarts: 2 }));
+
+        await vi.waitFor(() => expect(sent('api')).toContain('Giving up after 2 restarts'));
+        expect(sent('api')).toEqual([
+            'Process exited with code 1',
+            'Restarting in 10ms (attempt 1/2)',
+            'Process exited with code 1',
+            'Restarting in 20ms (attempt 2/2)',
+            'Process exited with code 1',
+            'Giving up after 2 restarts',
+        ]);
+        expect(manager?.getStatus()).toEqual([{ name: 'api', state: 'crashed', restarts: 2 }]);
+    });
+
+    it('does not restart a clean exit under on-failure', async () => {
+        start(service('api', '', { restart: 'on-failure' }));
+
+        await vi.waitFor(() => expect(stateOf('api')).toBe('exited'));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(sent('api')).toEqual(['Process exited with code 0']);
+    });
+
+    it('restarts a clean exit under always', async () => {
+        start(service('api', '', { restart: 'always', maxRestarts: 1 }));
+
+        await vi.waitFor(() => expect(sent('api')).toContain('Giving up after 1 restarts'));
+        expect(sent('api').filter((line) => line.startsWith('Restarting'))).toEqual(['Restarting in 10ms (attempt 1/1)']);
+    });
+
+    it('does not restart a service that was stopped', async () => {
+        const services = start(service('api', 'setInterval(() => {}, 1000)', { restart: 'always' }));
+        await vi.waitFor(() => expect(stateOf('api')).toBe('running'));
+
+        await services.stop('api');
+
+        expect(stateOf('api')).toBe('stopped');
+        expect(sent('api')).toEqual(['Process terminated by signal SIGTERM']);
+    });
+
+    it('rejects unknown service names', () => {
+        const services = start(service('api', ''));
+        expect(() => services.start('web')).toThrow('Unknown service "web" (available: api)');
+    });
+});
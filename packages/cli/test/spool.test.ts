@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Tests for the disk-backed outbound spool
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DiskSpool } from '../src/spool.js';
+
+const SERVER = 'ws://localhost:3210';
+
+let dir: string;
+let spools: DiskSpool[];
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-spool-'));
+    spools = [];
+});
+
+afterEach(() => {
+    for (const spool of spools) {
+        spool.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function open(sourceName = 'api', maxBytes = 1024): DiskSpool {
+    const spool = new DiskSpool({ dir, maxBytes }, SERVER, sourceName);
+    spools.push(spool);
+    return spool;
+}
+
+/**
+ * Drain a spool, collecting messages until `limit` have been sent.
+ */
+function drain(spool: DiskSpool, limit = Infinity): string[] {
+    const sent: string[] = [];
+    spool.drain((message) => sent.length < limit && sent.push(message) > 0);
+    return sent;
+}
+
+describe('DiskSpool', () => {
+    it('replays appended messages in order and empties the file', () => {
+        const spool = open();
+        expect(spool.hasPending).toBe(false);
+
+        spool.append('one');
+        spool.append('two');
+        spool.append('three');
+
+        expect(spool.hasPending).toBe(true);
+        expect(drain(spool)).toEqual(['one', 'two', 'three']);
+        expect(spool.hasPending).toBe(false);
+        expect(fs.existsSync(spool.filePath)).toBe(false);
+    });
+
+    it('keeps what could not be sent, ahead of newer messages', () => {
+        const spool = open();
+        for (const message of ['one', 'two', 'three']) {
+            spool.append(message);
+        }
+
+        expect(drain(spool, 1)).toEqual(['one']);
+        spool.append('four');
+        expect(drain(spool)).toEqual(['two', 'three', 'four']);
+    });
+
+    it('refuses messages beyond the size limit', () => {
+        const spool = open('api', 10);
+
+        expect(spool.append('1234')).toBe(true);
+        expect(spool.append('5678')).toBe(true);
+        expect(spool.append('9')).toBe(false);
+        expect(drain(spool)).toEqual(['1234', '5678']);
+        expect(spool.append('9')).toBe(true);
+    });
+
+    it('picks up unsent messages after a restart', () => {
+        const first = open();
+        first.append('left over');
+        first.close();
+
+        const second = open();
+        expect(second.filePath).toBe(first.filePath);
+        expect(second.hasPending).toBe(true);
+        expect(drain(second)).toEqual(['left over']);
+    });
+
+    it('keeps separate spools per source', () => {
+        open('api').append('from api');
+        const web = open('web');
+
+        expect(web.hasPending).toBe(false);
+    });
+
+    it('refuses a spool held by a running CLI', () => {
+        const spool = open();
+
+        expect(() => open()).toThrow(`Spool ${spool.filePath} is in use by another Chronoscribe CLI (pid ${process.pid})`);
+        spool.close();
+        expect(() => open()).not.toThrow();
+    });
+
+    it('takes over a lock left by a CLI that is no longer running', () => {
+        const first = open();
+        first.append('left over');
+        const exited = spawnSync(process.execPath, ['-e', '']);
+        fs.writeFileSync(`${first.filePath}.lock`, String(exited.pid));
+        spools = [];
+
+        const second = open();
+        expect(drain(second)).toEqual(['left over']);
+        expect(fs.readFileSync(`${second.filePath}.lock`, 'utf8')).toBe(String(process.pid));
+    });
+});
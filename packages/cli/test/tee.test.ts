@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for terminal passthrough (--tee)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { TeeWriter, type TeeMode } from '../src/tee.js';
+
+const isTTY = process.stdout.isTTY;
+let stdout: string[];
+let stderr: string[];
+
+beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+        stdout.push(String(chunk));
+        return true;
+    });
+    vi.spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+        stderr.push(String(chunk));
+        return true;
+    });
+    vi.stubEnv('NO_COLOR', undefined);
+});
+
+afterEach(() => {
+    process.stdout.isTTY = isTTY;
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+/**
+ * Create a writer as if stdout were (or were not) a terminal.
+ */
+function tee(mode: TeeMode, terminal: boolean): TeeWriter {
+    process.stdout.isTTY = terminal;
+    return new TeeWriter(mode);
+}
+
+describe('TeeWriter', () => {
+    it('echoes plain lines unchanged, routing stderr lines to stderr', () => {
+        const writer = tee('plain', true);
+        writer.writeLine('\u001b[32mready\u001b[0m');
+        writer.writeLine('oops', 'stderr');
+
+        expect(stdout).toEqual(['\u001b[32mready\u001b[0m\n']);
+        expect(stderr).toEqual(['oops\n']);
+    });
+
+    it('prefixes pretty lines with the aligned source and level', () => {
+        const writer = tee('pretty', false);
+        writer.writeEvent('api', '#ff0000', { level: LogLevel.INFO, content: 'listening' });
+        writer.writeEvent('worker', undefined, { level: LogLevel.ERROR, content: 'failed' }, 'stderr');
+        writer.writeEvent('api', '#ff0000', { level: LogLevel.WARN, content: 'slow' });
+
+        expect(stdout).toEqual(['api | INFO  listening\n', 'api    | WARN  slow\n']);
+        expect(stderr).toEqual(['worker | ERROR failed\n']);
+    });
+
+    it('indents continuation lines under the first', () => {
+        const writer = tee('pretty', false);
+        writer.writeEvent('api', undefined, { level: LogLevel.ERROR, content: 'Error: boom\n    at main (app.js:1)' });
+
+        expect(stdout).toEqual(['api | ERROR Error: boom\n    |           at main (app.js:1)\n']);
+    });
+
+    it('colors the prefix and keeps styled content on a terminal', () => {
+        const writer = tee('pretty', true);
+        writer.writeEvent('api', '#ff8000', {
+            level: LogLevel.WARN,
+            content: 'slow',
+            styledContent: '\u001b[1mslow\u001b[0m',
+        });
+
+        expect(stdout).toEqual([
+            '\u001b[38;2;255;128;0mapi\u001b[0m | \u001b[33mWARN \u001b[0m \u001b[1mslow\u001b[0m\u001b[0m\n',
+        ]);
+    });
+
+    it('strips colors when stdout is not a terminal or NO_COLOR is set', () => {
+        const parsed = { level: LogLevel.INFO, content: '\u001b[36mcolored\u001b[0m', styledContent: '\u001b[36mcolored\u001b[0m' };
+        tee('pretty', false).writeEvent('api', '#ff8000', parsed);
+
+        vi.stubEnv('NO_COLOR', '1');
+        tee('pretty', true).writeEvent('api', '#ff8000', parsed);
+
+        expect(stdout).toEqual(['api | INFO  colored\n', 'api | INFO  colored\n']);
+    });
+
+    it('stops echoing once the reader closes the pipe', () => {
+        const writer = tee('plain', false);
+        writer.writeLine('before');
+
+        process.stdout.emit('error', Object.assign(new Error('write EPIPE'), { code: 'EPIPE' }));
+        writer.writeLine('after');
+        writer.writeLine('after', 'stderr');
+
+        expect(stdout).toEqual(['before\n']);
+        expect(stderr).toEqual([]);
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Tests for user-supplied transform scripts
+ */
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { Transformer, loadTransform, type LineTransform } from '../src/transform.js';
+import { setQuiet } from '../src/logger.js';
+import type { ParsedLog } from '../src/log-parser.js';
+
+const CLI_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+let scriptDir: string;
+
+/**
+ * Write a transform script to the temporary directory.
+ */
+function writeScript(name: string, source: string): string {
+    const file = path.join(scriptDir, name);
+    fs.writeFileSync(file, source);
+    return file;
+}
+
+beforeAll(() => {
+    scriptDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-transform-'));
+    setQuiet(true);
+});
+
+afterAll(() => {
+    fs.rmSync(scriptDir, { recursive: true, force: true });
+});
+
+describe('loadTransform', () => {
+    it('loads a default export', async () => {
+        const transform = await loadTransform(writeScript('default.mjs', 'export default (line) => ({ content: line + "!" });'));
+        expect(transform('hi', { level: LogLevel.INFO, content: 'hi' }, { source: 'api' })).toEqual({ content: 'hi!' });
+    });
+
+    it('loads a named "transform" export from CommonJS', async () => {
+        const transform = await loadTransform(writeScript('named.cjs', 'exports.transform = () => null;'));
+        expect(transform('hi', { level: LogLevel.INFO, content: 'hi' }, { source: 'api' })).toBeNull();
+    });
+
+    it('loads a default export compiled to CommonJS', async () => {
+        const transform = await loadTransform(writeScript(
+            'compiled.cjs',
+            'Object.defineProperty(exports, "__esModule", { value: true }); exports.default = () => null;'
+        ));
+        expect(transform('hi', { level: LogLevel.INFO, content: 'hi' }, { source: 'api' })).toBeNull();
+    });
+
+    it('rejects modules without a function export', async () => {
+        await expect(loadTransform(writeScript('empty.mjs', 'export const x = 1;'))).rejects.toThrow(/must export a function/);
+    });
+
+    it('loads a TypeScript transform from the ES module build under plain Node', () => {
+        // Compile the CLI modules to ES modules next to the CLI's dependencies,
+        // as in the package build, and load a .ts script from outside the project
+        const buildDir = fs.mkdtempSync(path.join(CLI_DIR, '.transform-test-'));
+        try {
+            for (const name of ['transform', 'logger']) {
+                const source = fs.readFileSync(path.join(CLI_DIR, 'src', `${name}.ts`), 'utf8');
+                const { outputText } = ts.transpileModule(source, {
+                    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+                });
+                fs.writeFileSync(path.join(buildDir, `${name}.mjs`), outputText.replace(/\.js'/g, ".mjs'"));
+            }
+            const script = writeScript('shout.ts', 'export default (line: string) => ({ content: line.toUpperCase() });');
+
+            const result = spawnSync(process.execPath, [
+                '--input-type=module',
+                '-e',
+                `const { loadTransform } = await import(${JSON.stringify(pathToFileURL(path.join(buildDir, 'transform.mjs')).href)});
+                const transform = await loadTransform(${JSON.stringify(script)});
+                console.log(transform('hi').content);`,
+            ], { encoding: 'utf8', timeout: 30000 });
+
+            expect(result.stderr).toBe('');
+            expect(result.stdout.trim()).toBe('HI');
+        } finally {
+            fs.rmSync(buildDir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('Transformer', () => {
+    const parsed: ParsedLog = {
+        level: LogLevel.INFO,
+        content: 'user=ada',
+        styledContent: '\x1b[1muser=ada\x1b[0m',
+        fields: { a: 1 },
+    };
+
+    it('applies level, content, timestamp and merged fields', () => {
+        const transformer = new Transformer(() => ({
+            level: 'fatal',
+            content: 'login ada',
+            originalTimestamp: '2024-01-02T03:04:05.000Z',
+            fields: { user: 'ada' },
+        }));
+        expect(transformer.apply('user=ada', parsed, { source: 'api' })).toEqual({
+            level: LogLevel.ERROR,
+            content: 'login ada',
+            originalTimestamp: '2024-01-02T03:04:05.000Z',
+            fields: { a: 1, user: 'ada' },
+        });
+    });
+
+    it('drops lines when the transform returns null', () => {
+        expect(new Transformer(() => null).apply('x', parsed, { source: 'api' })).toBeNull();
+    });
+
+    it('keeps the parsed line when the transform throws or returns a promise', () => {
+        const throwing = new Transformer(() => {
+            throw new Error('boom');
+        });
+        expect(throwing.apply('x', parsed, { source: 'api' })).toBe(parsed);
+        expect(throwing.failureCount).toBe(1);
+
+        const async = new Transformer((() => Promise.resolve({ content: 'late' })) as unknown as LineTransform);
+        expect(async.apply('x', parsed, { source: 'api' })).toBe(parsed);
+        expect(async.failureCount).toBe(1);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for buffering and spooling in the WebSocket client
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { ClientType, LogLevel, MessageType, parseMessage, serializeMessage } from '@chronoscribe/shared';
+import { WebSocketClient, type WebSocketClientConfig } from '../src/websocket-client.js';
+import { setQuiet } from '../src/logger.js';
+
+let dir: string;
+let server: WebSocketServer;
+let client: WebSocketClient | undefined;
+/** Log contents received by the server, in order */
+let received: string[];
+
+beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-client-'));
+    received = [];
+    setQuiet(true);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket) => {
+        socket.on('message', (data: Buffer) => {
+            const message = parseMessage(data.toString());
+            if (message?.type === MessageType.SOURCE_REGISTER) {
+                socket.send(serializeMessage({
+                    type: MessageType.WELCOME,
+                    payload: { version: 'test', clientId: '1', clientType: ClientType.SOURCE, color: '#ffffff' },
+                }));
+            } else if (message?.type === MessageType.LOG) {
+                received.push(message.payload.content);
+            } else if (message?.type === MessageType.LOG_BATCH) {
+                received.push(...message.payload.logs.map((log) => log.content));
+            }
+        });
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+});
+
+afterEach(async () => {
+    client?.close();
+    client = undefined;
+    await new Promise((resolve) => server.close(resolve));
+    setQuiet(false);
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function connectLater(config: Partial<WebSocketClientConfig> = {}): WebSocketClient {
+    const { port } = server.address() as AddressInfo;
+    client = new WebSocketClient({
+        serverUrl: `ws://localhost:${port}`,
+        sourceName: 'api',
+        reconnect: { enabled: false, maxAttempts: 0, baseDelayMs: 0 },
+        ...config,
+    });
+    return client;
+}
+
+function send(target: WebSocketClient, ...contents: string[]): void {
+    for (const content of contents) {
+        target.sendLog({ level: LogLevel.INFO, content }, content);
+    }
+}
+
+describe('WebSocketClient', () => {
+    it('sends lines spooled before connecting in order, then reports those that did not fit', async () => {
+        // Each spooled LOG message is a little over 100 bytes, so two fit
+        const spooling = connectLater({ spool: { dir, maxBytes: 250 } });
+        send(spooling, 'one', 'two', 'three', 'four');
+
+        await spooling.connect();
+        await vi.waitFor(() => expect(received).toHaveLength(3));
+
+        expect(received).toEqual(['one', 'two', 'Dropped 2 lines while the Chronoscribe server was unreachable']);
+    });
+
+    it('sends lines buffered in memory when there is no spool', async () => {
+        const buffering = connectLater();
+        send(buffering, 'one', 'two');
+
+        await buffering.connect();
+        await vi.waitFor(() => expect(received).toEqual(['one', 'two']));
+    });
+
+    it('buffers in memory when another CLI holds the spool', async () => {
+        const other = connectLater({ spool: { dir, maxBytes: 1000 } });
+        const buffering = connectLater({ spool: { dir, maxBytes: 1000 } });
+        send(buffering, 'one');
+
+        await buffering.connect();
+        await vi.waitFor(() => expect(received).toEqual(['one']));
+        expect(fs.readdirSync(dir).filter((name) => name.endsWith('.spool'))).toEqual([]);
+        other.close();
+    });
+});
@@ -4,15 +4,46 @@
  * Orchestrates the WebSocket connection and renders the log viewer UI.
  */
 
-import { useCallback, useRef } from 'react';
-import { MessageType, type ServerMessage } from '@chronoscribe/shared';
+import { useCallback, useEffect, useRef } from 'react';
+import {
+    MessageType,
+    MAX_LOG_ENTRIES,
+    createHistoryRequestMessage,
+    createSubscribeMessage,
+    createSearchRequestMessage,
+    createSearchCancelMessage,
+    createSessionStartMessage,
+    createSessionStopMessage,
+    type LogEntry,
+    type ServerMessage,
+} from '@chronoscribe/shared';
 import { useWebSocket, type ConnectionStatus } from './hooks/useWebSocket';
 import { useLogStore, useSelectedLog } from './hooks/useLogStore';
 import { FilterBar } from './components/FilterBar';
 import { Timeline } from './components/Timeline';
 import { AlertConfig } from './components/AlertConfig';
 import { LogDetailsPanel } from './components/LogDetailsPanel';
+import { SessionControls } from './components/SessionControls';
+import { SessionCompare } from './components/SessionCompare';
 import { playAlertSound, showNotification, matchesAlertPattern } from './utils/notifications';
+import { getLogTime } from './utils/ordering';
+import { olderPageRequest } from './utils/history';
+
+/**
+ * Number of older logs requested each time the timeline reaches the top.
+ */
+const HISTORY_PAGE_SIZE = 1000;
+
+/**
+ * Number of logs requested per page when opening a capture session.
+ */
+const SESSION_PAGE_SIZE = 5000;
+
+/**
+ * Delay before a changed filter is sent to the server, so typing a search
+ * doesn't resubscribe on every key.
+ */
+const SUBSCRIBE_DEBOUNCE_MS = 300;
 
 /**
  * Get status text.
@@ -36,46 +67,93 @@ function App() {
     // Store actions
     const addLog = useLogStore((state) => state.addLog);
     const addLogs = useLogStore((state) => state.addLogs);
+    const addHistory = useLogStore((state) => state.addHistory);
+    const setHistoryState = useLogStore((state) => state.setHistoryState);
+    const startHistorySearch = useLogStore((state) => state.startHistorySearch);
+    const addHistorySearchResults = useLogStore((state) => state.addHistorySearchResults);
+    const finishHistorySearch = useLogStore((state) => state.finishHistorySearch);
+    const historySearchEnabled = useLogStore((state) => state.historySearch.enabled);
+    const setSessions = useLogStore((state) => state.setSessions);
+    const openSessionView = useLogStore((state) => state.openSessionView);
+    const addSessionLogs = useLogStore((state) => state.addSessionLogs);
+    const setSessionLoaded = useLogStore((state) => state.setSessionLoaded);
+    const sessionView = useLogStore((state) => state.sessionView);
     const addSource = useLogStore((state) => state.addSource);
     const removeSource = useLogStore((state) => state.removeSource);
     const setSources = useLogStore((state) => state.setSources);
     const setSelectedLog = useLogStore((state) => state.setSelectedLog);
     const logs = useLogStore((state) => state.logs);
     const alertConfig = useLogStore((state) => state.alertConfig);
+    const filter = useLogStore((state) => state.filter);
     const selectedLog = useSelectedLog();
 
     // Track last alert time to debounce
     const lastAlertTimeRef = useRef(0);
 
+    // ID of the history request being answered, if any
+    const historyRequestIdRef = useRef<string | null>(null);
+    const historyRequestCountRef = useRef(0);
+
+    // Whether the filter has been sent on the current connection
+    const subscribedRef = useRef(false);
+
+    // ID of the history search whose results are awaited, if any
+    const searchIdRef = useRef<string | null>(null);
+    const searchCountRef = useRef(0);
+
+    // Session being read by each pending session history request
+    const sessionRequestsRef = useRef(new Map<string, string>());
+    // Set once the connection exists; the message handler needs it first
+    const requestSessionLogsRef = useRef<(sessionId: string, before?: number) => void>(() => {});
+
+    // Alert on the first new log matching the alert pattern
+    const checkAlerts = useCallback((newLogs: LogEntry[]) => {
+        if (!alertConfig.enabled || !alertConfig.pattern) return;
+
+        const log = newLogs.find((entry) => matchesAlertPattern(entry.content, alertConfig.pattern));
+        if (!log) return;
+
+        const now = Date.now();
+        // Debounce alerts to max 1 per second
+        if (now - lastAlertTimeRef.current > 1000) {
+            lastAlertTimeRef.current = now;
+
+            if (alertConfig.playSound) {
+                playAlertSound();
+            }
+            if (alertConfig.showNotification) {
+                showNotification(
+                    `Chronoscribe Alert: ${log.source}`,
+                    log.content.slice(0, 100)
+                );
+            }
+        }
+    }, [alertConfig]);
+
+    // Request the next older page of a session's logs, if it has more and
+    // the dashboard has room for them
+    const continueSessionLogs = useCallback((sessionId: string, hasMore: boolean) => {
+        const sessionLogs = useLogStore.getState().sessionView?.logs[sessionId];
+        const oldest = sessionLogs?.[0];
+        if (hasMore && oldest && sessionLogs.length < MAX_LOG_ENTRIES) {
+            requestSessionLogsRef.current(sessionId, getLogTime(oldest));
+        } else {
+            setSessionLoaded(sessionId);
+        }
+    }, [setSessionLoaded]);
+
     // Handle incoming WebSocket messages
     const handleMessage = useCallback((message: ServerMessage) => {
         switch (message.type) {
             case MessageType.LOG_BROADCAST: {
-                const log = message.payload;
-                addLog(log);
-
-                // Check for alert pattern match
-                if (
-                    alertConfig.enabled &&
-                    alertConfig.pattern &&
-                    matchesAlertPattern(log.content, alertConfig.pattern)
-                ) {
-                    const now = Date.now();
-                    // Debounce alerts to max 1 per second
-                    if (now - lastAlertTimeRef.current > 1000) {
-                        lastAlertTimeRef.current = now;
-
-                        if (alertConfig.playSound) {
-                            playAlertSound();
-                        }
-                        if (alertConfig.showNotification) {
-                            showNotification(
-                                `Chronoscribe Alert: ${log.source}`,
-                                log.content.slice(0, 100)
-                            );
-                        }
-                    }
-                }
+                addLog(message.payload);
+                checkAlerts([message.payload]);
+                break;
+            }
+
+            case MessageType.LOG_BROADCAST_BATCH: {
+                addLogs(message.payload.logs);
+                checkAlerts(message.payload.logs);
                 break;
             }
 
@@ -84,6 +162,43 @@ function App() {
                 break;
             }
 
+            case MessageType.HISTORY_PAGE: {
+                const sessionId = sessionRequestsRef.current.get(message.payload.requestId);
+                if (sessionId) {
+                    addSessionLogs(sessionId, message.payload.logs);
+                    if (message.payload.done) {
+                        sessionRequestsRef.current.delete(message.payload.requestId);
+                        continueSessionLogs(sessionId, message.payload.hasMore);
+                    }
+                    break;
+                }
+
+                // Ignore pages of requests made before a reconnect
+                if (message.payload.requestId !== historyRequestIdRef.current) break;
+                addHistory(message.payload.logs);
+                if (message.payload.done) {
+                    historyRequestIdRef.current = null;
+                    setHistoryState({ loading: false, hasMore: message.payload.hasMore });
+                }
+                break;
+            }
+
+            case MessageType.SEARCH_RESULTS: {
+                // Ignore results of searches replaced or cancelled since
+                if (message.payload.searchId !== searchIdRef.current) break;
+                addHistorySearchResults(message.payload.logs);
+                if (message.payload.done) {
+                    searchIdRef.current = null;
+                    finishHistorySearch(message.payload.truncated);
+                }
+                break;
+            }
+
+            case MessageType.SESSIONS_LIST: {
+                setSessions(message.payload.sessions);
+                break;
+            }
+
             case MessageType.SOURCE_CONNECTED: {
                 addSource(message.payload);
                 break;
@@ -101,6 +216,14 @@ function App() {
 
             case MessageType.WELCOME: {
                 console.log('[Dashboard] Welcome from server:', message.payload.version);
+                historyRequestIdRef.current = null;
+                searchIdRef.current = null;
+                // Unanswered session reads are lost with the old connection
+                for (const sessionId of sessionRequestsRef.current.values()) {
+                    setSessionLoaded(sessionId);
+                }
+                sessionRequestsRef.current.clear();
+                setHistoryState({ loading: false, hasMore: true });
                 break;
             }
 
@@ -109,18 +232,126 @@ function App() {
                 break;
             }
         }
-    }, [addLog, addLogs, addSource, removeSource, setSources, alertConfig]);
+    }, [addLog, addLogs, addHistory, setHistoryState, addHistorySearchResults, finishHistorySearch, setSessions, continueSessionLogs, addSessionLogs, setSessionLoaded, addSource, removeSource, setSources, checkAlerts]);
 
     // WebSocket connection
-    const { status, reconnectAttempts, reconnect } = useWebSocket({
+    const { status, reconnectAttempts, reconnect, send } = useWebSocket({
         onMessage: handleMessage,
     });
 
+    // Ask the server for a page of a session's logs before a time
+    // (default: the session's end)
+    const requestSessionLogs = useCallback((sessionId: string, before?: number) => {
+        historyRequestCountRef.current++;
+        const requestId = `history-${historyRequestCountRef.current}`;
+        if (send(createHistoryRequestMessage(requestId, before, SESSION_PAGE_SIZE, sessionId))) {
+            sessionRequestsRef.current.set(requestId, sessionId);
+        } else {
+            setSessionLoaded(sessionId);
+        }
+    }, [send, setSessionLoaded]);
+    requestSessionLogsRef.current = requestSessionLogs;
+
+    // Open past sessions read-only (one) or side by side (two)
+    const viewSessions = useCallback((sessionIds: string[]) => {
+        sessionRequestsRef.current.clear();
+        openSessionView(sessionIds);
+        for (const sessionId of sessionIds) {
+            requestSessionLogs(sessionId);
+        }
+    }, [openSessionView, requestSessionLogs]);
+
+    const startSession = useCallback((label: string) => {
+        send(createSessionStartMessage(label));
+    }, [send]);
+
+    const stopSession = useCallback(() => {
+        send(createSessionStopMessage());
+    }, [send]);
+
+    // Ask the server for a page of logs before a time (default: the newest),
+    // replacing any request still being answered
+    const requestHistory = useCallback((before: number | undefined, limit: number) => {
+        historyRequestCountRef.current++;
+        const requestId = `history-${historyRequestCountRef.current}`;
+        if (send(createHistoryRequestMessage(requestId, before, limit))) {
+            historyRequestIdRef.current = requestId;
+            setHistoryState({ loading: true });
+        }
+    }, [send, setHistoryState]);
+
+    // Ask for the page of logs before the oldest one held
+    const requestOlderLogs = useCallback(() => {
+        const { logs: currentLogs, history } = useLogStore.getState();
+        const page = olderPageRequest(currentLogs, history, HISTORY_PAGE_SIZE);
+        if (page) {
+            requestHistory(page.before, page.limit);
+        }
+    }, [requestHistory]);
+
+    // Subscribe to the logs matching the filter, so the server only sends those
+    useEffect(() => {
+        if (status !== 'connected') {
+            subscribedRef.current = false;
+            return;
+        }
+
+        const timer = window.setTimeout(() => {
+            if (!send(createSubscribeMessage(filter))) return;
+
+            // Reload the timeline's history for the new filter
+            if (subscribedRef.current) {
+                setHistoryState({ hasMore: true });
+                requestHistory(undefined, HISTORY_PAGE_SIZE);
+            }
+            subscribedRef.current = true;
+        }, subscribedRef.current ? SUBSCRIBE_DEBOUNCE_MS : 0);
+        return () => window.clearTimeout(timer);
+    }, [filter, status, send, requestHistory, setHistoryState]);
+
+    // Stop the running history search, keeping the results found so far
+    const stopHistorySearch = useCallback(() => {
+        const searchId = searchIdRef.current;
+        if (!searchId) return;
+
+        send(createSearchCancelMessage(searchId));
+        searchIdRef.current = null;
+        finishHistorySearch(false);
+    }, [send, finishHistorySearch]);
+
+    // Search the whole history for the filter while history search is on
+    useEffect(() => {
+        if (!historySearchEnabled || status !== 'connected') return;
+
+        const timer = window.setTimeout(() => {
+            searchCountRef.current++;
+            const searchId = `search-${searchCountRef.current}`;
+            // A new search replaces the previous one on the server
+            if (send(createSearchRequestMessage(searchId, filter))) {
+                searchIdRef.current = searchId;
+                startHistorySearch();
+            }
+        }, SUBSCRIBE_DEBOUNCE_MS);
+        return () => window.clearTimeout(timer);
+    }, [filter, historySearchEnabled, status, send, startHistorySearch]);
+
+    // Cancel the search when history search is turned off
+    useEffect(() => {
+        if (!historySearchEnabled) {
+            stopHistorySearch();
+        }
+    }, [historySearchEnabled, stopHistorySearch]);
+
     return (
         <div className="app">
             {/* Header */}
             <header className="header">
                 <h1 className="header__title">Chronoscribe</h1>
+                <SessionControls
+                    onStart={startSession}
+                    onStop={stopSession}
+                    onOpen={viewSessions}
+                />
                 <div className="header__status">
                     <span className={`status-indicator ${status === 'connected' ? 'status-indicator--connected' : ''}`} />
                     <span>{getStatusText(status, reconnectAttempts)}</span>
@@ -139,8 +370,15 @@ function App() {
             {/* Filter bar */}
             <FilterBar />
 
-            {/* Log timeline */}
-            <Timeline />
+            {/* Log timeline, or two sessions side by side */}
+            {sessionView && sessionView.sessionIds.length > 1 ? (
+                <SessionCompare />
+            ) : (
+                <Timeline
+                    onReachTop={historySearchEnabled || sessionView ? undefined : requestOlderLogs}
+                    onStopSearch={stopHistorySearch}
+                />
+            )}
 
             {/* Alert configuration */}
             <AlertConfig />
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Renders text containing ANSI escape sequences as styled spans
+ */
+
+import { memo } from "react";
+import { highlightSpans, parseAnsi } from "../utils/ansi";
+
+interface AnsiTextProps {
+  text: string;
+  searchText?: string;
+  searchMode?: "text" | "regex";
+}
+
+export const AnsiText = memo(function AnsiText({
+  text,
+  searchText = "",
+  searchMode = "text",
+}: AnsiTextProps) {
+  return (
+    <>
+      {highlightSpans(parseAnsi(text), searchText, searchMode).map((span, i) => (
+        <span key={i} style={span.style}>
+          {span.segments.map((segment, j) =>
+            segment.highlighted ? (
+              <mark key={j} className="log-entry__highlight">
+                {segment.text}
+              </mark>
+            ) : (
+              segment.text
+            )
+          )}
+        </span>
+      ))}
+    </>
+  );
+});
@@ -19,6 +19,7 @@ import {
   TrashIcon,
   RefreshIcon,
   BookmarkIcon,
+  ClockIcon,
 } from "./Icons";
 
 const DEFAULT_COLORS = [
@@ -65,6 +66,12 @@ export function FilterBar() {
   const timeDisplayMode = useLogStore((state) => state.timeDisplayMode);
   const setTimeDisplayMode = useLogStore((state) => state.setTimeDisplayMode);
   const bookmarks = useLogStore((state) => state.bookmarks);
+  const historySearchEnabled = useLogStore(
+    (state) => state.historySearch.enabled
+  );
+  const setHistorySearchEnabled = useLogStore(
+    (state) => state.setHistorySearchEnabled
+  );
   const clearFilter = useLogStore((state) => state.clearFilter);
   const clearLogs = useLogStore((state) => state.clearLogs);
 
@@ -136,12 +143,27 @@ export function FilterBar() {
         </div>
         <input
           type="text"
-          placeholder="Search logs..."
+          placeholder="Search logs or key=value..."
           value={filter.searchText}
           onChange={(e) => setSearchText(e.target.value)}
         />
       </div>
 
+      {/* Search All History */}
+      <button
+        className={`toggle-button ${historySearchEnabled ? "toggle-button--active" : ""
+          }`}
+        onClick={() => setHistorySearchEnabled(!historySearchEnabled)}
+        title={
+          historySearchEnabled
+            ? "Show the live timeline"
+            : "Search all history on the server"
+        }
+      >
+        <ClockIcon size={16} />
+        History
+      </button>
+
       {/* Time Range */}
       <select
         className="select-input"
@@ -5,7 +5,10 @@
 import { useCallback, useEffect } from "react";
 import type { LogEntry } from "@chronoscribe/shared";
 import { formatDetailTimestamp } from "../utils/timeUtils";
+import { formatFieldValue } from "../utils/filter";
 import { useLogStore } from "../hooks/useLogStore";
+import { hasAnsi } from "../utils/ansi";
+import { AnsiText } from "./AnsiText";
 import {
   CloseIcon,
   ChevronLeftIcon,
@@ -109,6 +112,32 @@ export function LogDetailsPanel({ log, onClose }: LogDetailsPanelProps) {
                   {log.source}
                 </span>
               </div>
+              {log.file && (
+                <div className="details-panel__metadata-row">
+                  <span className="details-panel__metadata-label">File</span>
+                  <span className="details-panel__metadata-value">
+                    {log.file}
+                  </span>
+                </div>
+              )}
+              {log.sequence !== undefined && (
+                <div className="details-panel__metadata-row">
+                  <span className="details-panel__metadata-label">Sequence</span>
+                  <span className="details-panel__metadata-value">
+                    {log.sequence}
+                    {log.gapBefore !== undefined &&
+                      ` (${log.gapBefore} missing before)`}
+                  </span>
+                </div>
+              )}
+              {log.stream && (
+                <div className="details-panel__metadata-row">
+                  <span className="details-panel__metadata-label">Stream</span>
+                  <span className="details-panel__metadata-value">
+                    {log.stream}
+                  </span>
+                </div>
+              )}
               <div className="details-panel__metadata-row">
                 <span className="details-panel__metadata-label">Level</span>
                 <span className="details-panel__metadata-value">
@@ -122,6 +151,44 @@ export function LogDetailsPanel({ log, onClose }: LogDetailsPanelProps) {
             </div>
           </section>
 
+          {/* Fields Section */}
+          {log.fields && Object.keys(log.fields).length > 0 && (
+            <section className="details-panel__section">
+              <div className="details-panel__section-actions">
+                <h3 className="details-panel__section-title">Fields</h3>
+                <button
+                  className="details-panel__copy-btn"
+                  onClick={() =>
+                    copyToClipboard(JSON.stringify(log.fields, null, 2), "fields")
+                  }
+                  title="Copy fields as JSON"
+                >
+                  {copiedSection === "fields" ? (
+                    <>
+                      <CheckCircleIcon size={14} />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <CopyIcon size={14} />
+                      Copy
+                    </>
+                  )}
+                </button>
+              </div>
+              <div className="details-panel__metadata">
+                {Object.entries(log.fields).map(([key, value]) => (
+                  <div key={key} className="details-panel__metadata-row">
+                    <span className="details-panel__metadata-label">{key}</span>
+                    <span className="details-panel__metadata-value details-panel__field-value">
+                      {formatFieldValue(value)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Content Section */}
           <section className="details-panel__section">
             <div className="details-panel__section-actions">
@@ -145,7 +212,12 @@ export function LogDetailsPanel({ log, onClose }: LogDetailsPanelProps) {
               </button>
             </div>
             <div className="details-panel__code-block">
-              {jsonContent || log.content}
+              {jsonContent ||
+                (log.styledContent ? (
+                  <AnsiText text={log.styledContent} />
+                ) : (
+                  log.content
+                ))}
             </div>
           </section>
 
@@ -171,7 +243,9 @@ export function LogDetailsPanel({ log, onClose }: LogDetailsPanelProps) {
                 )}
               </button>
             </div>
-            <div className="details-panel__code-block">{log.raw}</div>
+            <div className="details-panel__code-block">
+              {hasAnsi(log.raw) ? <AnsiText text={log.raw} /> : log.raw}
+            </div>
           </section>
         </div>
 
@@ -4,7 +4,7 @@
 
 import { memo, useCallback, useState } from "react";
 import type { LogEntry } from "@chronoscribe/shared";
-import { highlightText } from "../utils/filter";
+import { formatInlineFields, highlightText } from "../utils/filter";
 import {
   isMultiLine,
   isStackTrace,
@@ -13,6 +13,7 @@ import {
 } from "../utils/stackTrace";
 import { formatTimestamp } from "../utils/timeUtils";
 import { useLogStore } from "../hooks/useLogStore";
+import { AnsiText } from "./AnsiText";
 import {
   BookmarkIcon,
   BookmarkFilledIcon,
@@ -46,6 +47,7 @@ export const LogEntryRow = memo(function LogEntryRow({
   const multiLine = isMultiLine(log.content);
   const hasStackTrace = multiLine && isStackTrace(log.content);
   const { preview, isTruncated } = truncateForTimeline(log.content, 3);
+  const inlineFields = formatInlineFields(log.fields);
 
   const handleClick = useCallback(
     (e: React.MouseEvent) => {
@@ -77,11 +79,18 @@ export const LogEntryRow = memo(function LogEntryRow({
     [log.id, toggleBookmark]
   );
 
-  const segments = highlightText(
-    isExpanded || !isTruncated ? log.content : preview,
-    searchText,
-    searchMode
-  );
+  const styledText = log.styledContent
+    ? isExpanded || !isTruncated
+      ? log.styledContent
+      : truncateForTimeline(log.styledContent, 3).preview
+    : null;
+  const segments = styledText
+    ? []
+    : highlightText(
+      isExpanded || !isTruncated ? log.content : preview,
+      searchText,
+      searchMode
+    );
   const stackTraceLines =
     hasStackTrace && isExpanded ? parseStackTrace(log.content) : [];
 
@@ -120,7 +129,14 @@ export const LogEntryRow = memo(function LogEntryRow({
           className="log-entry__source-dot"
           style={{ backgroundColor: sourceColor }}
         />
-        <span className="log-entry__source-name">{log.source}</span>
+        <span className="log-entry__source-name" title={log.file}>
+          {log.source}
+        </span>
+        {log.stream === "stderr" && (
+          <span className="log-entry__stream" title="Captured from stderr">
+            err
+          </span>
+        )}
       </div>
 
       <span className={`log-entry__level ${getLevelClass(log.level)}`}>
@@ -128,6 +144,14 @@ export const LogEntryRow = memo(function LogEntryRow({
       </span>
 
       <div className="log-entry__content">
+        {log.gapBefore !== undefined && (
+          <span
+            className="log-entry__gap"
+            title={`${log.gapBefore} lines from ${log.source} were lost before this one`}
+          >
+            {log.gapBefore} missing
+          </span>
+        )}
         {hasStackTrace && isExpanded ? (
           <div>
             {stackTraceLines.map((line, i) => (
@@ -141,6 +165,12 @@ export const LogEntryRow = memo(function LogEntryRow({
               </div>
             ))}
           </div>
+        ) : styledText ? (
+          <AnsiText
+            text={styledText}
+            searchText={searchText}
+            searchMode={searchMode}
+          />
         ) : (
           <>
             {segments.map((segment, i) =>
@@ -154,6 +184,9 @@ export const LogEntryRow = memo(function LogEntryRow({
             )}
           </>
         )}
+        {inlineFields && (
+          <span className="log-entry__fields">{inlineFields}</span>
+        )}
         {multiLine && (
           <button
             className="log-entry__expand-btn"
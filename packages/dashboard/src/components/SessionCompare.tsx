@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Side-by-side view of two capture sessions
+ *
+ * Shows each session's logs with their time since the session started, so
+ * two attempts at the same repro line up, and marks lines whose pattern
+ * never occurs in the other session.
+ */
+
+import { useMemo, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import {
+  LogLevel,
+  createLogMatcher,
+  type CaptureSession,
+  type LogEntry,
+} from "@chronoscribe/shared";
+import { useLogStore, useSourcesArray } from "../hooks/useLogStore";
+import { detectPattern } from "../utils/patternUtils";
+import { getLogTime } from "../utils/ordering";
+import { formatAbsoluteTime, formatDuration } from "../utils/timeUtils";
+import { CloseIcon } from "./Icons";
+
+interface SessionColumnProps {
+  session: CaptureSession;
+  logs: LogEntry[];
+  /** Pattern of each log */
+  patterns: string[];
+  loading: boolean;
+  /** Patterns of the other session's logs */
+  otherPatterns: Set<string>;
+  sourceColors: Map<string, string>;
+}
+
+/**
+ * Format an offset from the session start, e.g. "+1:02.345".
+ */
+function formatOffset(ms: number): string {
+  const clamped = Math.max(0, ms);
+  const minutes = Math.floor(clamped / 60000);
+  const seconds = ((clamped % 60000) / 1000).toFixed(3).padStart(6, "0");
+  return `+${minutes}:${seconds}`;
+}
+
+function SessionColumn({
+  session,
+  logs,
+  patterns,
+  loading,
+  otherPatterns,
+  sourceColors,
+}: SessionColumnProps) {
+  const parentRef = useRef<HTMLDivElement>(null);
+  const setSelectedLog = useLogStore((state) => state.setSelectedLog);
+  const selectedLogId = useLogStore((state) => state.selectedLogId);
+
+  const startedAt = new Date(session.startedAt).getTime();
+  const endedAt = session.endedAt ? new Date(session.endedAt).getTime() : Date.now();
+
+  const uniqueCount = patterns.filter((pattern) => !otherPatterns.has(pattern)).length;
+  const errorCount = logs.filter((log) => log.level === LogLevel.ERROR).length;
+  const warnCount = logs.filter((log) => log.level === LogLevel.WARN).length;
+
+  const virtualizer = useVirtualizer({
+    count: logs.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => 28,
+    overscan: 20,
+  });
+
+  return (
+    <div className="session-compare__column">
+      <div className="session-compare__header">
+        <div className="session-compare__title">{session.label}</div>
+        <div className="session-compare__meta">
+          {formatAbsoluteTime(session.startedAt, "long")} · {formatDuration(endedAt - startedAt)}
+          {session.sources.length > 0 && ` · ${session.sources.join(", ")}`}
+        </div>
+        <div className="session-compare__stats">
+          <span>{loading ? "Loading…" : `${logs.length.toLocaleString()} logs`}</span>
+          <span className="session-compare__stat--error">{errorCount} errors</span>
+          <span className="session-compare__stat--warn">{warnCount} warnings</span>
+          <span>{uniqueCount} not in the other session</span>
+        </div>
+      </div>
+
+      <div ref={parentRef} className="session-compare__list">
+        <div
+          style={{
+            height: `${virtualizer.getTotalSize()}px`,
+            width: "100%",
+            position: "relative",
+          }}
+        >
+          {virtualizer.getVirtualItems().map((virtualItem) => {
+            const log = logs[virtualItem.index];
+            const pattern = patterns[virtualItem.index];
+            if (!log || pattern === undefined) return null;
+
+            const classes = ["session-compare__row"];
+            if (!otherPatterns.has(pattern)) classes.push("session-compare__row--unique");
+            if (log.id === selectedLogId) classes.push("session-compare__row--selected");
+
+            return (
+              <div
+                key={log.id}
+                data-index={virtualItem.index}
+                ref={virtualizer.measureElement}
+                className={classes.join(" ")}
+                onClick={() => setSelectedLog(log.id)}
+                style={{ transform: `translateY(${virtualItem.start}px)` }}
+              >
+                <span className="session-compare__offset">
+                  {formatOffset(getLogTime(log) - startedAt)}
+                </span>
+                <span
+                  className={`log-entry__level log-entry__level--${log.level.toLowerCase()}`}
+                >
+                  {log.level}
+                </span>
+                <span
+                  className="session-compare__source"
+                  style={{ color: sourceColors.get(log.source) ?? "#60A5FA" }}
+                >
+                  {log.source}
+                </span>
+                <span className="session-compare__content">{log.content}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SessionCompare() {
+  const sessionView = useLogStore((state) => state.sessionView);
+  const sessions = useLogStore((state) => state.sessions);
+  const filter = useLogStore((state) => state.filter);
+  const closeSessionView = useLogStore((state) => state.closeSessionView);
+  const sources = useSourcesArray();
+
+  const sourceColors = new Map(sources.map((source) => [source.name, source.color]));
+
+  // The current filter applies to both sessions
+  const columns = useMemo(() => {
+    if (!sessionView) return [];
+    const matches = createLogMatcher(filter);
+    const now = Date.now();
+
+    return sessionView.sessionIds.map((id) => {
+      const logs = (sessionView.logs[id] ?? []).filter((log) => matches(log, now));
+      const patterns = logs.map((log) => detectPattern(log.content));
+      return {
+        id,
+        session: sessions.find((session) => session.id === id),
+        logs,
+        patterns,
+        patternSet: new Set(patterns),
+        loading: sessionView.loading.includes(id),
+      };
+    });
+  }, [sessionView, sessions, filter]);
+
+  return (
+    <div className="session-compare">
+      <button
+        className="icon-button session-compare__close"
+        onClick={closeSessionView}
+        title="Back to the live timeline"
+      >
+        <CloseIcon size={16} />
+      </button>
+      {columns.map((column, index) => {
+        if (!column.session) return null;
+        const other = columns[index === 0 ? 1 : 0];
+        return (
+          <SessionColumn
+            key={column.id}
+            session={column.session}
+            logs={column.logs}
+            patterns={column.patterns}
+            loading={column.loading}
+            otherPatterns={other?.patternSet ?? new Set()}
+            sourceColors={sourceColors}
+          />
+        );
+      })}
+    </div>
+  );
+}
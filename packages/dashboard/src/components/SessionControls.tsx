@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Capture session controls for the header
+ *
+ * Starts and stops named sessions on the server and lists past ones, to
+ * open one read-only or compare two side by side.
+ */
+
+import { useEffect, useState } from "react";
+import type { CaptureSession } from "@chronoscribe/shared";
+import { useLogStore } from "../hooks/useLogStore";
+import { formatAbsoluteTime, formatDuration } from "../utils/timeUtils";
+
+interface SessionControlsProps {
+  /** Start a session with a label */
+  onStart: (label: string) => void;
+  /** Stop the running session */
+  onStop: () => void;
+  /** Open sessions: one read-only, two side by side */
+  onOpen: (sessionIds: string[]) => void;
+}
+
+/**
+ * How long a session ran, or has run so far.
+ */
+function getSessionDuration(session: CaptureSession, now: number): string {
+  const end = session.endedAt ? new Date(session.endedAt).getTime() : now;
+  return formatDuration(end - new Date(session.startedAt).getTime());
+}
+
+export function SessionControls({ onStart, onStop, onOpen }: SessionControlsProps) {
+  const [showMenu, setShowMenu] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const sessions = useLogStore((state) => state.sessions);
+  const sessionView = useLogStore((state) => state.sessionView);
+  const closeSessionView = useLogStore((state) => state.closeSessionView);
+
+  const activeSession = sessions.find((session) => !session.endedAt);
+
+  // Tick the running session's elapsed time
+  useEffect(() => {
+    if (!activeSession) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [activeSession]);
+
+  const handleStart = () => {
+    const label = prompt("Session label", `Session ${sessions.length + 1}`);
+    if (label !== null) {
+      onStart(label);
+    }
+  };
+
+  const toggleSelected = (sessionId: string) => {
+    setSelected((current) =>
+      current.includes(sessionId)
+        ? current.filter((id) => id !== sessionId)
+        : [...current.slice(-1), sessionId]
+    );
+  };
+
+  const open = (sessionIds: string[]) => {
+    onOpen(sessionIds);
+    setSelected([]);
+    setShowMenu(false);
+  };
+
+  return (
+    <div className="session-controls">
+      {activeSession ? (
+        <div className="session-controls__active" title="Logs are being captured in this session">
+          <span className="session-controls__recording" />
+          <span className="session-controls__label">{activeSession.label}</span>
+          <span className="session-controls__elapsed">
+            {getSessionDuration(activeSession, now)}
+          </span>
+          <button className="toggle-button" onClick={onStop}>
+            Stop
+          </button>
+        </div>
+      ) : (
+        <button
+          className="toggle-button"
+          onClick={handleStart}
+          title="Start a named capture session"
+        >
+          Start session
+        </button>
+      )}
+
+      <div className="export-dropdown">
+        <button
+          className={`toggle-button ${sessionView ? "toggle-button--active" : ""}`}
+          onClick={() => setShowMenu(!showMenu)}
+          title="Open or compare past sessions"
+        >
+          Sessions{sessions.length > 0 && ` (${sessions.length})`}
+        </button>
+        {showMenu && (
+          <>
+            <div
+              className="export-dropdown__backdrop"
+              onClick={() => setShowMenu(false)}
+            />
+            <div className="export-dropdown__menu session-menu">
+              {sessions.length === 0 && (
+                <div className="session-menu__empty">No sessions yet</div>
+              )}
+              {[...sessions].reverse().map((session) => (
+                <div key={session.id} className="export-dropdown__item session-menu__item">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(session.id)}
+                    onChange={() => toggleSelected(session.id)}
+                    title="Select to compare"
+                  />
+                  <div className="session-menu__info">
+                    <div className="session-menu__label">{session.label}</div>
+                    <div className="session-menu__meta">
+                      {formatAbsoluteTime(session.startedAt, "long")} ·{" "}
+                      {session.endedAt ? getSessionDuration(session, now) : "running"}
+                      {session.sources.length > 0 && ` · ${session.sources.join(", ")}`}
+                    </div>
+                  </div>
+                  <button className="toggle-button" onClick={() => open([session.id])}>
+                    Open
+                  </button>
+                </div>
+              ))}
+              <div className="export-dropdown__footer session-menu__footer">
+                {sessionView && (
+                  <button
+                    className="toggle-button"
+                    onClick={() => {
+                      closeSessionView();
+                      setShowMenu(false);
+                    }}
+                  >
+                    Back to live
+                  </button>
+                )}
+                <button
+                  className="toggle-button"
+                  disabled={selected.length !== 2}
+                  onClick={() =>
+                    open(
+                      sessions
+                        .filter((session) => selected.includes(session.id))
+                        .map((session) => session.id)
+                    )
+                  }
+                >
+                  Compare selected
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import {
   useSourcesArray,
 } from "../hooks/useLogStore";
 import { LogEntryRow } from "./LogEntry";
-import { ArrowDownIcon, TerminalIcon } from "./Icons";
+import { ArrowDownIcon, SearchIcon, TerminalIcon } from "./Icons";
 
 // Default colors for sources
 const DEFAULT_COLORS = [
@@ -38,16 +38,39 @@ function getRelativeTimeInterval(newestTimestamp: number): number {
   return 300000; // Older: every 5 minutes
 }
 
-export function Timeline() {
+/**
+ * Props for the Timeline component.
+ */
+interface TimelineProps {
+  /** Called when the user scrolls to the top, to load older logs */
+  onReachTop?: () => void;
+  /** Called to stop a running history search */
+  onStopSearch?: () => void;
+}
+
+export function Timeline({ onReachTop, onStopSearch }: TimelineProps) {
   const logs = useFilteredLogs();
   const sources = useSourcesArray();
   const filter = useLogStore((state) => state.filter);
   const isPaused = useLogStore((state) => state.isPaused);
   const setPaused = useLogStore((state) => state.setPaused);
   const timeDisplayMode = useLogStore((state) => state.timeDisplayMode);
+  const historyLoading = useLogStore((state) => state.history.loading);
+  const historySearch = useLogStore((state) => state.historySearch);
+  const sessionView = useLogStore((state) => state.sessionView);
+  const sessions = useLogStore((state) => state.sessions);
+  const closeSessionView = useLogStore((state) => state.closeSessionView);
+
+  // Past session opened read-only in place of the live logs
+  const openSessionId = sessionView?.sessionIds.length === 1 ? sessionView.sessionIds[0] : undefined;
+  const openSession = sessions.find((session) => session.id === openSessionId);
+  const sessionLoading = openSessionId !== undefined && !!sessionView?.loading.includes(openSessionId);
 
   const parentRef = useRef<HTMLDivElement>(null);
   const scrollEndRef = useRef(true);
+  // Log that was first when older logs were requested; kept at the top
+  // while the page arrives so the view doesn't jump
+  const topAnchorRef = useRef<string | null>(null);
 
   // State to trigger re-renders for relative time updates
   const [, setTimeTick] = useState(0);
@@ -111,11 +134,34 @@ export function Timeline() {
     }
   }, [logs.length, virtualizer, isPaused]);
 
+  // Keep the anchored log in place as older logs are inserted above it
+  useEffect(() => {
+    const anchorId = topAnchorRef.current;
+    if (!anchorId) return;
+
+    const index = logs.findIndex((log) => log.id === anchorId);
+    if (index > 0) {
+      virtualizer.scrollToIndex(index, { align: "start" });
+    }
+    if (!historyLoading) {
+      topAnchorRef.current = null;
+    }
+  }, [logs, historyLoading, virtualizer]);
+
   // Handle scroll to detect if user scrolled up
   const handleScroll = useCallback(() => {
     const element = parentRef.current;
     if (!element) return;
 
+    if (element.scrollTop < 50 && onReachTop && !topAnchorRef.current) {
+      topAnchorRef.current = logs[0]?.id ?? null;
+      onReachTop();
+      // Nothing requested (no older logs, or already full)
+      if (!useLogStore.getState().history.loading) {
+        topAnchorRef.current = null;
+      }
+    }
+
     const atBottom =
       element.scrollHeight - element.scrollTop - element.clientHeight < 100;
     scrollEndRef.current = atBottom;
@@ -125,7 +171,7 @@ export function Timeline() {
     } else if (atBottom && isPaused) {
       setPaused(false);
     }
-  }, [isPaused, setPaused]);
+  }, [isPaused, setPaused, onReachTop, logs]);
 
   // Resume auto-scroll
   const handleResumeScroll = useCallback(() => {
@@ -136,6 +182,69 @@ export function Timeline() {
     }
   }, [logs.length, virtualizer, setPaused]);
 
+  const sessionStatus = openSession && (
+    <div className="timeline__history-status timeline__history-status--interactive">
+      {`Session “${openSession.label}” (read-only) · `}
+      {sessionLoading ? "Loading…" : `${logs.length.toLocaleString()} logs`}
+      <button className="timeline__history-action" onClick={closeSessionView}>
+        Back to live
+      </button>
+    </div>
+  );
+
+  const searchStatus = !openSession && historySearch.enabled && (
+    <div className="timeline__history-status timeline__history-status--interactive">
+      {historySearch.searching
+        ? `Searching history… ${logs.length.toLocaleString()} matches`
+        : `${logs.length.toLocaleString()} matches in history${
+            historySearch.truncated ? " (limit reached)" : ""
+          }`}
+      {historySearch.searching && onStopSearch && (
+        <button className="timeline__history-action" onClick={onStopSearch}>
+          Stop
+        </button>
+      )}
+    </div>
+  );
+
+  if (logs.length === 0 && openSession) {
+    return (
+      <div className="timeline">
+        <div className="timeline__empty">
+          <div className="timeline__empty-icon">
+            <TerminalIcon size={48} />
+          </div>
+          <h2 className="timeline__empty-title">
+            {sessionLoading ? "Loading session…" : "No logs in this session"}
+          </h2>
+          <p className="timeline__empty-text">
+            Logs older than the server's history, or hidden by the filter, are not shown.
+          </p>
+        </div>
+        {sessionStatus}
+      </div>
+    );
+  }
+
+  if (logs.length === 0 && historySearch.enabled) {
+    return (
+      <div className="timeline">
+        <div className="timeline__empty">
+          <div className="timeline__empty-icon">
+            <SearchIcon size={48} />
+          </div>
+          <h2 className="timeline__empty-title">
+            {historySearch.searching ? "Searching history…" : "No matches in history"}
+          </h2>
+          <p className="timeline__empty-text">
+            Turn off History to return to the live timeline.
+          </p>
+        </div>
+        {searchStatus}
+      </div>
+    );
+  }
+
   if (logs.length === 0) {
     return (
       <div className="timeline">
@@ -195,6 +304,13 @@ export function Timeline() {
         </div>
       </div>
 
+      {sessionStatus}
+      {searchStatus}
+
+      {historyLoading && (
+        <div className="timeline__history-status">Loading older logs…</div>
+      )}
+
       {isPaused && (
         <button className="timeline__resume-btn" onClick={handleResumeScroll}>
           <ArrowDownIcon size={14} />
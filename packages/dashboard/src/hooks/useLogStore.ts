@@ -13,16 +13,56 @@ import {
   type AlertConfig,
   type TimeRangeFilter,
   type Bookmark,
+  type CaptureSession,
   LogLevel,
-  LOG_LEVEL_PRIORITY,
   DEFAULT_FILTER,
   DEFAULT_ALERT_CONFIG,
   MAX_LOG_ENTRIES,
+  createLogMatcher,
 } from "@chronoscribe/shared";
 import type { PatternGroup } from "../utils/patternUtils";
 import type { TimeDisplayMode } from "../utils/timeUtils";
 import { detectPattern } from "../utils/patternUtils";
 import { parseTimestamp } from "../utils/timeUtils";
+import { insertOrdered } from "../utils/ordering";
+
+/**
+ * Progress of loading older logs from the server.
+ */
+export interface HistoryState {
+  /** A history page is being received */
+  loading: boolean;
+  /** Whether the server may have older logs */
+  hasMore: boolean;
+}
+
+/**
+ * Search of the server's whole log history, shown in place of the
+ * timeline while enabled.
+ */
+export interface HistorySearchState {
+  /** Show the history search results instead of the received logs */
+  enabled: boolean;
+  /** Results are still arriving */
+  searching: boolean;
+  /** Matching logs found so far, in time order */
+  results: LogEntry[];
+  /** The server stopped at its result limit */
+  truncated: boolean;
+}
+
+/**
+ * Past capture sessions opened read-only: one replaces the timeline, two
+ * are compared side by side.
+ */
+export interface SessionView {
+  /** IDs of the sessions shown */
+  sessionIds: string[];
+  /** Logs of each session by ID, in time order */
+  logs: Record<string, LogEntry[]>;
+  /** Sessions whose logs are still arriving */
+  loading: string[];
+}
 
 /**
  * Store state interface.
@@ -39,6 +79,12 @@ interface LogStoreState {
   selectedLogId: string | null;
   showBookmarksOnly: boolean;
   timeDisplayMode: TimeDisplayMode;
+  history: HistoryState;
+  historySearch: HistorySearchState;
+
+  // Capture sessions
+  sessions: CaptureSession[];
+  sessionView: SessionView | null;
 
   // Bookmarks
   bookmarks: Map<string, Bookmark>;
@@ -51,6 +97,18 @@ interface LogStoreState {
   // Actions
   addLog: (log: LogEntry) => void;
   addLogs: (logs: LogEntry[]) => void;
+  addHistory: (logs: LogEntry[]) => void;
+  setHistoryState: (history: Partial<HistoryState>) => void;
+  setHistorySearchEnabled: (enabled: boolean) => void;
+  startHistorySearch: () => void;
+  addHistorySearchResults: (logs: LogEntry[]) => void;
+  finishHistorySearch: (truncated: boolean) => void;
+
+  setSessions: (sessions: CaptureSession[]) => void;
+  openSessionView: (sessionIds: string[]) => void;
+  closeSessionView: () => void;
+  addSessionLogs: (sessionId: string, logs: LogEntry[]) => void;
+  setSessionLoaded: (sessionId: string) => void;
   clearLogs: () => void;
 
   addSource: (source: Source) => void;
@@ -152,6 +210,29 @@ function cleanupOrphanedBookmarks(
   return cleaned;
 }
 
+/**
+ * Trim logs to MAX_LOG_ENTRIES, dropping the oldest, and clean up
+ * bookmarks of dropped logs. Returns the state update.
+ */
+function trimLogs(
+  newLogs: LogEntry[],
+  bookmarks: Map<string, Bookmark>
+): Partial<LogStoreState> {
+  if (newLogs.length > MAX_LOG_ENTRIES) {
+    const removedCount = newLogs.length - MAX_LOG_ENTRIES;
+    newLogs.splice(0, removedCount);
+
+    // Clean up bookmarks for removed logs
+    const remainingLogIds = new Set(newLogs.map((l) => l.id));
+    const cleanedBookmarks = cleanupOrphanedBookmarks(bookmarks, remainingLogIds);
+    if (cleanedBookmarks.size !== bookmarks.size) {
+      saveBookmarksToStorage(cleanedBookmarks);
+      return { logs: newLogs, bookmarks: cleanedBookmarks };
+    }
+  }
+  return { logs: newLogs };
+}
+
 /**
  * Get filtered logs based on current filter state.
  * This is a pure function used internally by the store.
@@ -161,92 +242,26 @@ function getFilteredLogsFromState(state: {
   filter: Filter;
   bookmarks: Map<string, Bookmark>;
   showBookmarksOnly: boolean;
+  historySearch: HistorySearchState;
+  sessionView: SessionView | null;
 }): LogEntry[] {
-  const { logs, filter, bookmarks, showBookmarksOnly } = state;
+  const { filter, bookmarks, showBookmarksOnly, historySearch, sessionView } = state;
+  const openSessionId = sessionView?.sessionIds.length === 1 ? sessionView.sessionIds[0] : undefined;
+  const logs = openSessionId
+    ? (sessionView?.logs[openSessionId] ?? [])
+    : historySearch.enabled
+      ? historySearch.results
+      : state.logs;
+
+  const matches = createLogMatcher(filter);
+  const now = Date.now();
 
   return logs.filter((log) => {
     // Bookmark filter
     if (showBookmarksOnly && !bookmarks.has(log.id)) {
       return false;
     }
-
-    // Time range filter
-    if (filter.timeRange.enabled) {
-      const logTime = new Date(log.timestamp).getTime();
-      const now = Date.now();
-
-      if (filter.timeRange.type === "relative" && filter.timeRange.last) {
-        const cutoff = now - filter.timeRange.last * 60 * 1000;
-        if (logTime < cutoff) return false;
-      }
-
-      if (filter.timeRange.type === "absolute") {
-        if (
-          filter.timeRange.start &&
-          logTime < new Date(filter.timeRange.start).getTime()
-        ) {
-          return false;
-        }
-        if (
-          filter.timeRange.end &&
-          logTime > new Date(filter.timeRange.end).getTime()
-        ) {
-          return false;
-        }
-      }
-    }
-
-    // Exclude sources filter
-    if (filter.excludeSources.includes(log.source)) {
-      return false;
-    }
-
-    // Include sources filter
-    if (filter.sources.length > 0) {
-      const matchesInclude = filter.sources.includes(log.source);
-      if (!matchesInclude) return false;
-    }
-
-    // Filter by level
-    const logPriority = LOG_LEVEL_PRIORITY[log.level];
-    const minPriority = LOG_LEVEL_PRIORITY[filter.minLevel];
-    if (logPriority < minPriority) {
-      return false;
-    }
-
-    // Search with regex support
-    if (filter.searchText) {
-      if (filter.searchMode === "regex") {
-        try {
-          const regex = new RegExp(filter.searchText, "i");
-          if (!regex.test(log.content)) return false;
-        } catch {
-          const searchLower = filter.searchText.toLowerCase();
-          if (!log.content.toLowerCase().includes(searchLower)) {
-            return false;
-          }
-        }
-      } else {
-        const searchLower = filter.searchText.toLowerCase();
-        if (!log.content.toLowerCase().includes(searchLower)) {
-          return false;
-        }
-      }
-    }
-
-    // Legacy regex filter
-    if (filter.regex) {
-      try {
-        const regex = new RegExp(filter.regex, "i");
-        if (!regex.test(log.content)) {
-          return false;
-        }
-      } catch {
-        // Invalid regex, skip filtering
-      }
-    }
-
-    return true;
+    return matches(log, now);
   });
 }
 
@@ -263,6 +278,10 @@ export const useLogStore = create<LogStoreState>((set, get) => ({
   selectedLogId: null,
   showBookmarksOnly: false,
   timeDisplayMode: "absolute",
+  history: { loading: false, hasMore: true },
+  historySearch: { enabled: false, searching: false, results: [], truncated: false },
+  sessions: [],
+  sessionView: null,
   bookmarks: loadBookmarksFromStorage(), // Load from localStorage on init
   patterns: new Map(),
   patternDetectionEnabled: false,
@@ -272,25 +291,10 @@ export const useLogStore = create<LogStoreState>((set, get) => ({
   addLog: (log) => {
     set((state) => {
       const enhancedLog = processLogEntry(log);
-      const newLogs = [...state.logs, enhancedLog];
+      const newLogs = insertOrdered(state.logs, [enhancedLog]);
 
       // Trim to max size and clean up orphaned bookmarks
-      if (newLogs.length > MAX_LOG_ENTRIES) {
-        const removedCount = newLogs.length - MAX_LOG_ENTRIES;
-        newLogs.splice(0, removedCount);
-
-        // Clean up bookmarks for removed logs
-        const remainingLogIds = new Set(newLogs.map((l) => l.id));
-        const cleanedBookmarks = cleanupOrphanedBookmarks(
-          state.bookmarks,
-          remainingLogIds
-        );
-        if (cleanedBookmarks.size !== state.bookmarks.size) {
-          saveBookmarksToStorage(cleanedBookmarks);
-          return { logs: newLogs, bookmarks: cleanedBookmarks };
-        }
-      }
-      return { logs: newLogs };
+      return trimLogs(newLogs, state.bookmarks);
     });
   },
 
@@ -298,25 +302,99 @@ export const useLogStore = create<LogStoreState>((set, get) => ({
     set((state) => {
       // Process each log to parse timestamps (same as addLog)
       const processedLogs = logs.map(processLogEntry);
-      const newLogs = [...state.logs, ...processedLogs];
+      const newLogs = insertOrdered(state.logs, processedLogs);
 
       // Trim to max size and clean up orphaned bookmarks
-      if (newLogs.length > MAX_LOG_ENTRIES) {
-        const removedCount = newLogs.length - MAX_LOG_ENTRIES;
-        newLogs.splice(0, removedCount);
-
-        // Clean up bookmarks for removed logs
-        const remainingLogIds = new Set(newLogs.map((l) => l.id));
-        const cleanedBookmarks = cleanupOrphanedBookmarks(
-          state.bookmarks,
-          remainingLogIds
-        );
-        if (cleanedBookmarks.size !== state.bookmarks.size) {
-          saveBookmarksToStorage(cleanedBookmarks);
-          return { logs: newLogs, bookmarks: cleanedBookmarks };
-        }
-      }
-      return { logs: newLogs };
+      return trimLogs(newLogs, state.bookmarks);
+    });
+  },
+
+  addHistory: (logs) => {
+    set((state) => {
+      // Pages overlap the logs already held at their boundary
+      const knownIds = new Set(state.logs.map((l) => l.id));
+      const olderLogs = logs.filter((l) => !knownIds.has(l.id)).map(processLogEntry);
+      if (olderLogs.length === 0) return state;
+
+      return trimLogs(insertOrdered(state.logs, olderLogs), state.bookmarks);
+    });
+  },
+
+  setHistoryState: (history) => {
+    set((state) => ({
+      history: { ...state.history, ...history },
+    }));
+  },
+
+  setHistorySearchEnabled: (enabled) => {
+    set({
+      historySearch: { enabled, searching: false, results: [], truncated: false },
+    });
+  },
+
+  startHistorySearch: () => {
+    set((state) => ({
+      historySearch: { ...state.historySearch, searching: true, results: [], truncated: false },
+    }));
+  },
+
+  addHistorySearchResults: (logs) => {
+    set((state) => ({
+      historySearch: {
+        ...state.historySearch,
+        results: insertOrdered(state.historySearch.results, logs.map(processLogEntry)),
+      },
+    }));
+  },
+
+  finishHistorySearch: (truncated) => {
+    set((state) => ({
+      historySearch: { ...state.historySearch, searching: false, truncated },
+    }));
+  },
+
+  // Capture session actions
+  setSessions: (sessions) => {
+    set({ sessions });
+  },
+
+  openSessionView: (sessionIds) => {
+    set({
+      sessionView: {
+        sessionIds,
+        logs: Object.fromEntries(sessionIds.map((id) => [id, []])),
+        loading: sessionIds,
+      },
+    });
+  },
+
+  closeSessionView: () => {
+    set({ sessionView: null });
+  },
+
+  addSessionLogs: (sessionId, logs) => {
+    set((state) => {
+      const view = state.sessionView;
+      const current = view?.logs[sessionId];
+      if (!view || !current) return state;
+
+      return {
+        sessionView: {
+          ...view,
+          logs: { ...view.logs, [sessionId]: insertOrdered(current, logs.map(processLogEntry)) },
+        },
+      };
+    });
+  },
+
+  setSessionLoaded: (sessionId) => {
+    set((state) => {
+      const view = state.sessionView;
+      if (!view) return state;
+
+      return {
+        sessionView: { ...view, loading: view.loading.filter((id) => id !== sessionId) },
+      };
     });
   },
 
@@ -615,12 +693,16 @@ export function useFilteredLogs(): LogEntry[] {
   const filter = useLogStore((state) => state.filter);
   const bookmarks = useLogStore((state) => state.bookmarks);
   const showBookmarksOnly = useLogStore((state) => state.showBookmarksOnly);
+  const historySearch = useLogStore((state) => state.historySearch);
+  const sessionView = useLogStore((state) => state.sessionView);
 
   return getFilteredLogsFromState({
     logs,
     filter,
     bookmarks,
     showBookmarksOnly,
+    historySearch,
+    sessionView,
   });
 }
 
@@ -645,6 +727,13 @@ export function useUniqueSourceNames(): string[] {
  */
 export function useSelectedLog(): LogEntry | null {
   const logs = useLogStore((state) => state.logs);
+  const results = useLogStore((state) => state.historySearch.results);
+  const sessionView = useLogStore((state) => state.sessionView);
   const selectedLogId = useLogStore((state) => state.selectedLogId);
-  return logs.find((log) => log.id === selectedLogId) || null;
+  const sessionLogs = sessionView ? Object.values(sessionView.logs) : [];
+  return (
+    [logs, results, ...sessionLogs]
+      .map((list) => list.find((log) => log.id === selectedLogId))
+      .find((log) => log !== undefined) || null
+  );
 }
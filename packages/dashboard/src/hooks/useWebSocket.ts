@@ -9,6 +9,8 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import {
     SERVER_DEFAULTS,
     parseMessage,
+    serializeMessage,
+    type ClientMessage,
     type ServerMessage,
 } from '@chronoscribe/shared';
 
@@ -46,6 +48,8 @@ interface UseWebSocketResult {
     reconnectAttempts: number;
     /** Manually reconnect */
     reconnect: () => void;
+    /** Send a message; returns false if not connected */
+    send: (message: ClientMessage) => boolean;
 }
 
 /**
@@ -154,6 +158,15 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketResult {
         connect();
     }, [connect]);
 
+    const send = useCallback((message: ClientMessage): boolean => {
+        const ws = wsRef.current;
+        if (!ws || ws.readyState !== WebSocket.OPEN) {
+            return false;
+        }
+        ws.send(serializeMessage(message));
+        return true;
+    }, []);
+
     useEffect(() => {
         connect();
 
@@ -177,5 +190,6 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketResult {
         status,
         reconnectAttempts,
         reconnect,
+        send,
     };
 }
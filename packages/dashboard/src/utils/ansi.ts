@@ -0,0 +1,277 @@
+/**
+ * @fileoverview ANSI escape sequence parsing for styled log content
+ */
+
+import type { CSSProperties } from "react";
+import { highlightText, type TextSegment } from "./filter";
+
+/**
+ * A run of text with a single style.
+ */
+export interface AnsiSpan {
+  text: string;
+  style: CSSProperties;
+}
+
+/**
+ * A styled span split into highlighted and plain segments.
+ */
+export interface HighlightedSpan {
+  style: CSSProperties;
+  segments: TextSegment[];
+}
+
+/**
+ * Current SGR (Select Graphic Rendition) state.
+ */
+interface AnsiState {
+  foreground?: string;
+  background?: string;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  inverse: boolean;
+  strikethrough: boolean;
+}
+
+/**
+ * The 16 standard colors, tuned for the dark theme.
+ */
+const ANSI_COLORS = [
+  "#484f58", // black
+  "#ff7b72", // red
+  "#3fb950", // green
+  "#d29922", // yellow
+  "#58a6ff", // blue
+  "#bc8cff", // magenta
+  "#39c5cf", // cyan
+  "#b1bac4", // white
+  "#6e7681", // bright black
+  "#ffa198", // bright red
+  "#56d364", // bright green
+  "#e3b341", // bright yellow
+  "#79c0ff", // bright blue
+  "#d2a8ff", // bright magenta
+  "#56d4dd", // bright cyan
+  "#f0f6fc", // bright white
+];
+
+/**
+ * Escape sequences: CSI (captures parameters and final byte), OSC, and
+ * other two-character escapes.
+ */
+const ESCAPE_PATTERN =
+  /\u001b\[([0-?]*)[ -/]*([@-~])|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+/**
+ * Whether text contains ANSI escape sequences.
+ */
+export function hasAnsi(text: string): boolean {
+  return text.includes("\u001b");
+}
+
+/**
+ * Split text into styled spans. Only color and text attribute (SGR)
+ * sequences are rendered; cursor movement and other sequences are dropped.
+ */
+export function parseAnsi(text: string): AnsiSpan[] {
+  const spans: AnsiSpan[] = [];
+  const state: AnsiState = createState();
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  ESCAPE_PATTERN.lastIndex = 0;
+  while ((match = ESCAPE_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      spans.push({ text: text.slice(lastIndex, match.index), style: toStyle(state) });
+    }
+    if (match[2] === "m") {
+      applySgr(state, match[1] ?? "");
+    }
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    spans.push({ text: text.slice(lastIndex), style: toStyle(state) });
+  }
+
+  return spans;
+}
+
+/**
+ * Highlight search matches in styled spans. Matches are found in the
+ * plain text, so a match may cross a color change, and are then split
+ * at span boundaries.
+ */
+export function highlightSpans(
+  spans: AnsiSpan[],
+  searchText: string,
+  searchMode: "text" | "regex" = "text"
+): HighlightedSpan[] {
+  const plain = spans.map((span) => span.text).join("");
+
+  const ranges: Array<[number, number]> = [];
+  let offset = 0;
+  for (const segment of highlightText(plain, searchText, searchMode)) {
+    if (segment.highlighted) {
+      ranges.push([offset, offset + segment.text.length]);
+    }
+    offset += segment.text.length;
+  }
+
+  let start = 0;
+  return spans.map((span) => {
+    const end = start + span.text.length;
+    const segments: TextSegment[] = [];
+    let position = start;
+
+    for (const [from, to] of ranges) {
+      if (to <= position || from >= end) continue;
+      if (from > position) {
+        segments.push({ text: plain.slice(position, from), highlighted: false });
+      }
+      const stop = Math.min(to, end);
+      segments.push({ text: plain.slice(Math.max(from, position), stop), highlighted: true });
+      position = stop;
+    }
+    if (position < end) {
+      segments.push({ text: plain.slice(position, end), highlighted: false });
+    }
+
+    start = end;
+    return { style: span.style, segments };
+  });
+}
+
+/**
+ * Initial (reset) state.
+ */
+function createState(): AnsiState {
+  return {
+    bold: false,
+    dim: false,
+    italic: false,
+    underline: false,
+    inverse: false,
+    strikethrough: false,
+  };
+}
+
+/**
+ * Apply the parameters of an SGR sequence (`ESC[...m`) to the state.
+ */
+function applySgr(state: AnsiState, params: string): void {
+  const codes = params === "" ? [0] : params.split(/[;:]/).map((p) => Number(p) || 0);
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i] ?? 0;
+
+    if (code === 0) {
+      Object.assign(state, createState(), { foreground: undefined, background: undefined });
+    } else if (code === 1) {
+      state.bold = true;
+    } else if (code === 2) {
+      state.dim = true;
+    } else if (code === 3) {
+      state.italic = true;
+    } else if (code === 4) {
+      state.underline = true;
+    } else if (code === 7) {
+      state.inverse = true;
+    } else if (code === 9) {
+      state.strikethrough = true;
+    } else if (code === 22) {
+      state.bold = false;
+      state.dim = false;
+    } else if (code === 23) {
+      state.italic = false;
+    } else if (code === 24) {
+      state.underline = false;
+    } else if (code === 27) {
+      state.inverse = false;
+    } else if (code === 29) {
+      state.strikethrough = false;
+    } else if (code >= 30 && code <= 37) {
+      state.foreground = ANSI_COLORS[code - 30];
+    } else if (code >= 90 && code <= 97) {
+      state.foreground = ANSI_COLORS[code - 90 + 8];
+    } else if (code === 39) {
+      state.foreground = undefined;
+    } else if (code >= 40 && code <= 47) {
+      state.background = ANSI_COLORS[code - 40];
+    } else if (code >= 100 && code <= 107) {
+      state.background = ANSI_COLORS[code - 100 + 8];
+    } else if (code === 49) {
+      state.background = undefined;
+    } else if (code === 38 || code === 48) {
+      // Extended colors: 38;5;n (256-color) or 38;2;r;g;b (truecolor)
+      const [color, consumed] = readExtendedColor(codes, i + 1);
+      if (code === 38) state.foreground = color;
+      else state.background = color;
+      i += consumed;
+    }
+  }
+}
+
+/**
+ * Read a 256-color or truecolor value starting at `start`.
+ * Returns the CSS color and the number of parameters consumed.
+ */
+function readExtendedColor(codes: number[], start: number): [string | undefined, number] {
+  const mode = codes[start];
+  if (mode === 5) {
+    return [color256(codes[start + 1] ?? 0), 2];
+  }
+  if (mode === 2) {
+    const r = codes[start + 1] ?? 0;
+    const g = codes[start + 2] ?? 0;
+    const b = codes[start + 3] ?? 0;
+    return [`rgb(${r}, ${g}, ${b})`, 4];
+  }
+  return [undefined, 0];
+}
+
+/**
+ * Convert a 256-color palette index to a CSS color.
+ */
+function color256(index: number): string | undefined {
+  if (index < 16) {
+    return ANSI_COLORS[index];
+  }
+  if (index < 232) {
+    // 6x6x6 color cube
+    const value = index - 16;
+    const levels = [0, 95, 135, 175, 215, 255];
+    const r = levels[Math.floor(value / 36)] ?? 0;
+    const g = levels[Math.floor(value / 6) % 6] ?? 0;
+    const b = levels[value % 6] ?? 0;
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+  // Grayscale ramp
+  const gray = 8 + (index - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+/**
+ * Convert the state to inline CSS.
+ */
+function toStyle(state: AnsiState): CSSProperties {
+  const style: CSSProperties = {};
+  const foreground = state.inverse ? state.background ?? "var(--color-bg-primary)" : state.foreground;
+  const background = state.inverse ? state.foreground ?? "var(--color-text-primary)" : state.background;
+
+  if (foreground) style.color = foreground;
+  if (background) style.backgroundColor = background;
+  if (state.bold) style.fontWeight = "var(--font-weight-semibold)";
+  if (state.dim) style.opacity = 0.6;
+  if (state.italic) style.fontStyle = "italic";
+
+  const decorations = [
+    state.underline ? "underline" : "",
+    state.strikethrough ? "line-through" : "",
+  ].filter(Boolean);
+  if (decorations.length > 0) style.textDecoration = decorations.join(" ");
+
+  return style;
+}
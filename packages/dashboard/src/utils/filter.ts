@@ -2,6 +2,11 @@
  * @fileoverview Filter utilities for log searching and highlighting
  */
 
+import { formatFieldValue, type LogFields } from "@chronoscribe/shared";
+
+// Shared with the server, which filters logs for subscribed viewers
+export { formatFieldValue, matchFieldQuery } from "@chronoscribe/shared";
+
 /**
  * Highlight matching text in content.
  * Returns an array of segments with highlighted flag.
@@ -126,6 +131,18 @@ function highlightWithText(content: string, searchText: string): TextSegment[] {
     : [{ text: content, highlighted: false }];
 }
 
+/**
+ * Format the scalar fields of a log as `key=value` pairs for inline display.
+ */
+export function formatInlineFields(fields: LogFields | undefined, max = 6): string {
+  if (!fields) return "";
+  return Object.entries(fields)
+    .filter(([, value]) => value === null || typeof value !== "object")
+    .slice(0, max)
+    .map(([key, value]) => `${key}=${formatFieldValue(value)}`)
+    .join(" ");
+}
+
 /**
  * Format a timestamp for display.
  */
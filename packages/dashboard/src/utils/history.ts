@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Paging back through the server's log history
+ */
+
+import { MAX_LOG_ENTRIES, type LogEntry } from "@chronoscribe/shared";
+import type { HistoryState } from "../hooks/useLogStore";
+import { getLogTime } from "./ordering";
+
+/**
+ * A request for the page of logs before a time (the newest when unset).
+ */
+export interface HistoryPageRequest {
+  before: number | undefined;
+  limit: number;
+}
+
+/**
+ * The request for the page before the oldest log held, or null if none
+ * should be made: a page is still loading, the server has nothing older,
+ * or the timeline is full.
+ */
+export function olderPageRequest(
+  logs: LogEntry[],
+  history: HistoryState,
+  pageSize: number
+): HistoryPageRequest | null {
+  if (history.loading || !history.hasMore || logs.length >= MAX_LOG_ENTRIES) return null;
+
+  const oldest = logs[0];
+  return {
+    before: oldest ? getLogTime(oldest) : undefined,
+    limit: Math.min(pageSize, MAX_LOG_ENTRIES - logs.length),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Timeline ordering for log entries
+ */
+
+import type { LogEntry } from "@chronoscribe/shared";
+
+/**
+ * Time used to order a log: the CLI's capture time when known,
+ * otherwise the server timestamp.
+ */
+export function getLogTime(log: LogEntry): number {
+  return log.capturedAt ?? new Date(log.timestamp).getTime();
+}
+
+/**
+ * Compare two logs by time, then by sequence within the same source.
+ */
+function compareLogs(a: LogEntry, b: LogEntry): number {
+  const diff = getLogTime(a) - getLogTime(b);
+  if (diff !== 0) return diff;
+  if (a.source === b.source && a.sequence !== undefined && b.sequence !== undefined) {
+    return a.sequence - b.sequence;
+  }
+  return 0;
+}
+
+/**
+ * Insert logs into a time-ordered list, returning a new array.
+ * Logs that arrive in order are appended; late ones (e.g. lines buffered
+ * during a reconnect) are placed by capture time. Ties keep arrival order.
+ */
+export function insertOrdered(logs: LogEntry[], incoming: LogEntry[]): LogEntry[] {
+  const result = logs.slice();
+
+  for (const log of incoming) {
+    const last = result[result.length - 1];
+    if (!last || compareLogs(log, last) >= 0) {
+      result.push(log);
+      continue;
+    }
+
+    // Insert after the last entry that is not later than this one
+    let low = 0;
+    let high = result.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareLogs(result[mid], log) <= 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    result.splice(low, 0, log);
+  }
+
+  return result;
+}
@@ -250,3 +250,16 @@ export function getUpdateInterval(timestamp: string | Date): number {
     if (seconds < 86400) return 60000; // Every minute for hours
     return 300000; // Every 5 minutes for days+
 }
+
+/**
+ * Format a duration (e.g., "4m 12s").
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
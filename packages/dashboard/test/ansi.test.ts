@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Tests for ANSI parsing and search highlighting in styled logs
+ */
+
+import { describe, expect, it } from "vitest";
+import { highlightSpans, parseAnsi } from "../src/utils/ansi";
+
+describe("parseAnsi", () => {
+  it("splits text at color changes and resets on 0 or empty parameters", () => {
+    expect(parseAnsi("a\u001b[31mb\u001b[0mc\u001b[1md\u001b[me")).toEqual([
+      { text: "a", style: {} },
+      { text: "b", style: { color: "#ff7b72" } },
+      { text: "c", style: {} },
+      { text: "d", style: { fontWeight: "var(--font-weight-semibold)" } },
+      { text: "e", style: {} },
+    ]);
+  });
+
+  it("reads 256-color and truecolor values", () => {
+    expect(parseAnsi("\u001b[38;5;196mx").map((span) => span.style)).toEqual([{ color: "rgb(255, 0, 0)" }]);
+    expect(parseAnsi("\u001b[38;5;9mx").map((span) => span.style)).toEqual([{ color: "#ffa198" }]);
+    expect(parseAnsi("\u001b[48;5;244mx").map((span) => span.style)).toEqual([
+      { backgroundColor: "rgb(128, 128, 128)" },
+    ]);
+    expect(parseAnsi("\u001b[38:2:10:20:30;48;2;1;2;3mx").map((span) => span.style)).toEqual([
+      { color: "rgb(10, 20, 30)", backgroundColor: "rgb(1, 2, 3)" },
+    ]);
+  });
+
+  it("consumes the parameters of an extended color before the next code", () => {
+    // 38;5;1 is a palette color, so the 4 that follows is underline
+    expect(parseAnsi("\u001b[38;5;1;4mx").map((span) => span.style)).toEqual([
+      { color: "#ff7b72", textDecoration: "underline" },
+    ]);
+    // After truecolor, 1 is bold rather than part of the color
+    expect(parseAnsi("\u001b[48;2;0;0;0;1mx").map((span) => span.style)).toEqual([
+      { backgroundColor: "rgb(0, 0, 0)", fontWeight: "var(--font-weight-semibold)" },
+    ]);
+  });
+
+  it("drops cursor movement and hyperlink sequences", () => {
+    expect(parseAnsi("\u001b[2K\u001b]8;;http://x\u0007link\u001b]8;;\u0007")).toEqual([{ text: "link", style: {} }]);
+  });
+});
+
+describe("highlightSpans", () => {
+  it("highlights a match that crosses a color change", () => {
+    const spans = parseAnsi("\u001b[1mBear\u001b[0mer token");
+
+    expect(highlightSpans(spans, "bearer")).toEqual([
+      { style: spans[0]?.style, segments: [{ text: "Bear", highlighted: true }] },
+      {
+        style: {},
+        segments: [
+          { text: "er", highlighted: true },
+          { text: " token", highlighted: false },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps spans whole without a search", () => {
+    const spans = parseAnsi("\u001b[32mok\u001b[0m done");
+
+    expect(highlightSpans(spans, "").map((span) => span.segments)).toEqual([
+      [{ text: "ok", highlighted: false }],
+      [{ text: " done", highlighted: false }],
+    ]);
+  });
+
+  it("highlights several regex matches within one span", () => {
+    const [span] = highlightSpans(parseAnsi("a1b22c"), "\\d+", "regex");
+
+    expect(span?.segments).toEqual([
+      { text: "a", highlighted: false },
+      { text: "1", highlighted: true },
+      { text: "b", highlighted: false },
+      { text: "22", highlighted: true },
+      { text: "c", highlighted: false },
+    ]);
+  });
+});
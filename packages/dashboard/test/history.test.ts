@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Tests for loading older logs into the timeline
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LogLevel, MAX_LOG_ENTRIES, type LogEntry } from "@chronoscribe/shared";
+import { useLogStore } from "../src/hooks/useLogStore";
+import { olderPageRequest } from "../src/utils/history";
+
+// The store keeps bookmarks in localStorage from the moment it is created
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+  });
+});
+
+function log(id: string, capturedAt: number): LogEntry {
+  return {
+    id,
+    timestamp: new Date(capturedAt).toISOString(),
+    capturedAt,
+    source: "api",
+    level: LogLevel.INFO,
+    content: id,
+    raw: id,
+  };
+}
+
+const ids = () => useLogStore.getState().logs.map((entry) => entry.id);
+
+beforeEach(() => {
+  useLogStore.getState().clearLogs();
+});
+
+describe("olderPageRequest", () => {
+  const idle = { loading: false, hasMore: true };
+
+  it("asks for the page before the oldest log held", () => {
+    expect(olderPageRequest([log("a", 1000), log("b", 2000)], idle, 500)).toEqual({ before: 1000, limit: 500 });
+    expect(olderPageRequest([], idle, 500)).toEqual({ before: undefined, limit: 500 });
+  });
+
+  it("asks only for as many logs as the timeline has room for", () => {
+    const logs = Array.from({ length: MAX_LOG_ENTRIES - 10 }, (_, i) => log(`l${i}`, i));
+
+    expect(olderPageRequest(logs, idle, 500)?.limit).toBe(10);
+    expect(olderPageRequest([...logs, ...logs.slice(0, 10)], idle, 500)).toBeNull();
+  });
+
+  it("waits for the page being loaded and stops when the server has no more", () => {
+    expect(olderPageRequest([log("a", 1)], { loading: true, hasMore: true }, 500)).toBeNull();
+    expect(olderPageRequest([log("a", 1)], { loading: false, hasMore: false }, 500)).toBeNull();
+  });
+});
+
+describe("useLogStore.addHistory", () => {
+  it("inserts an older page before the logs held, skipping the overlap", () => {
+    const { addLogs, addHistory } = useLogStore.getState();
+    addLogs([log("c", 3000), log("d", 4000)]);
+
+    // Pages are sent newest first, and overlap at the cursor
+    addHistory([log("b", 2000), log("c", 3000)]);
+    addHistory([log("a", 1000)]);
+
+    expect(ids()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("keeps the next request going from the new oldest log", () => {
+    const { addLogs, addHistory } = useLogStore.getState();
+    addLogs([log("c", 3000)]);
+    addHistory([log("a", 1000), log("b", 2000)]);
+
+    const { logs, history } = useLogStore.getState();
+    expect(olderPageRequest(logs, { ...history, loading: false, hasMore: true }, 100)?.before).toBe(1000);
+  });
+});
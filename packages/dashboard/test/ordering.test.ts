@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Tests for timeline ordering
+ */
+
+import { describe, expect, it } from "vitest";
+import { LogLevel, type LogEntry } from "@chronoscribe/shared";
+import { insertOrdered } from "../src/utils/ordering";
+
+function log(id: string, capturedAt: number, source = "api", sequence?: number): LogEntry {
+  return {
+    id,
+    timestamp: new Date(capturedAt).toISOString(),
+    capturedAt,
+    sequence,
+    source,
+    level: LogLevel.INFO,
+    content: id,
+    raw: id,
+  };
+}
+
+const ids = (logs: LogEntry[]) => logs.map((entry) => entry.id);
+
+describe("insertOrdered", () => {
+  it("appends logs that arrive in order", () => {
+    expect(ids(insertOrdered([log("a", 1)], [log("b", 2), log("c", 3)]))).toEqual(["a", "b", "c"]);
+  });
+
+  it("places late logs by capture time, after equal times", () => {
+    const logs = [log("a", 1), log("b", 2, "web"), log("c", 5)];
+    expect(ids(insertOrdered(logs, [log("late", 2)]))).toEqual(["a", "b", "late", "c"]);
+  });
+
+  it("orders equal times from one source by sequence", () => {
+    const logs = [log("second", 1, "api", 2)];
+    expect(ids(insertOrdered(logs, [log("first", 1, "api", 1)]))).toEqual(["first", "second"]);
+  });
+
+  it("falls back to the server timestamp", () => {
+    const early: LogEntry = { ...log("early", 0), capturedAt: undefined, timestamp: "2024-01-01T00:00:00.000Z" };
+    const logs = [log("later", Date.parse("2024-01-02T00:00:00.000Z"))];
+    expect(ids(insertOrdered(logs, [early]))).toEqual(["early", "later"]);
+  });
+
+  it("does not modify the original list", () => {
+    const logs = [log("a", 1)];
+    insertOrdered(logs, [log("b", 2)]);
+    expect(ids(logs)).toEqual(["a"]);
+  });
+});
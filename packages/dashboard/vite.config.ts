@@ -8,6 +8,11 @@ export default defineConfig({
     base: './',
     server: {
         port: 3211,
+        // The dev server (`npm run dev`) serves the HTTP API on its own port
+        proxy: {
+            '/api': 'http://localhost:3212',
+            '/v1': 'http://localhost:3212',
+        },
     },
     build: {
         // Build to root dist/dashboard for bundled CLI
@@ -10,6 +10,10 @@ import {
     ClientType,
     MessageType,
     SOURCE_COLORS,
+    createLogMatcher,
+    type Filter,
+    type LogEntry,
+    type LogMatcher,
     type Source,
     type ServerMessage,
     serializeMessage,
@@ -19,14 +23,16 @@ import {
  * Represents a connected client (either source or viewer).
  */
 export interface ConnectedClient {
-    /** WebSocket connection */
-    ws: WebSocket;
+    /** WebSocket connection (null for sources received by a network listener) */
+    ws: WebSocket | null;
     /** Unique client ID */
     id: string;
     /** Client type */
     type: ClientType;
     /** Source info (only for SOURCE clients) */
     source?: Source;
+    /** Logs this viewer subscribed to (all logs when unset) */
+    filter?: LogMatcher;
 }
 
 /**
@@ -65,24 +71,29 @@ export class ConnectionManager {
     }
 
     /**
-     * Register a new viewer (dashboard) connection.
+     * Register a new viewer (dashboard) connection, optionally with the
+     * filter it already subscribed to.
      */
-    registerViewer(ws: WebSocket, clientId: string): ConnectedClient {
+    registerViewer(ws: WebSocket, clientId: string, filter: Filter | null = null): ConnectedClient {
         const client: ConnectedClient = {
             ws,
             id: clientId,
             type: ClientType.VIEWER,
         };
+        if (filter) {
+            client.filter = createLogMatcher(filter);
+        }
         this.clients.set(clientId, client);
         console.log(`[ConnectionManager] Viewer connected: ${clientId}`);
         return client;
     }
 
     /**
-     * Register a new source (CLI) connection.
+     * Register a new source: a CLI connection, or a source received by a
+     * network listener (without a WebSocket).
      */
     registerSource(
-        ws: WebSocket,
+        ws: WebSocket | null,
         clientId: string,
         name: string,
         preferredColor?: string
@@ -174,9 +185,47 @@ export class ConnectionManager {
      */
     broadcastToViewers(message: ServerMessage): void {
         const serialized = serializeMessage(message);
-        for (const client of this.getViewers()) {
-            if (client.ws.readyState === client.ws.OPEN) {
-                client.ws.send(serialized);
+        for (const { ws } of this.getViewers()) {
+            if (ws && ws.readyState === ws.OPEN) {
+                ws.send(serialized);
+            }
+        }
+    }
+
+    /**
+     * Set the filter for the logs a viewer receives (null = all logs).
+     */
+    setViewerFilter(clientId: string, filter: Filter | null): void {
+        const client = this.clients.get(clientId);
+        if (!client || client.type !== ClientType.VIEWER) return;
+
+        if (filter) {
+            client.filter = createLogMatcher(filter);
+        } else {
+            delete client.filter;
+        }
+    }
+
+    /**
+     * Broadcast new log entries to viewers, each receiving only the
+     * entries matching its subscription.
+     */
+    broadcastLogs(entries: LogEntry[]): void {
+        let unfiltered: string | null = null;
+        const now = Date.now();
+
+        for (const { ws, filter } of this.getViewers()) {
+            if (!ws || ws.readyState !== ws.OPEN) continue;
+
+            if (!filter) {
+                unfiltered ??= serializeMessage(toBroadcast(entries));
+                ws.send(unfiltered);
+                continue;
+            }
+
+            const matching = entries.filter((entry) => filter(entry, now));
+            if (matching.length > 0) {
+                ws.send(serializeMessage(toBroadcast(matching)));
             }
         }
     }
@@ -185,9 +234,9 @@ export class ConnectionManager {
      * Send a message to a specific client.
      */
     sendToClient(clientId: string, message: ServerMessage): void {
-        const client = this.clients.get(clientId);
-        if (client && client.ws.readyState === client.ws.OPEN) {
-            client.ws.send(serializeMessage(message));
+        const ws = this.clients.get(clientId)?.ws;
+        if (ws && ws.readyState === ws.OPEN) {
+            ws.send(serializeMessage(message));
         }
     }
 
@@ -200,3 +249,14 @@ export class ConnectionManager {
         return { sources, viewers, total: sources + viewers };
     }
 }
+
+/**
+ * Wrap entries in a broadcast message: a single entry, or a batch.
+ */
+function toBroadcast(entries: LogEntry[]): ServerMessage {
+    const [first] = entries;
+    if (entries.length === 1 && first) {
+        return { type: MessageType.LOG_BROADCAST, payload: first };
+    }
+    return { type: MessageType.LOG_BROADCAST_BATCH, payload: { logs: entries } };
+}
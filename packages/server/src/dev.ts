@@ -5,4 +5,9 @@ const port = process.env['CHRONOSCRIBE_PORT']
     ? parseInt(process.env['CHRONOSCRIBE_PORT'], 10)
     : SERVER_DEFAULTS.WS_PORT;
 
-startServer({ wsPort: port });
+// The Vite dev server holds the dashboard port and proxies API requests here
+const httpPort = process.env['CHRONOSCRIBE_HTTP_PORT']
+    ? parseInt(process.env['CHRONOSCRIBE_HTTP_PORT'], 10)
+    : 3212;
+
+startServer({ wsPort: port, httpPort });
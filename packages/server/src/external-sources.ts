@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Sources received without a CLI connection
+ *
+ * Lines arriving through the syslog, TCP and HTTP listeners have no WebSocket
+ * connection to register with. This registry gives each sender (app-name,
+ * host or remote peer) a source in the ConnectionManager, like a CLI
+ * client, and removes it once the sender goes quiet or disconnects.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ConnectionManager } from './connection-manager.js';
+import type { LogBroadcaster } from './log-broadcaster.js';
+
+/**
+ * Sources that send nothing for this long are disconnected.
+ */
+const EXTERNAL_SOURCE_IDLE_MS = 5 * 60_000;
+
+/**
+ * How often idle sources are looked for.
+ */
+const IDLE_SWEEP_INTERVAL_MS = 30_000;
+
+/**
+ * A registered external source.
+ */
+export interface ExternalSource {
+    /** Client ID in the ConnectionManager */
+    id: string;
+    /** Source name shown in the dashboard (made unique by the ConnectionManager) */
+    name: string;
+    lastSeen: number;
+}
+
+/**
+ * Registers and expires sources for the network listeners.
+ */
+export class ExternalSources {
+    /** Sources by the name the sender asked for */
+    private sources: Map<string, ExternalSource> = new Map();
+
+    private readonly connectionManager: ConnectionManager;
+    private readonly logBroadcaster: LogBroadcaster;
+
+    constructor(connectionManager: ConnectionManager, logBroadcaster: LogBroadcaster) {
+        this.connectionManager = connectionManager;
+        this.logBroadcaster = logBroadcaster;
+        setInterval(() => this.removeIdle(), IDLE_SWEEP_INTERVAL_MS).unref();
+    }
+
+    /**
+     * Get the source for a sender, registering it on first use.
+     */
+    acquire(name: string): ExternalSource {
+        let source = this.sources.get(name);
+        if (!source) {
+            const client = this.connectionManager.registerSource(null, randomUUID(), name);
+            source = { id: client.id, name: client.source?.name ?? name, lastSeen: 0 };
+            this.sources.set(name, source);
+        }
+        source.lastSeen = Date.now();
+        return source;
+    }
+
+    /**
+     * Disconnect a sender's source, e.g. when its TCP connection closes.
+     */
+    release(name: string): void {
+        const source = this.sources.get(name);
+        if (!source) return;
+
+        this.sources.delete(name);
+        this.logBroadcaster.removeSource(source.id);
+        this.connectionManager.removeClient(source.id);
+    }
+
+    /**
+     * Disconnect sources that have been quiet for too long.
+     */
+    private removeIdle(): void {
+        const cutoff = Date.now() - EXTERNAL_SOURCE_IDLE_MS;
+        for (const [name, source] of this.sources) {
+            if (source.lastSeen < cutoff) {
+                this.release(name);
+            }
+        }
+    }
+}
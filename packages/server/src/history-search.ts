@@ -0,0 +1,164 @@
+/**
+ * @fileoverview History searches for Chronoscribe viewers
+ *
+ * Runs each viewer's search over the log history a slice at a time, so a
+ * search over a large history doesn't hold up incoming logs, and streams
+ * the matches back in SEARCH_RESULTS pages as they are found.
+ */
+
+import {
+    MessageType,
+    SERVER_DEFAULTS,
+    type Filter,
+    type LogEntry,
+    type SearchRequestMessage,
+} from '@chronoscribe/shared';
+import type { ConnectionManager } from './connection-manager.js';
+import type { LogBroadcaster } from './log-broadcaster.js';
+
+/**
+ * How long a search runs before yielding to other work.
+ */
+const SEARCH_SLICE_MS = 20;
+
+/**
+ * Results per SEARCH_RESULTS page.
+ */
+const RESULTS_PAGE_SIZE = 100;
+
+/**
+ * A search in progress.
+ */
+interface RunningSearch {
+    searchId: string;
+    chunks: Iterator<LogEntry[]>;
+    /** Results found but not sent yet */
+    found: LogEntry[];
+    /** Results still allowed */
+    remaining: number;
+    timer: NodeJS.Immediate | null;
+}
+
+/**
+ * Runs history searches, at most one per viewer.
+ */
+export class HistorySearch {
+    /** Running searches by viewer client ID */
+    private searches: Map<string, RunningSearch> = new Map();
+
+    private readonly connectionManager: ConnectionManager;
+    private readonly logBroadcaster: LogBroadcaster;
+
+    constructor(connectionManager: ConnectionManager, logBroadcaster: LogBroadcaster) {
+        this.connectionManager = connectionManager;
+        this.logBroadcaster = logBroadcaster;
+    }
+
+    /**
+     * Start a viewer's search, stopping its previous one.
+     */
+    start(clientId: string, request: SearchRequestMessage['payload'], filter: Filter): void {
+        this.stop(clientId);
+
+        const limit = typeof request.limit === 'number' && request.limit > 0
+            ? Math.min(Math.floor(request.limit), SERVER_DEFAULTS.SEARCH_RESULT_LIMIT)
+            : SERVER_DEFAULTS.SEARCH_RESULT_LIMIT;
+        const search: RunningSearch = {
+            searchId: request.searchId,
+            chunks: this.logBroadcaster.searchHistory(filter)[Symbol.iterator](),
+            found: [],
+            remaining: limit,
+            timer: null,
+        };
+        this.searches.set(clientId, search);
+        this.schedule(clientId, search);
+    }
+
+    /**
+     * Cancel a viewer's search if it is the given one.
+     */
+    cancel(clientId: string, searchId: string): void {
+        if (this.searches.get(clientId)?.searchId === searchId) {
+            this.stop(clientId);
+        }
+    }
+
+    /**
+     * Stop a viewer's search, e.g. when it disconnects.
+     */
+    stop(clientId: string): void {
+        const search = this.searches.get(clientId);
+        if (!search) return;
+
+        this.searches.delete(clientId);
+        if (search.timer) {
+            clearImmediate(search.timer);
+        }
+        search.chunks.return?.();
+    }
+
+    private schedule(clientId: string, search: RunningSearch): void {
+        search.timer = setImmediate(() => this.run(clientId, search));
+    }
+
+    /**
+     * Search for one time slice, sending full pages as they fill and the
+     * rest at the end of the slice.
+     */
+    private run(clientId: string, search: RunningSearch): void {
+        search.timer = null;
+        const deadline = Date.now() + SEARCH_SLICE_MS;
+
+        let finished = false;
+        let truncated = false;
+        try {
+            while (Date.now() < deadline) {
+                const chunk = search.chunks.next();
+                if (chunk.done) {
+                    finished = true;
+                    break;
+                }
+
+                const matches = chunk.value.slice(0, search.remaining);
+                search.remaining -= matches.length;
+                search.found.push(...matches);
+                while (search.found.length >= RESULTS_PAGE_SIZE) {
+                    this.send(clientId, search, search.found.splice(0, RESULTS_PAGE_SIZE), false, false);
+                }
+
+                if (search.remaining === 0) {
+                    finished = true;
+                    truncated = true;
+                    break;
+                }
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`[Server] History search failed: ${message}`);
+            finished = true;
+        }
+
+        if (finished) {
+            this.stop(clientId);
+            this.send(clientId, search, search.found.splice(0), true, truncated);
+            return;
+        }
+
+        if (search.found.length > 0) {
+            this.send(clientId, search, search.found.splice(0), false, false);
+        }
+        this.schedule(clientId, search);
+    }
+
+    private send(clientId: string, search: RunningSearch, logs: LogEntry[], done: boolean, truncated: boolean): void {
+        this.connectionManager.sendToClient(clientId, {
+            type: MessageType.SEARCH_RESULTS,
+            payload: {
+                searchId: search.searchId,
+                logs,
+                done,
+                truncated,
+            },
+        });
+    }
+}
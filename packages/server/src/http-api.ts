@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Helpers for the server's HTTP API routes
+ *
+ * API routes (log ingestion, OTLP) are served next to the dashboard's
+ * static files. Each route is a handler that claims the requests it serves.
+ */
+
+import http from 'node:http';
+
+/**
+ * Handles an HTTP request if it is for an API route. Returns false for
+ * requests it does not handle.
+ */
+export type ApiHandler = (req: http.IncomingMessage, res: http.ServerResponse) => boolean;
+
+/**
+ * Largest request body accepted.
+ */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Combine handlers; the first one to claim a request serves it.
+ */
+export function combineHandlers(...handlers: ApiHandler[]): ApiHandler {
+    return (req, res) => handlers.some((handler) => handler(req, res));
+}
+
+/**
+ * Parse a request's URL. Returns null if it is malformed.
+ */
+export function parseRequestUrl(req: http.IncomingMessage): URL | null {
+    try {
+        return new URL(req.url || '/', 'http://localhost');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Allow cross-origin POSTs (from browser test runners and exporters).
+ * Returns true if the request was a preflight and has been answered.
+ */
+export function handleCors(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method !== 'OPTIONS') return false;
+
+    res.statusCode = 204;
+    res.end();
+    return true;
+}
+
+/**
+ * Read a request body up to MAX_BODY_BYTES.
+ */
+export function readBody(
+    req: http.IncomingMessage,
+    callback: (error: 'too-large' | 'failed' | null, body: string) => void
+): void {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let done = false;
+
+    req.on('data', (chunk: Buffer) => {
+        if (done) return;
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            done = true;
+            callback('too-large', '');
+            req.resume();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        if (done) return;
+        done = true;
+        callback(null, Buffer.concat(chunks).toString('utf8'));
+    });
+    req.on('error', () => {
+        if (done) return;
+        done = true;
+        callback('failed', '');
+    });
+}
+
+/**
+ * Answer a failed body read with 413 or 400.
+ */
+export function sendBodyError(res: http.ServerResponse, error: 'too-large' | 'failed'): void {
+    sendJson(res, error === 'too-large' ? 413 : 400, {
+        error: error === 'too-large' ? 'Payload Too Large' : 'Could not read request body',
+    });
+}
+
+/**
+ * Answer a request whose handling failed unexpectedly with 500.
+ */
+export function sendInternalError(res: http.ServerResponse, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Server] API request failed: ${message}`);
+    if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal Server Error' });
+    }
+}
+
+/**
+ * Send a JSON response.
+ */
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Start an HTTP server that only serves API routes.
+ */
+export function startApiServer(port: number, api: ApiHandler): http.Server {
+    const server = http.createServer((req, res) => {
+        if (!api(req, res)) {
+            sendJson(res, 404, { error: 'Not Found' });
+        }
+    });
+    server.on('error', (error) => {
+        console.error(`[Server] API listener error: ${error.message}`);
+    });
+    server.listen(port);
+    return server;
+}
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview HTTP ingestion endpoint for Chronoscribe server
+ *
+ * `POST /api/ingest` accepts NDJSON, a JSON array or a single JSON object
+ * of entries, so apps that cannot pipe stdout (serverless emulators,
+ * browser test runners, CI scripts) can add to the timeline with curl.
+ */
+
+import { createLogMessage, detectLevel, normalizeLevel, type LogFields } from '@chronoscribe/shared';
+import type { ExternalSources } from './external-sources.js';
+import {
+    handleCors,
+    parseRequestUrl,
+    readBody,
+    sendBodyError,
+    sendInternalError,
+    sendJson,
+    type ApiHandler,
+} from './http-api.js';
+import type { LogBroadcaster } from './log-broadcaster.js';
+
+/**
+ * An entry as posted to the ingest endpoint.
+ */
+interface IngestEntry {
+    /** Source name (default: the `source` query parameter, or "http") */
+    source?: string;
+    /** Level name, e.g. "warn" (detected from the message when missing) */
+    level?: string;
+    message: string;
+    /** ISO 8601 string or epoch milliseconds (default: time received) */
+    timestamp?: string | number;
+    fields?: LogFields;
+}
+
+/**
+ * An entry with its source name filled in.
+ */
+type ResolvedEntry = IngestEntry & { source: string };
+
+const INGEST_PATH = '/api/ingest';
+
+/**
+ * Marks an NDJSON line that could not be parsed.
+ */
+const INVALID_JSON = Symbol('invalid JSON');
+
+/**
+ * Source name for entries that don't name one.
+ */
+const DEFAULT_SOURCE = 'http';
+
+/**
+ * Create the handler for the ingest endpoint.
+ */
+export function createIngestHandler(sources: ExternalSources, logBroadcaster: LogBroadcaster): ApiHandler {
+    return (req, res) => {
+        const url = parseRequestUrl(req);
+        if (url?.pathname !== INGEST_PATH) return false;
+
+        if (handleCors(req, res)) return true;
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendJson(res, 405, { error: 'Method Not Allowed' });
+            return true;
+        }
+
+        readBody(req, (error, body) => {
+            if (error) {
+                sendBodyError(res, error);
+                return;
+            }
+
+            try {
+                const { entries, errors } = parseEntries(body, url.searchParams.get('source') || DEFAULT_SOURCE);
+                if (entries.length === 0 && errors.length > 0) {
+                    sendJson(res, 400, { accepted: 0, errors });
+                    return;
+                }
+
+                for (const entry of entries) {
+                    ingestEntry(entry, sources, logBroadcaster);
+                }
+                sendJson(res, 200, { accepted: entries.length, errors });
+            } catch (error) {
+                sendInternalError(res, error);
+            }
+        });
+        return true;
+    };
+}
+
+/**
+ * Add one entry to the timeline through the same path as CLI logs.
+ */
+function ingestEntry(entry: ResolvedEntry, sources: ExternalSources, logBroadcaster: LogBroadcaster): void {
+    const source = sources.acquire(entry.source);
+    const time = entry.timestamp !== undefined ? new Date(entry.timestamp).getTime() : NaN;
+    const message = createLogMessage(
+        entry.message,
+        entry.message,
+        entry.level !== undefined ? normalizeLevel(entry.level) : detectLevel(entry.message),
+        typeof entry.timestamp === 'string' ? entry.timestamp : undefined,
+        {
+            ...(entry.fields ? { fields: entry.fields } : {}),
+            ...(Number.isNaN(time) ? {} : { capturedAt: time }),
+        }
+    );
+    logBroadcaster.processLog(source.id, source.name, message);
+}
+
+/**
+ * Parse a request body as a JSON array, a single JSON object, or NDJSON.
+ * Invalid entries are reported by position and skipped.
+ */
+function parseEntries(
+    body: string,
+    defaultSource: string
+): { entries: ResolvedEntry[]; errors: string[] } {
+    let items: unknown[];
+    try {
+        const parsed: unknown = JSON.parse(body);
+        items = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+        items = body.split(/\r?\n/).filter((line) => line.trim()).map((line) => {
+            try {
+                return JSON.parse(line) as unknown;
+            } catch {
+                return INVALID_JSON;
+            }
+        });
+    }
+
+    const entries: ResolvedEntry[] = [];
+    const errors: string[] = [];
+    items.forEach((item, index) => {
+        const error = validateEntry(item);
+        if (error) {
+            errors.push(`Entry ${index + 1}: ${error}`);
+        } else {
+            const entry = item as IngestEntry;
+            entries.push({ ...entry, source: entry.source || defaultSource });
+        }
+    });
+    if (items.length === 0) {
+        errors.push('No entries in request body');
+    }
+    return { entries, errors };
+}
+
+/**
+ * Check an entry's shape. Returns an error message, or null if it is valid.
+ */
+function validateEntry(item: unknown): string | null {
+    if (item === INVALID_JSON) {
+        return 'invalid JSON';
+    }
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        return 'not a JSON object';
+    }
+    const entry = item as Record<string, unknown>;
+    if (typeof entry['message'] !== 'string') return '"message" must be a string';
+    if (entry['source'] !== undefined && typeof entry['source'] !== 'string') return '"source" must be a string';
+    if (entry['level'] !== undefined && typeof entry['level'] !== 'string') return '"level" must be a string';
+    if (entry['timestamp'] !== undefined
+        && typeof entry['timestamp'] !== 'string'
+        && typeof entry['timestamp'] !== 'number') {
+        return '"timestamp" must be an ISO 8601 string or epoch milliseconds';
+    }
+    const fields = entry['fields'];
+    if (fields !== undefined && (typeof fields !== 'object' || fields === null || Array.isArray(fields))) {
+        return '"fields" must be an object';
+    }
+    return null;
+}
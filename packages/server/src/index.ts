@@ -14,14 +14,37 @@ import {
     ClientType,
     SERVER_DEFAULTS,
     parseMessage,
+    parseFilter,
+    serializeMessage,
     isMessageType,
+    type Filter,
     type SourceRegisterMessage,
     type LogMessage,
+    type LogBatchMessage,
+    type HistoryRequestMessage,
+    type SubscribeMessage,
+    type SearchRequestMessage,
+    type SearchCancelMessage,
+    type SessionsListMessage,
 } from '@chronoscribe/shared';
 import { ConnectionManager } from './connection-manager.js';
 import { LogBroadcaster } from './log-broadcaster.js';
+import { DEFAULT_HISTORY_DIR, SegmentedLogStore, type SegmentedLogStoreOptions } from './log-store.js';
+import { HistorySearch } from './history-search.js';
+import { SessionManager, SESSIONS_FILE } from './session-manager.js';
+import { ExternalSources } from './external-sources.js';
+import { startSyslogListener, startTcpLineListener } from './network-listeners.js';
+import { combineHandlers, startApiServer } from './http-api.js';
+import { createIngestHandler } from './http-ingest.js';
+import { createOtlpHandler } from './otlp-receiver.js';
 import { startStaticServer } from './static-server.js';
 
+export {
+    DEFAULT_HISTORY_DIR,
+    DEFAULT_RETENTION_DAYS,
+    DEFAULT_RETENTION_MB,
+} from './log-store.js';
+
 // Server version
 const VERSION = '0.1.0';
 
@@ -30,22 +53,56 @@ const VERSION = '0.1.0';
  */
 export interface ServerOptions {
     wsPort?: number;
+    /** Port for the dashboard and the HTTP API (log ingestion, OTLP) */
     httpPort?: number;
+    /** Built dashboard to serve (only the HTTP API is served when unset) */
     dashboardPath?: string;
+    /** Per-source ceiling in lines per second (unlimited when unset) */
+    maxSourceRate?: number;
+    /** Port for syslog over UDP and TCP (disabled when unset) */
+    syslogPort?: number;
+    /** Port for newline-delimited lines over TCP (disabled when unset) */
+    tcpPort?: number;
+    /** Extra port for the OTLP/HTTP logs endpoint, e.g. 4318 (disabled when unset) */
+    otlpPort?: number;
+    /**
+     * Keep the log history on disk across restarts (memory only when unset).
+     * Capture sessions are saved in its directory, or in the default one.
+     */
+    history?: SegmentedLogStoreOptions;
 }
 
 /**
- * Start the Chronoscribe WebSocket server and optional static dashboard server.
+ * Start the Chronoscribe WebSocket server, and the HTTP server for the API
+ * and the optional static dashboard.
  */
 export function startServer(options: ServerOptions = {}): void {
     const {
         wsPort = SERVER_DEFAULTS.WS_PORT,
         httpPort = 3211,
-        dashboardPath
+        dashboardPath,
+        maxSourceRate,
+        syslogPort,
+        tcpPort,
+        otlpPort,
+        history
     } = options;
 
     const connectionManager = new ConnectionManager();
-    const logBroadcaster = new LogBroadcaster(connectionManager);
+    const store = history ? new SegmentedLogStore(history) : undefined;
+    // Sessions are saved even without a persistent history, so they are
+    // still listed after a restart
+    const sessions = new SessionManager(connectionManager, path.join(history?.dir ?? DEFAULT_HISTORY_DIR, SESSIONS_FILE));
+    const logBroadcaster = new LogBroadcaster(connectionManager, { maxSourceRate, store, sessions });
+    // Pending history is written synchronously, so this also covers
+    // shutdown paths that call process.exit() directly
+    process.on('exit', () => logBroadcaster.close());
+    const historySearch = new HistorySearch(connectionManager, logBroadcaster);
+    const externalSources = new ExternalSources(connectionManager, logBroadcaster);
+    const api = combineHandlers(
+        createIngestHandler(externalSources, logBroadcaster),
+        createOtlpHandler(externalSources, logBroadcaster)
+    );
 
     const wss = new WebSocketServer({ port: wsPort });
 
@@ -58,8 +115,25 @@ export function startServer(options: ServerOptions = {}): void {
 `);
 
     if (dashboardPath) {
-        startStaticServer(dashboardPath, httpPort);
+        startStaticServer(dashboardPath, httpPort, api);
         console.log(`║   Dashboard running on http://localhost:${httpPort}             ║`);
+    } else {
+        // Without a dashboard (e.g. `npm run dev`), the API still gets a listener
+        startApiServer(httpPort, api);
+        console.log(`║   HTTP API running on http://localhost:${httpPort}/api          ║`);
+    }
+
+    if (syslogPort !== undefined) {
+        startSyslogListener(syslogPort, externalSources, logBroadcaster);
+        console.log(`║   Syslog listening on udp/tcp port ${syslogPort}                   ║`);
+    }
+    if (tcpPort !== undefined) {
+        startTcpLineListener(tcpPort, externalSources, logBroadcaster);
+        console.log(`║   Raw lines accepted on tcp port ${tcpPort}                     ║`);
+    }
+    if (otlpPort !== undefined) {
+        startApiServer(otlpPort, api);
+        console.log(`║   OTLP logs accepted on http://localhost:${otlpPort}/v1/logs    ║`);
     }
 
     console.log(`║                                                           ║
@@ -68,12 +142,26 @@ export function startServer(options: ServerOptions = {}): void {
 ╚═══════════════════════════════════════════════════════════╝
 `);
 
+    if (history) {
+        const restored = logBroadcaster.getStats().bufferedLogs;
+        console.log(`[Server] Log history kept in ${history.dir} (${restored} recent entries restored)`);
+    }
+
     wss.on('connection', (ws: WebSocket) => {
         const clientId = randomUUID();
 
         // Track pending registration state
         let isRegistered = false;
         let clientType: ClientType | null = null;
+        // Filter subscribed to before registration completed
+        let pendingFilter: Filter | null = null;
+
+        // Send the sessions list directly, as the sender may not be registered
+        const sendSessions = (message: SessionsListMessage) => {
+            if (ws.readyState === ws.OPEN) {
+                ws.send(serializeMessage(message));
+            }
+        };
 
         // Set up ping/pong for connection health
         const pingInterval = setInterval(() => {
@@ -82,7 +170,7 @@ export function startServer(options: ServerOptions = {}): void {
             }
         }, 30000);
 
-        ws.on('message', (data: Buffer) => {
+        const handleMessage = (data: Buffer): void => {
             const message = parseMessage(data.toString());
             if (!message) {
                 console.warn(`[Server] Invalid message from ${clientId}`);
@@ -118,15 +206,76 @@ export function startServer(options: ServerOptions = {}): void {
                 return;
             }
 
+            // Handle batched log messages from sources
+            if (isMessageType<LogBatchMessage>(message, MessageType.LOG_BATCH)) {
+                const client = connectionManager.getClient(clientId);
+                if (client && client.type === ClientType.SOURCE && client.source) {
+                    logBroadcaster.processLogBatch(clientId, client.source.name, message);
+                }
+                return;
+            }
+
+            // Handle viewer subscriptions
+            if (isMessageType<SubscribeMessage>(message, MessageType.SUBSCRIBE)) {
+                const filter = parseFilter(message.payload.filter);
+                if (!isRegistered) {
+                    pendingFilter = filter;
+                } else if (clientType === ClientType.VIEWER) {
+                    connectionManager.setViewerFilter(clientId, filter);
+                }
+                return;
+            }
+
+            // Handle history requests from viewers
+            if (isMessageType<HistoryRequestMessage>(message, MessageType.HISTORY_REQUEST)) {
+                const client = connectionManager.getClient(clientId);
+                if (client && client.type === ClientType.VIEWER && typeof message.payload.requestId === 'string') {
+                    logBroadcaster.sendHistoryPage(clientId, message.payload);
+                }
+                return;
+            }
+
+            // Handle history searches from viewers
+            if (isMessageType<SearchRequestMessage>(message, MessageType.SEARCH_REQUEST)) {
+                const client = connectionManager.getClient(clientId);
+                const filter = parseFilter(message.payload.filter);
+                if (client && client.type === ClientType.VIEWER && typeof message.payload.searchId === 'string' && filter) {
+                    historySearch.start(clientId, message.payload, filter);
+                }
+                return;
+            }
+
+            if (isMessageType<SearchCancelMessage>(message, MessageType.SEARCH_CANCEL)) {
+                historySearch.cancel(clientId, message.payload.searchId);
+                return;
+            }
+
+            // Handle capture session control (from viewers or the CLI)
+            if (sessions.handleMessage(message, clientType === ClientType.VIEWER, sendSessions)) {
+                return;
+            }
+
             // Handle heartbeat
             if (message.type === MessageType.HEARTBEAT) {
                 // Just acknowledge - the ping/pong handles actual health
                 return;
             }
+        };
+
+        ws.on('message', (data: Buffer) => {
+            // A malformed message must not take the server down
+            try {
+                handleMessage(data);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.warn(`[Server] Failed to handle message from ${clientId}: ${message}`);
+            }
         });
 
         ws.on('close', () => {
             clearInterval(pingInterval);
+            historySearch.stop(clientId);
+            logBroadcaster.removeSource(clientId);
             connectionManager.removeClient(clientId);
         });
 
@@ -137,7 +286,7 @@ export function startServer(options: ServerOptions = {}): void {
         // If no registration within 5 seconds, treat as viewer
         setTimeout(() => {
             if (!isRegistered) {
-                connectionManager.registerViewer(ws, clientId);
+                connectionManager.registerViewer(ws, clientId, pendingFilter);
                 isRegistered = true;
                 clientType = ClientType.VIEWER;
 
@@ -159,6 +308,14 @@ export function startServer(options: ServerOptions = {}): void {
                     },
                 });
 
+                // Send capture sessions
+                connectionManager.sendToClient(clientId, {
+                    type: MessageType.SESSIONS_LIST,
+                    payload: {
+                        sessions: sessions.list(),
+                    },
+                });
+
                 // Send recent logs
                 logBroadcaster.sendRecentLogsToViewer(clientId);
             }
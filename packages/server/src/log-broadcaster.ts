@@ -10,10 +10,50 @@ import {
     MessageType,
     LogLevel,
     SERVER_DEFAULTS,
+    TokenBucket,
     type LogEntry,
     type LogMessage,
+    type LogBatchMessage,
+    type HistoryRequestMessage,
+    type Filter,
+    createLogMatcher,
 } from '@chronoscribe/shared';
 import type { ConnectionManager } from './connection-manager.js';
+import { getEntryTime, type LogStore, type ReadOptions } from './log-store.js';
+import type { SessionManager } from './session-manager.js';
+
+/**
+ * How often the server reports lines it dropped over the per-source ceiling.
+ */
+const SUPPRESSED_REPORT_INTERVAL_MS = 1000;
+
+/**
+ * How long a history read runs before yielding to other work.
+ */
+const HISTORY_SLICE_MS = 20;
+
+/**
+ * Rate limit state for one source.
+ */
+interface SourceLimit {
+    bucket: TokenBucket;
+    sourceName: string;
+    suppressed: number;
+}
+
+/**
+ * Options for the log broadcaster.
+ */
+export interface LogBroadcasterOptions {
+    /** Number of recent logs kept for new viewers */
+    bufferSize?: number | undefined;
+    /** Per-source ceiling in lines per second (unlimited when unset) */
+    maxSourceRate?: number | undefined;
+    /** Persistent history; recent logs are restored from it on startup */
+    store?: LogStore | undefined;
+    /** Capture sessions, told which sources log during them */
+    sessions?: SessionManager | undefined;
+}
 
 /**
  * Manages log processing and broadcasting.
@@ -28,38 +68,198 @@ export class LogBroadcaster {
     /** Reference to connection manager */
     private readonly connectionManager: ConnectionManager;
 
-    constructor(connectionManager: ConnectionManager, bufferSize?: number) {
+    /** Per-source ceiling in lines per second (unlimited when unset) */
+    private readonly maxSourceRate: number | undefined;
+
+    /** Rate limit state by source client ID */
+    private limits: Map<string, SourceLimit> = new Map();
+
+    /** Persistent history (memory only when unset) */
+    private readonly store: LogStore | undefined;
+
+    /** Capture sessions */
+    private readonly sessions: SessionManager | undefined;
+
+    /** Last sequence number received per source, for gap detection */
+    private lastSequences: Map<string, number> = new Map();
+
+    /** History reads waiting for their next slice */
+    private historyReads: Set<NodeJS.Immediate> = new Set();
+
+    constructor(connectionManager: ConnectionManager, options: LogBroadcasterOptions = {}) {
+        const { maxSourceRate, store, sessions } = options;
         this.connectionManager = connectionManager;
-        this.bufferSize = bufferSize ?? SERVER_DEFAULTS.RECENT_LOGS_BUFFER;
+        this.bufferSize = options.bufferSize ?? SERVER_DEFAULTS.RECENT_LOGS_BUFFER;
+        this.maxSourceRate = maxSourceRate;
+        this.store = store;
+        this.sessions = sessions;
+        if (store) {
+            this.recentLogs = store.readBefore(Infinity, this.bufferSize);
+        }
+        if (maxSourceRate !== undefined) {
+            setInterval(() => this.reportSuppressed(), SUPPRESSED_REPORT_INTERVAL_MS).unref();
+        }
     }
 
     /**
      * Process an incoming log from a source and broadcast to viewers.
+     * Returns null if the log was dropped over the per-source ceiling.
      */
     processLog(sourceId: string, sourceName: string, message: LogMessage): LogEntry | null {
-        // Create the log entry
+        if (!isLogPayload(message.payload) || this.admit(sourceId, sourceName, 1) === 0) {
+            return null;
+        }
+
+        const entry = this.createEntry(sourceName, message.payload);
+        this.remember([entry]);
+
+        // Broadcast to all viewers subscribed to it
+        this.connectionManager.broadcastLogs([entry]);
+
+        return entry;
+    }
+
+    /**
+     * Process a batch of logs from a source and broadcast them to viewers
+     * as a single message. Malformed logs in the batch are skipped.
+     */
+    processLogBatch(sourceId: string, sourceName: string, message: LogBatchMessage): LogEntry[] {
+        const logs = Array.isArray(message.payload.logs) ? message.payload.logs.filter(isLogPayload) : [];
+        if (logs.length === 0) {
+            return [];
+        }
+
+        const admitted = this.admit(sourceId, sourceName, logs.length);
+        if (admitted === 0) {
+            return [];
+        }
+
+        const entries = logs
+            .slice(0, admitted)
+            .map((payload) => this.createEntry(sourceName, payload));
+        this.remember(entries);
+
+        this.connectionManager.broadcastLogs(entries);
+
+        return entries;
+    }
+
+    /**
+     * Take up to `count` lines from a source's allowance and count the rest
+     * as suppressed. Returns the number of lines admitted.
+     */
+    private admit(sourceId: string, sourceName: string, count: number): number {
+        if (this.maxSourceRate === undefined) {
+            return count;
+        }
+
+        let limit = this.limits.get(sourceId);
+        if (!limit) {
+            limit = { bucket: new TokenBucket(this.maxSourceRate), sourceName, suppressed: 0 };
+            this.limits.set(sourceId, limit);
+        }
+
+        let admitted = 0;
+        while (admitted < count && limit.bucket.take()) {
+            admitted++;
+        }
+        limit.suppressed += count - admitted;
+        return admitted;
+    }
+
+    /**
+     * Broadcast a warning entry for each source that had lines dropped
+     * since the last report, so viewers can see the gap.
+     */
+    private reportSuppressed(): void {
+        for (const limit of this.limits.values()) {
+            if (limit.suppressed === 0) continue;
+
+            const content = `Server dropped ${limit.suppressed} lines from ${limit.sourceName} (limit ${this.maxSourceRate}/s)`;
+            const entry = this.createEntry(limit.sourceName, {
+                content,
+                raw: content,
+                level: LogLevel.WARN,
+                fields: { suppressed: limit.suppressed },
+            });
+            limit.suppressed = 0;
+            this.remember([entry]);
+            this.connectionManager.broadcastLogs([entry]);
+        }
+    }
+
+    /**
+     * Forget a disconnected source's rate limit state, reporting any
+     * lines it still had suppressed.
+     */
+    removeSource(sourceId: string): void {
+        if (!this.limits.has(sourceId)) return;
+        this.reportSuppressed();
+        this.limits.delete(sourceId);
+    }
+
+    /**
+     * Create a log entry from a log message payload.
+     */
+    private createEntry(sourceName: string, payload: LogMessage['payload']): LogEntry {
+        // Prefer the CLI's capture time, so buffered lines keep their place
+        const capturedAt = this.parseCaptureTime(payload.capturedAt);
         const entry: LogEntry = {
             id: randomUUID(),
-            timestamp: new Date().toISOString(),
+            timestamp: new Date(capturedAt ?? Date.now()).toISOString(),
             source: sourceName,
-            level: this.parseLogLevel(message.payload.level),
-            content: message.payload.content,
-            raw: message.payload.raw,
+            level: this.parseLogLevel(payload.level),
+            content: payload.content,
+            raw: payload.raw,
         };
-
-        // Add to recent logs buffer
-        this.recentLogs.push(entry);
-        if (this.recentLogs.length > this.bufferSize) {
-            this.recentLogs.shift();
+        if (payload.stream) {
+            entry.stream = payload.stream;
+        }
+        if (payload.file) {
+            entry.file = payload.file;
+        }
+        if (payload.fields && Object.keys(payload.fields).length > 0) {
+            entry.fields = payload.fields;
+        }
+        if (payload.styledContent) {
+            entry.styledContent = payload.styledContent;
+        }
+        if (capturedAt !== undefined) {
+            entry.capturedAt = capturedAt;
         }
+        if (Number.isSafeInteger(payload.sequence)) {
+            entry.sequence = payload.sequence;
+            this.markGap(entry);
+        }
+        return entry;
+    }
 
-        // Broadcast to all viewers
-        this.connectionManager.broadcastToViewers({
-            type: MessageType.LOG_BROADCAST,
-            payload: entry,
-        });
+    /**
+     * Mark an entry that follows missing sequence numbers from its source
+     * with `gapBefore`. This happens before viewers' filters apply, so only
+     * lines the server never received count. A lower sequence means the
+     * source restarted, not a gap.
+     */
+    private markGap(entry: LogEntry): void {
+        const sequence = entry.sequence ?? 0;
+        const last = this.lastSequences.get(entry.source);
+        this.lastSequences.set(entry.source, sequence);
+        if (last !== undefined && sequence > last + 1) {
+            entry.gapBefore = sequence - last - 1;
+        }
+    }
 
-        return entry;
+    /**
+     * Add entries to the recent logs buffer, trimming it to size, and to
+     * the persistent history.
+     */
+    private remember(entries: LogEntry[]): void {
+        this.store?.append(entries);
+        this.sessions?.noteLogs(entries);
+        this.recentLogs = this.recentLogs.concat(entries);
+        if (this.recentLogs.length > this.bufferSize) {
+            this.recentLogs.splice(0, this.recentLogs.length - this.bufferSize);
+        }
     }
 
     /**
@@ -70,15 +270,138 @@ export class LogBroadcaster {
     }
 
     /**
-     * Send recent logs to a specific viewer.
+     * Send the recent logs a viewer subscribed to, in chunks.
      */
     sendRecentLogsToViewer(clientId: string): void {
-        this.connectionManager.sendToClient(clientId, {
-            type: MessageType.LOGS_BATCH,
-            payload: {
-                logs: this.recentLogs,
-            },
-        });
+        const filter = this.connectionManager.getClient(clientId)?.filter;
+        const now = Date.now();
+        const logs = filter ? this.recentLogs.filter((entry) => filter(entry, now)) : this.recentLogs;
+
+        const chunkSize = SERVER_DEFAULTS.HISTORY_CHUNK_SIZE;
+        let start = 0;
+        do {
+            this.connectionManager.sendToClient(clientId, {
+                type: MessageType.LOGS_BATCH,
+                payload: {
+                    logs: logs.slice(start, start + chunkSize),
+                },
+            });
+            start += chunkSize;
+        } while (start < logs.length);
+    }
+
+    /**
+     * Answer a viewer's history request with the newest logs before the
+     * requested time that match its subscription, or that belong to the
+     * requested capture session, from the persistent history when there is
+     * one. The history is read a slice at a time, so a large history doesn't
+     * hold up incoming logs. The page is sent in chunks, newest first.
+     */
+    sendHistoryPage(clientId: string, request: HistoryRequestMessage['payload']): void {
+        let before = typeof request.before === 'number' && !Number.isNaN(request.before)
+            ? request.before
+            : Infinity;
+        const limit = typeof request.limit === 'number' && request.limit > 0
+            ? Math.min(Math.floor(request.limit), SERVER_DEFAULTS.HISTORY_PAGE_LIMIT)
+            : SERVER_DEFAULTS.RECENT_LOGS_BUFFER;
+
+        const options: ReadOptions = {};
+        if (typeof request.sessionId === 'string') {
+            const session = this.sessions?.get(request.sessionId);
+            if (session) {
+                options.after = new Date(session.startedAt).getTime();
+                if (session.endedAt) {
+                    before = Math.min(before, new Date(session.endedAt).getTime() + 1);
+                }
+            } else {
+                // Unknown session: an empty page
+                before = -Infinity;
+            }
+        } else {
+            const filter = this.connectionManager.getClient(clientId)?.filter;
+            const now = Date.now();
+            options.matches = filter ? (entry: LogEntry) => filter(entry, now) : undefined;
+        }
+
+        if (!this.store) {
+            const { after = -Infinity, matches } = options;
+            const logs = this.recentLogs
+                .filter((entry) => {
+                    const time = getEntryTime(entry);
+                    return time < before && time >= after && (!matches || matches(entry));
+                })
+                .slice(-limit);
+            this.sendPage(clientId, request.requestId, logs, logs.length === limit);
+            return;
+        }
+
+        const scan = this.store.scanBefore(before, limit, options);
+        const run = (): void => {
+            // The viewer disconnected meanwhile
+            if (!this.connectionManager.getClient(clientId)) return;
+
+            const deadline = Date.now() + HISTORY_SLICE_MS;
+            let next = scan.next();
+            while (!next.done && Date.now() < deadline) {
+                next = scan.next();
+            }
+            if (next.done) {
+                this.sendPage(clientId, request.requestId, next.value, next.value.length === limit);
+                return;
+            }
+
+            const timer = setImmediate(() => {
+                this.historyReads.delete(timer);
+                run();
+            });
+            this.historyReads.add(timer);
+        };
+        run();
+    }
+
+    /**
+     * Send a history page in chunks, newest first.
+     */
+    private sendPage(clientId: string, requestId: string, logs: LogEntry[], hasMore: boolean): void {
+        const chunkSize = SERVER_DEFAULTS.HISTORY_CHUNK_SIZE;
+        let end = logs.length;
+        do {
+            const start = Math.max(0, end - chunkSize);
+            this.connectionManager.sendToClient(clientId, {
+                type: MessageType.HISTORY_PAGE,
+                payload: {
+                    requestId,
+                    logs: logs.slice(start, end),
+                    done: start === 0,
+                    hasMore,
+                },
+            });
+            end = start;
+        } while (end > 0);
+    }
+
+    /**
+     * Search the persistent history, or the recent logs when there is none,
+     * newest first. Yields the matches chunk by chunk.
+     */
+    searchHistory(filter: Filter): Iterable<LogEntry[]> {
+        if (this.store) {
+            return this.store.search(filter);
+        }
+
+        const matches = createLogMatcher(filter);
+        const now = Date.now();
+        return [this.recentLogs.filter((entry) => matches(entry, now)).reverse()];
+    }
+
+    /**
+     * Validate a client capture time (epoch milliseconds).
+     */
+    private parseCaptureTime(value: unknown): number | undefined {
+        if (typeof value !== 'number' || Number.isNaN(new Date(value).getTime())) {
+            return undefined;
+        }
+        return value;
     }
 
     /**
@@ -96,6 +419,17 @@ export class LogBroadcaster {
         return LogLevel.INFO;
     }
 
+    /**
+     * Write out the persistent history. Call before the process exits.
+     */
+    close(): void {
+        for (const timer of this.historyReads) {
+            clearImmediate(timer);
+        }
+        this.historyReads.clear();
+        this.store?.close();
+    }
+
     /**
      * Clear the log buffer.
      */
@@ -113,3 +447,14 @@ export class LogBroadcaster {
         };
     }
 }
+
+/**
+ * Check that a log payload from a client has the fields an entry is built from.
+ */
+function isLogPayload(value: unknown): value is LogMessage['payload'] {
+    if (typeof value !== 'object' || value === null) return false;
+    const payload = value as Record<string, unknown>;
+    return typeof payload['content'] === 'string'
+        && typeof payload['raw'] === 'string'
+        && typeof payload['level'] === 'string';
+}
@@ -0,0 +1,601 @@
+/**
+ * @fileoverview Persistent log storage for Chronoscribe server
+ *
+ * Keeps the log history on disk so it survives server restarts. Entries
+ * are appended as NDJSON to segment files that are rotated by size and age;
+ * retention deletes whole segments once they are too old or the history
+ * grows too large. Each segment's time span is saved on shutdown, so
+ * history pages are served right after startup; the search index is
+ * rebuilt from the segments in slices in the background. History pages and
+ * searches read only the segments and lines they need.
+ *
+ * The index and entry locations are held in memory, roughly 200 bytes per
+ * stored entry: for typical lines of a few hundred bytes, about half as
+ * much memory as the history takes on disk (see `--retention-mb`).
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createLogMatcher, type Filter, type LogEntry } from '@chronoscribe/shared';
+import { SearchIndex } from './search-index.js';
+
+/**
+ * Storage backend for the log history.
+ */
+export interface LogStore {
+    /** Add entries, in arrival order */
+    append(entries: LogEntry[]): void;
+    /**
+     * Read the newest `limit` entries captured before `before` (epoch
+     * milliseconds, exclusive), oldest first.
+     */
+    readBefore(before: number, limit: number, options?: ReadOptions): LogEntry[];
+    /**
+     * Like readBefore, but pauses after each chunk of entries examined, so
+     * callers can spread a read over a large history; returns the entries.
+     */
+    scanBefore(before: number, limit: number, options?: ReadOptions): Generator<void, LogEntry[]>;
+    /**
+     * Search the whole history, newest first. Yields the matches among
+     * each chunk of entries examined (possibly none), so callers can pause
+     * between chunks.
+     */
+    search(filter: Filter): Iterable<LogEntry[]>;
+    /** Write pending entries and release resources */
+    close(): void;
+}
+
+/**
+ * Restrictions on the entries read from the history.
+ */
+export interface ReadOptions {
+    /** Only entries captured at or after this time (epoch milliseconds) */
+    after?: number | undefined;
+    /** Only entries matching this predicate */
+    matches?: ((entry: LogEntry) => boolean) | undefined;
+}
+
+/**
+ * Settings for the segmented NDJSON store.
+ */
+export interface SegmentedLogStoreOptions {
+    /** Directory holding the segment files */
+    dir: string;
+    /** Delete segments whose newest entry is older than this */
+    maxAgeMs?: number | undefined;
+    /** Delete the oldest segments while the history is larger than this */
+    maxBytes?: number | undefined;
+}
+
+/**
+ * Time span of the entries in a segment.
+ */
+interface SegmentStats {
+    minTime: number;
+    maxTime: number;
+    count: number;
+    /** Segment size the span was computed for */
+    bytes: number;
+}
+
+/**
+ * An entry stored in a segment, with its line's byte offset and length.
+ */
+interface StoredEntry {
+    entry: LogEntry;
+    offset: number;
+    length: number;
+}
+
+export const DEFAULT_HISTORY_DIR = path.join(os.homedir(), '.chronoscribe', 'history');
+export const DEFAULT_RETENTION_DAYS = 7;
+export const DEFAULT_RETENTION_MB = 500;
+
+/**
+ * A segment is closed once it reaches this size...
+ */
+const SEGMENT_MAX_BYTES = 16 * 1024 * 1024;
+
+/**
+ * ...or has been written to for this long, so retention can drop old
+ * history in small steps.
+ */
+const SEGMENT_MAX_AGE_MS = 60 * 60_000;
+
+/**
+ * How often pending entries are written.
+ */
+const FLUSH_INTERVAL_MS = 200;
+
+/**
+ * How often retention runs, besides on startup and rotation.
+ */
+const RETENTION_INTERVAL_MS = 10 * 60_000;
+
+/**
+ * Search candidates read between pauses.
+ */
+const SEARCH_CHUNK_SIZE = 500;
+
+/**
+ * Entries examined between pauses of a history read.
+ */
+const READ_CHUNK_SIZE = 2000;
+
+/**
+ * Entries indexed per slice while the index is rebuilt on startup.
+ */
+const LOAD_SLICE_SIZE = 2000;
+
+/**
+ * File keeping the segments' time spans between runs.
+ */
+const SPANS_FILE = 'segments.json';
+
+const SEGMENT_SUFFIX = '.ndjson';
+
+const NEWLINE = 0x0a;
+
+/**
+ * Time used to order an entry: the capture time when known, otherwise
+ * the server timestamp.
+ */
+export function getEntryTime(entry: LogEntry): number {
+    return entry.capturedAt ?? new Date(entry.timestamp).getTime();
+}
+
+/**
+ * Append-only store of NDJSON segment files named after their creation
+ * time, so they sort chronologically.
+ */
+export class SegmentedLogStore implements LogStore {
+    private readonly dir: string;
+    private readonly maxAgeMs: number;
+    private readonly maxBytes: number;
+
+    /** Stats by segment name, for every segment on disk */
+    private segments: Map<string, SegmentStats> = new Map();
+
+    /** Search index; entry IDs count up in the order entries were stored */
+    private readonly index = new SearchIndex();
+    /** ID of the oldest entry still stored */
+    private firstId = 0;
+    /** ID for the next entry written */
+    private nextId = 0;
+    /** Where each entry is stored, indexed by ID minus firstId */
+    private locations: { segment: string[]; offset: number[]; length: number[] } = {
+        segment: [],
+        offset: [],
+        length: [],
+    };
+
+    /** Segments not indexed yet, oldest first; the first may be partly indexed */
+    private unindexed: string[] = [];
+    /** Remaining entries of the segment being indexed */
+    private loading: { name: string; entries: Iterator<StoredEntry> } | null = null;
+    /** Entries written while older segments are still being indexed */
+    private deferred: Array<StoredEntry & { segment: string }> = [];
+    private loadTimer: NodeJS.Immediate | null = null;
+
+    /** Segment being written, opened on the first append */
+    private current: { name: string; fd: number; bytes: number; openedAt: number } | null = null;
+    /** Entries waiting to be written, with their serialized lines */
+    private pending: Array<{ entry: LogEntry; line: string }> = [];
+    private writeFailed = false;
+    private readonly flushTimer: NodeJS.Timeout;
+    private readonly retentionTimer: NodeJS.Timeout;
+
+    constructor(options: SegmentedLogStoreOptions) {
+        this.dir = options.dir;
+        this.maxAgeMs = options.maxAgeMs ?? DEFAULT_RETENTION_DAYS * 24 * 60 * 60_000;
+        this.maxBytes = options.maxBytes ?? DEFAULT_RETENTION_MB * 1024 * 1024;
+
+        fs.mkdirSync(this.dir, { recursive: true });
+        this.enforceRetention();
+        const spans = readSpans(path.join(this.dir, SPANS_FILE));
+        for (const name of this.listSegments()) {
+            const stats = this.segmentStats(name, spans[name]);
+            if (stats) {
+                this.segments.set(name, stats);
+            }
+            this.unindexed.push(name);
+        }
+        this.loadTimer = setImmediate(() => this.loadSlice());
+
+        this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+        this.flushTimer.unref();
+        this.retentionTimer = setInterval(() => this.enforceRetention(), RETENTION_INTERVAL_MS);
+        this.retentionTimer.unref();
+    }
+
+    append(entries: LogEntry[]): void {
+        for (const entry of entries) {
+            this.pending.push({ entry, line: `${JSON.stringify(entry)}\n` });
+        }
+    }
+
+    readBefore(before: number, limit: number, options: ReadOptions = {}): LogEntry[] {
+        const scan = this.scanBefore(before, limit, options);
+        let next = scan.next();
+        while (!next.done) {
+            next = scan.next();
+        }
+        return next.value;
+    }
+
+    *scanBefore(before: number, limit: number, options: ReadOptions = {}): Generator<void, LogEntry[]> {
+        this.flush();
+        const { after = -Infinity, matches } = options;
+
+        // Newest segments first; a segment can stop the search once it
+        // holds nothing newer than the oldest entry already kept
+        const candidates = [...this.segments]
+            .filter(([, stats]) => stats.minTime < before && stats.maxTime >= after)
+            .map(([name, stats]) => ({ name, newest: Math.min(stats.maxTime, before) }))
+            .sort((a, b) => b.newest - a.newest);
+
+        let entries: LogEntry[] = [];
+        let examined = 0;
+        for (const candidate of candidates) {
+            const oldestKept = entries[0];
+            if (entries.length >= limit && oldestKept && candidate.newest < getEntryTime(oldestKept)) {
+                break;
+            }
+
+            for (const { entry } of this.readSegment(candidate.name)) {
+                const time = getEntryTime(entry);
+                if (time < before && time >= after && (!matches || matches(entry))) {
+                    entries.push(entry);
+                }
+                if (++examined % READ_CHUNK_SIZE === 0) {
+                    yield;
+                }
+            }
+            entries.sort((a, b) => getEntryTime(a) - getEntryTime(b));
+            if (entries.length > limit) {
+                entries = entries.slice(entries.length - limit);
+            }
+        }
+        return entries;
+    }
+
+    *search(filter: Filter): Generator<LogEntry[]> {
+        // Finish the index first, a slice per chunk
+        while (this.unindexed.length > 0) {
+            this.loadSlice();
+            yield [];
+        }
+        this.flush();
+
+        const now = Date.now();
+        const matches = createLogMatcher(filter);
+        const ids = this.index.candidates(filter, now);
+        const files = new Map<string, number>();
+        try {
+            for (let start = 0; start < ids.length; start += SEARCH_CHUNK_SIZE) {
+                const found: LogEntry[] = [];
+                for (const id of ids.slice(start, start + SEARCH_CHUNK_SIZE)) {
+                    const entry = this.readEntry(id, files);
+                    if (entry && matches(entry, now)) {
+                        found.push(entry);
+                    }
+                }
+                yield found;
+            }
+        } finally {
+            for (const fd of files.values()) {
+                fs.closeSync(fd);
+            }
+        }
+    }
+
+    close(): void {
+        clearInterval(this.flushTimer);
+        clearInterval(this.retentionTimer);
+        if (this.loadTimer) {
+            clearImmediate(this.loadTimer);
+            this.loadTimer = null;
+        }
+        this.flush();
+        if (this.current) {
+            fs.closeSync(this.current.fd);
+            this.current = null;
+        }
+
+        try {
+            fs.writeFileSync(path.join(this.dir, SPANS_FILE), JSON.stringify(Object.fromEntries(this.segments)));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`[Storage] Failed to save segment spans: ${message}`);
+        }
+    }
+
+    /**
+     * Index the next slice of the segments on disk. Entries written in the
+     * meantime are indexed last, so IDs keep counting up in storage order.
+     */
+    private loadSlice(): void {
+        if (this.loadTimer) {
+            clearImmediate(this.loadTimer);
+            this.loadTimer = null;
+        }
+
+        let count = 0;
+        while (count < LOAD_SLICE_SIZE) {
+            const name = this.unindexed[0];
+            if (name === undefined) break;
+            if (this.loading?.name !== name) {
+                this.loading = { name, entries: this.readSegment(name) };
+            }
+
+            const next = this.loading.entries.next();
+            if (next.done) {
+                this.unindexed.shift();
+                this.loading = null;
+                continue;
+            }
+            this.indexEntry(name, next.value);
+            count++;
+        }
+
+        if (this.unindexed.length > 0) {
+            this.loadTimer = setImmediate(() => this.loadSlice());
+            return;
+        }
+        for (const { segment, ...stored } of this.deferred) {
+            this.indexEntry(segment, stored);
+        }
+        this.deferred = [];
+    }
+
+    /**
+     * Write pending entries to the current segment, rotating it when it
+     * is full or old.
+     */
+    private flush(): void {
+        if (this.pending.length === 0) return;
+        const pending = this.pending;
+        this.pending = [];
+
+        try {
+            const segment = this.current ?? this.openSegment();
+            const data = pending.map((item) => item.line).join('');
+            fs.writeSync(segment.fd, data);
+
+            for (const { entry, line } of pending) {
+                const bytes = Buffer.byteLength(line);
+                const stored = { entry, offset: segment.bytes, length: bytes - 1 };
+                if (this.unindexed.length > 0) {
+                    this.deferred.push({ segment: segment.name, ...stored });
+                } else {
+                    this.indexEntry(segment.name, stored);
+                }
+                this.addToSpan(segment.name, entry, bytes);
+                segment.bytes += bytes;
+            }
+
+            if (segment.bytes >= SEGMENT_MAX_BYTES || Date.now() - segment.openedAt >= SEGMENT_MAX_AGE_MS) {
+                fs.closeSync(segment.fd);
+                this.current = null;
+                this.enforceRetention();
+            }
+            this.writeFailed = false;
+        } catch (error) {
+            // Report once per failure streak, e.g. while the disk is full
+            if (!this.writeFailed) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`[Storage] Failed to write log history: ${message}`);
+                this.writeFailed = true;
+            }
+        }
+    }
+
+    /**
+     * Open a new segment file.
+     */
+    private openSegment(): NonNullable<SegmentedLogStore['current']> {
+        const now = Date.now();
+        let name = `${String(now).padStart(15, '0')}${SEGMENT_SUFFIX}`;
+        for (let n = 1; fs.existsSync(path.join(this.dir, name)); n++) {
+            name = `${String(now).padStart(15, '0')}-${n}${SEGMENT_SUFFIX}`;
+        }
+
+        this.current = { name, fd: fs.openSync(path.join(this.dir, name), 'a'), bytes: 0, openedAt: now };
+        return this.current;
+    }
+
+    /**
+     * Record a stored entry's location and add it to the search index.
+     */
+    private indexEntry(segment: string, { entry, offset, length }: StoredEntry): void {
+        const id = this.nextId++;
+        this.locations.segment.push(segment);
+        this.locations.offset.push(offset);
+        this.locations.length.push(length);
+        this.index.add(id, entry);
+    }
+
+    /**
+     * Extend a segment's time span by an entry of `bytes` bytes.
+     */
+    private addToSpan(segment: string, entry: LogEntry, bytes: number): void {
+        const time = getEntryTime(entry);
+        const stats = this.segments.get(segment);
+        if (stats) {
+            stats.minTime = Math.min(stats.minTime, time);
+            stats.maxTime = Math.max(stats.maxTime, time);
+            stats.count++;
+            stats.bytes += bytes;
+        } else {
+            this.segments.set(segment, { minTime: time, maxTime: time, count: 1, bytes });
+        }
+    }
+
+    /**
+     * A segment's time span: the saved one if the segment has not changed
+     * since, else computed by reading it. Null for a segment without entries.
+     */
+    private segmentStats(name: string, saved: SegmentStats | undefined): SegmentStats | null {
+        let size: number;
+        try {
+            size = fs.statSync(path.join(this.dir, name)).size;
+        } catch {
+            return null;
+        }
+        if (saved && saved.bytes === size) {
+            return saved;
+        }
+
+        const stats: SegmentStats = { minTime: Infinity, maxTime: -Infinity, count: 0, bytes: size };
+        for (const { entry } of this.readSegment(name)) {
+            const time = getEntryTime(entry);
+            stats.minTime = Math.min(stats.minTime, time);
+            stats.maxTime = Math.max(stats.maxTime, time);
+            stats.count++;
+        }
+        return stats.count > 0 ? stats : null;
+    }
+
+    /**
+     * Read a stored entry by ID, keeping segment files open in `files`.
+     * Returns null if it is gone or unreadable.
+     */
+    private readEntry(id: number, files: Map<string, number>): LogEntry | null {
+        const position = id - this.firstId;
+        const segment = this.locations.segment[position];
+        const offset = this.locations.offset[position];
+        const length = this.locations.length[position];
+        if (segment === undefined || offset === undefined || length === undefined) {
+            return null;
+        }
+
+        try {
+            let fd = files.get(segment);
+            if (fd === undefined) {
+                fd = fs.openSync(path.join(this.dir, segment), 'r');
+                files.set(segment, fd);
+            }
+            const buffer = Buffer.alloc(length);
+            fs.readSync(fd, buffer, 0, length, offset);
+            return parseEntry(buffer.toString('utf8'));
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Delete segments past the age limit, then the oldest ones while the
+     * history is over the size limit. The segment being written is kept.
+     */
+    private enforceRetention(): void {
+        const cutoff = Date.now() - this.maxAgeMs;
+        const segments: Array<{ name: string; bytes: number; modified: number }> = [];
+        for (const name of this.listSegments()) {
+            try {
+                const stats = fs.statSync(path.join(this.dir, name));
+                segments.push({ name, bytes: stats.size, modified: stats.mtimeMs });
+            } catch {
+                // Deleted meanwhile
+            }
+        }
+
+        let totalBytes = segments.reduce((sum, segment) => sum + segment.bytes, 0);
+        const deleted = new Set<string>();
+        for (const segment of segments) {
+            if (segment.name === this.current?.name) break;
+            if (segment.modified >= cutoff && totalBytes <= this.maxBytes) break;
+
+            try {
+                fs.unlinkSync(path.join(this.dir, segment.name));
+                totalBytes -= segment.bytes;
+                this.segments.delete(segment.name);
+                deleted.add(segment.name);
+                if (this.loading?.name === segment.name) {
+                    this.loading = null;
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`[Storage] Failed to delete ${segment.name}: ${message}`);
+            }
+        }
+
+        this.unindexed = this.unindexed.filter((name) => !deleted.has(name));
+
+        // Segments are deleted oldest first, so their entries lead the list
+        let removed = 0;
+        while (deleted.has(this.locations.segment[removed] ?? '')) {
+            removed++;
+        }
+        if (removed > 0) {
+            this.locations.segment.splice(0, removed);
+            this.locations.offset.splice(0, removed);
+            this.locations.length.splice(0, removed);
+            this.firstId += removed;
+            this.index.removeBefore(this.firstId);
+        }
+    }
+
+    /**
+     * Segment file names, oldest first.
+     */
+    private listSegments(): string[] {
+        try {
+            return fs.readdirSync(this.dir)
+                .filter((name) => name.endsWith(SEGMENT_SUFFIX))
+                .sort();
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Read a segment's entries with their byte offsets and lengths, parsing
+     * lines as they are consumed. A line cut short by a crash is skipped.
+     */
+    private *readSegment(name: string): Generator<StoredEntry> {
+        let content: Buffer;
+        try {
+            content = fs.readFileSync(path.join(this.dir, name));
+        } catch {
+            return;
+        }
+
+        let offset = 0;
+        while (offset < content.length) {
+            let end = content.indexOf(NEWLINE, offset);
+            if (end === -1) end = content.length;
+
+            const entry = parseEntry(content.toString('utf8', offset, end));
+            if (entry) {
+                yield { entry, offset, length: end - offset };
+            }
+            offset = end + 1;
+        }
+    }
+}
+
+/**
+ * Parse a stored line, or return null if it is not a valid entry.
+ */
+function parseEntry(line: string): LogEntry | null {
+    if (!line) return null;
+    try {
+        const entry = JSON.parse(line) as LogEntry;
+        return typeof entry === 'object' && entry !== null && typeof entry.id === 'string' ? entry : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the saved segment spans, by segment name.
+ */
+function readSpans(filePath: string): Record<string, SegmentStats> {
+    try {
+        const spans = JSON.parse(fs.readFileSync(filePath, 'utf8')) as unknown;
+        return typeof spans === 'object' && spans !== null ? spans as Record<string, SegmentStats> : {};
+    } catch {
+        return {};
+    }
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Syslog and raw TCP listeners for Chronoscribe server
+ *
+ * Lets tools that cannot pipe into the CLI (container syslog drivers,
+ * legacy daemons, netcat scripts) send lines straight to the server.
+ * Syslog is accepted over UDP and TCP (RFC 5424 and RFC 3164, newline or
+ * octet-count framed); raw TCP takes one entry per line.
+ */
+
+import dgram from 'node:dgram';
+import net from 'node:net';
+import {
+    createLogMessage,
+    detectLevel,
+    parseSyslogMessage,
+    syslogSeverityLevel,
+    type LogMessage,
+} from '@chronoscribe/shared';
+import type { ExternalSources } from './external-sources.js';
+import type { LogBroadcaster } from './log-broadcaster.js';
+
+/**
+ * Lines longer than this are sent as they are rather than buffered further.
+ */
+const MAX_FRAME_BYTES = 64 * 1024;
+
+/**
+ * Anything syslog-like: an optional priority, BSD timestamp and `app[pid]:` tag.
+ */
+const LOOSE_SYSLOG = /^(?:<(?<pri>\d{1,3})>)?(?:[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2} )?(?:(?<app>[\w.-]+)(?:\[\d+\])?: )?(?<message>.*)$/s;
+
+/**
+ * Start listening for syslog messages on a port, over both UDP and TCP.
+ * Each message's app-name (or hostname, or the sender's address) becomes
+ * its source.
+ */
+export function startSyslogListener(
+    port: number,
+    sources: ExternalSources,
+    logBroadcaster: LogBroadcaster
+): { udp: dgram.Socket; tcp: net.Server } {
+    const ingest = guarded('[Syslog]', (line: string, peer: string): void => {
+        if (!line.trim()) return;
+
+        const message = parseSyslogMessage(line);
+        let name = peer;
+        let logMessage: LogMessage;
+        if (message) {
+            const { app, host } = message.fields;
+            name = typeof app === 'string' ? app : typeof host === 'string' ? host : peer;
+            logMessage = createLogMessage(message.message, line, message.level, message.time, {
+                fields: message.fields,
+            });
+        } else {
+            // Not strictly RFC 5424/3164 (e.g. no hostname): keep what can be recognized
+            const groups = LOOSE_SYSLOG.exec(line)?.groups ?? {};
+            const content = (groups['message'] ?? line).trim();
+            const level = groups['pri'] !== undefined
+                ? syslogSeverityLevel(Number(groups['pri']) % 8)
+                : detectLevel(content);
+            if (groups['app']) name = groups['app'];
+            logMessage = createLogMessage(content, line, level, undefined, {
+                fields: groups['app'] ? { app: groups['app'] } : {},
+            });
+        }
+
+        const source = sources.acquire(name);
+        logBroadcaster.processLog(source.id, source.name, logMessage);
+    });
+
+    const udp = dgram.createSocket('udp4');
+    udp.on('message', (data, remote) => {
+        for (const line of data.toString('utf8').split(/\r?\n/)) {
+            ingest(line, remote.address);
+        }
+    });
+    udp.on('error', (error) => {
+        console.error(`[Syslog] UDP error: ${error.message}`);
+    });
+    udp.bind(port);
+
+    const tcp = net.createServer((socket) => {
+        const peer = formatAddress(socket.remoteAddress);
+        readFrames(socket, true, (frame) => ingest(frame, peer));
+    });
+    tcp.on('error', (error) => {
+        console.error(`[Syslog] TCP error: ${error.message}`);
+    });
+    tcp.listen(port);
+
+    return { udp, tcp };
+}
+
+/**
+ * Start listening for newline-delimited lines over TCP. Each connection
+ * becomes its own source, named after the remote address and port, until
+ * it closes.
+ */
+export function startTcpLineListener(
+    port: number,
+    sources: ExternalSources,
+    logBroadcaster: LogBroadcaster
+): net.Server {
+    const server = net.createServer((socket) => {
+        const name = `${formatAddress(socket.remoteAddress)}:${socket.remotePort ?? 0}`;
+
+        readFrames(socket, false, guarded('[TCP]', (line: string) => {
+            if (!line.trim()) return;
+            const source = sources.acquire(name);
+            logBroadcaster.processLog(
+                source.id,
+                source.name,
+                createLogMessage(line.trim(), line, detectLevel(line))
+            );
+        }));
+        socket.on('close', () => sources.release(name));
+    });
+    server.on('error', (error) => {
+        console.error(`[TCP] Listener error: ${error.message}`);
+    });
+    server.listen(port);
+
+    return server;
+}
+
+/**
+ * Split a TCP stream into frames: lines, or with `octetCounting`, also
+ * RFC 6587 octet-counted frames (`<length> <message>`).
+ */
+function readFrames(socket: net.Socket, octetCounting: boolean, onFrame: (frame: string) => void): void {
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        for (;;) {
+            const counted = octetCounting
+                ? /^(\d{1,6}) /.exec(buffer.subarray(0, 7).toString('latin1'))
+                : null;
+            if (counted?.[1] && Number(counted[1]) <= MAX_FRAME_BYTES) {
+                const start = counted[0].length;
+                const end = start + Number(counted[1]);
+                if (buffer.length < end) break;
+                onFrame(buffer.subarray(start, end).toString('utf8'));
+                buffer = buffer.subarray(end);
+                continue;
+            }
+
+            const newline = buffer.indexOf(0x0a);
+            if (newline === -1) break;
+            onFrame(buffer.subarray(0, newline).toString('utf8').replace(/\r$/, ''));
+            buffer = buffer.subarray(newline + 1);
+        }
+
+        if (buffer.length > MAX_FRAME_BYTES) {
+            onFrame(buffer.toString('utf8'));
+            buffer = Buffer.alloc(0);
+        }
+    });
+    socket.on('end', () => {
+        if (buffer.length > 0) {
+            onFrame(buffer.toString('utf8'));
+            buffer = Buffer.alloc(0);
+        }
+    });
+    socket.on('error', () => {
+        // The connection is closed; anything unread is lost
+    });
+}
+
+/**
+ * Wrap a line handler so a line that cannot be handled is dropped and
+ * logged, rather than throwing out of a socket callback.
+ */
+function guarded<T extends unknown[]>(prefix: string, handler: (...args: T) => void): (...args: T) => void {
+    return (...args) => {
+        try {
+            handler(...args);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`${prefix} Dropped a line that could not be handled: ${message}`);
+        }
+    };
+}
+
+/**
+ * Format a remote address for display (IPv4-mapped addresses as IPv4).
+ */
+function formatAddress(address: string | undefined): string {
+    return (address ?? 'unknown').replace(/^::ffff:/, '');
+}
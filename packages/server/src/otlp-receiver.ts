@@ -0,0 +1,281 @@
+/**
+ * @fileoverview OTLP/HTTP logs receiver for Chronoscribe server
+ *
+ * Accepts OpenTelemetry logs in the OTLP/HTTP JSON encoding on
+ * `POST /v1/logs`, so an OTEL exporter pointed at the server puts its logs
+ * in the dashboard. Each resource's `service.name` becomes a source.
+ */
+
+import {
+    LogLevel,
+    createLogBatchMessage,
+    createLogMessage,
+    detectLevel,
+    normalizeLevel,
+    type LogFields,
+    type LogMessage,
+} from '@chronoscribe/shared';
+import type { ExternalSources } from './external-sources.js';
+import {
+    handleCors,
+    parseRequestUrl,
+    readBody,
+    sendBodyError,
+    sendInternalError,
+    sendJson,
+    type ApiHandler,
+} from './http-api.js';
+import type { LogBroadcaster } from './log-broadcaster.js';
+
+/**
+ * OTLP `AnyValue`: exactly one of the properties is set.
+ */
+interface AnyValue {
+    stringValue?: string;
+    boolValue?: boolean;
+    /** int64, encoded as a string in JSON */
+    intValue?: string | number;
+    doubleValue?: number;
+    arrayValue?: { values?: AnyValue[] };
+    kvlistValue?: { values?: KeyValue[] };
+    /** base64 */
+    bytesValue?: string;
+}
+
+interface KeyValue {
+    key: string;
+    value?: AnyValue;
+}
+
+interface LogRecord {
+    timeUnixNano?: string | number;
+    observedTimeUnixNano?: string | number;
+    severityNumber?: number;
+    severityText?: string;
+    body?: AnyValue;
+    attributes?: KeyValue[];
+    /** Hex encoded in OTLP/JSON */
+    traceId?: string;
+    spanId?: string;
+}
+
+/**
+ * The parts of an `ExportLogsServiceRequest` that are used.
+ */
+interface ExportLogsServiceRequest {
+    resourceLogs?: Array<{
+        resource?: { attributes?: KeyValue[] };
+        scopeLogs?: Array<{
+            scope?: { name?: string };
+            logRecords?: LogRecord[];
+        }>;
+    }>;
+}
+
+const OTLP_LOGS_PATH = '/v1/logs';
+
+/**
+ * Source name for resources without a `service.name`.
+ */
+const DEFAULT_SOURCE = 'otel';
+
+/**
+ * Create the handler for the OTLP logs endpoint.
+ */
+export function createOtlpHandler(sources: ExternalSources, logBroadcaster: LogBroadcaster): ApiHandler {
+    return (req, res) => {
+        if (parseRequestUrl(req)?.pathname !== OTLP_LOGS_PATH) return false;
+
+        if (handleCors(req, res)) return true;
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendJson(res, 405, { error: 'Method Not Allowed' });
+            return true;
+        }
+        if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+            // The protobuf encoding is not supported
+            sendJson(res, 415, { error: 'Only the OTLP/HTTP JSON encoding (application/json) is supported' });
+            return true;
+        }
+
+        readBody(req, (error, body) => {
+            if (error) {
+                sendBodyError(res, error);
+                return;
+            }
+
+            let request: unknown;
+            try {
+                request = JSON.parse(body);
+            } catch {
+                sendJson(res, 400, { error: 'Invalid JSON' });
+                return;
+            }
+
+            const shapeError = validateRequest(request);
+            if (shapeError) {
+                sendJson(res, 400, { error: shapeError });
+                return;
+            }
+
+            try {
+                const rejected = ingestRequest(request as ExportLogsServiceRequest, sources, logBroadcaster);
+                sendJson(res, 200, rejected > 0
+                    ? { partialSuccess: { rejectedLogRecords: rejected, errorMessage: 'Malformed log records' } }
+                    : {});
+            } catch (error) {
+                sendInternalError(res, error);
+            }
+        });
+        return true;
+    };
+}
+
+/**
+ * Check the nesting of an export request. Returns an error message, or
+ * null if it can be ingested; malformed records are rejected one by one.
+ */
+function validateRequest(value: unknown): string | null {
+    if (!isObject(value)) return 'Request must be a JSON object';
+
+    const resourceLogs = value['resourceLogs'];
+    if (resourceLogs === undefined) return null;
+    if (!Array.isArray(resourceLogs)) return '"resourceLogs" must be an array';
+
+    for (const resource of resourceLogs) {
+        if (!isObject(resource)) return '"resourceLogs" entries must be objects';
+        const scopeLogs = resource['scopeLogs'];
+        if (scopeLogs === undefined) continue;
+        if (!Array.isArray(scopeLogs)) return '"scopeLogs" must be an array';
+
+        for (const scope of scopeLogs) {
+            if (!isObject(scope)) return '"scopeLogs" entries must be objects';
+            const logRecords = scope['logRecords'];
+            if (logRecords !== undefined && !Array.isArray(logRecords)) return '"logRecords" must be an array';
+        }
+    }
+    return null;
+}
+
+/**
+ * Broadcast the records of an export request, one batch per resource.
+ * Returns the number of records rejected.
+ */
+function ingestRequest(
+    request: ExportLogsServiceRequest,
+    sources: ExternalSources,
+    logBroadcaster: LogBroadcaster
+): number {
+    let rejected = 0;
+
+    for (const resourceLogs of request.resourceLogs ?? []) {
+        const resource = toFields(resourceLogs.resource?.attributes);
+        const serviceName = resource['service.name'];
+        delete resource['service.name'];
+
+        const logs: Array<LogMessage['payload']> = [];
+        for (const scopeLogs of resourceLogs.scopeLogs ?? []) {
+            for (const record of scopeLogs.logRecords ?? []) {
+                if (typeof record !== 'object' || record === null) {
+                    rejected++;
+                    continue;
+                }
+                const scope = scopeLogs.scope?.name;
+                logs.push(toLogPayload(record, typeof scope === 'string' ? scope : undefined, resource));
+            }
+        }
+        if (logs.length === 0) continue;
+
+        const source = sources.acquire(typeof serviceName === 'string' && serviceName ? serviceName : DEFAULT_SOURCE);
+        logBroadcaster.processLogBatch(source.id, source.name, createLogBatchMessage(logs));
+    }
+
+    return rejected;
+}
+
+/**
+ * Map a log record to a log message payload.
+ */
+function toLogPayload(record: LogRecord, scope: string | undefined, resource: LogFields): LogMessage['payload'] {
+    const body = fromAnyValue(record.body);
+    const content = typeof body === 'string' ? body : body === undefined ? '' : JSON.stringify(body);
+
+    const fields: LogFields = toFields(record.attributes);
+    if (record.traceId) fields['traceId'] = record.traceId;
+    if (record.spanId) fields['spanId'] = record.spanId;
+    if (scope) fields['scope'] = scope;
+    if (Object.keys(resource).length > 0) fields['resource'] = resource;
+
+    const time = nanosToMillis(record.timeUnixNano) ?? nanosToMillis(record.observedTimeUnixNano);
+    return createLogMessage(content, content, severityLevel(record, content), undefined, {
+        fields,
+        ...(time !== undefined ? { capturedAt: time } : {}),
+    }).payload;
+}
+
+/**
+ * Map a record's severity to a level: severityNumber first (1-4 TRACE ...
+ * 21-24 FATAL), then severityText, then the text of the body.
+ */
+function severityLevel(record: LogRecord, content: string): LogLevel {
+    const number = record.severityNumber;
+    if (typeof number === 'number' && number > 0) {
+        if (number <= 8) return LogLevel.DEBUG;
+        if (number <= 12) return LogLevel.INFO;
+        if (number <= 16) return LogLevel.WARN;
+        return LogLevel.ERROR;
+    }
+    if (typeof record.severityText === 'string' && record.severityText) {
+        return normalizeLevel(record.severityText);
+    }
+    return detectLevel(content);
+}
+
+/**
+ * Convert a list of OTLP attributes to fields.
+ */
+function toFields(attributes: KeyValue[] | undefined): LogFields {
+    const fields: LogFields = {};
+    if (!Array.isArray(attributes)) return fields;
+
+    for (const attribute of attributes) {
+        if (isObject(attribute) && typeof attribute.key === 'string') {
+            fields[attribute.key] = fromAnyValue(attribute.value);
+        }
+    }
+    return fields;
+}
+
+/**
+ * Convert an OTLP `AnyValue` to a plain value.
+ */
+function fromAnyValue(value: AnyValue | undefined): unknown {
+    if (!value || typeof value !== 'object') return undefined;
+    if (value.stringValue !== undefined) return value.stringValue;
+    if (value.boolValue !== undefined) return value.boolValue;
+    if (value.intValue !== undefined) return Number(value.intValue);
+    if (value.doubleValue !== undefined) return value.doubleValue;
+    if (value.arrayValue !== undefined) {
+        const values = value.arrayValue?.values;
+        return Array.isArray(values) ? values.map(fromAnyValue) : [];
+    }
+    if (value.kvlistValue !== undefined) return toFields(value.kvlistValue?.values);
+    if (value.bytesValue !== undefined) return value.bytesValue;
+    return undefined;
+}
+
+/**
+ * Convert a nanosecond timestamp (a string in OTLP/JSON) to epoch
+ * milliseconds. Returns undefined for missing or zero times.
+ */
+function nanosToMillis(value: string | number | undefined): number | undefined {
+    const nanos = Number(value);
+    return Number.isFinite(nanos) && nanos > 0 ? nanos / 1e6 : undefined;
+}
+
+/**
+ * Check that a JSON value is an object (not null or an array).
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
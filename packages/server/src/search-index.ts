@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Inverted index over the stored log history
+ *
+ * Maps words (from the content and structured fields), sources, levels and
+ * hour buckets to the IDs of the entries containing them, so a search only
+ * reads the entries that can match. Candidates are a superset of the
+ * matches; the caller checks each one against the filter.
+ */
+
+import {
+    LOG_LEVEL_PRIORITY,
+    LogLevel,
+    formatFieldValue,
+    type Filter,
+    type LogEntry,
+} from '@chronoscribe/shared';
+
+/**
+ * Entry IDs, ascending.
+ */
+type Postings = number[];
+
+/**
+ * Width of a time bucket.
+ */
+const HOUR_MS = 60 * 60_000;
+
+/**
+ * Words: runs of letters, digits and underscores.
+ */
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Inverted index of log entries by ID. IDs are assigned by the caller in
+ * increasing order.
+ */
+export class SearchIndex {
+    /** Words of the content, field names and field values (lowercase) */
+    private words: Map<string, Postings> = new Map();
+    private sources: Map<string, Postings> = new Map();
+    private levels: Map<LogLevel, Postings> = new Map();
+    /** Entries by hour of their timestamp */
+    private hours: Map<number, Postings> = new Map();
+
+    /** Entries below this ID have been removed */
+    private firstId = 0;
+    /** One past the highest ID added */
+    private endId = 0;
+
+    /**
+     * Add an entry under the next ID.
+     */
+    add(id: number, entry: LogEntry): void {
+        const words = new Set(tokenize(entry.content));
+        for (const [key, value] of Object.entries(entry.fields ?? {})) {
+            for (const word of tokenize(key)) words.add(word);
+            for (const word of tokenize(formatFieldValue(value))) words.add(word);
+        }
+
+        for (const word of words) {
+            addPosting(this.words, word, id);
+        }
+        addPosting(this.sources, entry.source, id);
+        addPosting(this.levels, entry.level, id);
+
+        const time = new Date(entry.timestamp).getTime();
+        if (!Number.isNaN(time)) {
+            addPosting(this.hours, Math.floor(time / HOUR_MS), id);
+        }
+        this.endId = id + 1;
+    }
+
+    /**
+     * Remove all entries with IDs below `id`.
+     */
+    removeBefore(id: number): void {
+        if (id <= this.firstId) return;
+        this.firstId = id;
+
+        for (const map of [this.words, this.sources, this.levels, this.hours] as Array<Map<unknown, Postings>>) {
+            for (const [key, postings] of map) {
+                const keep = lowerBound(postings, id);
+                if (keep === postings.length) {
+                    map.delete(key);
+                } else if (keep > 0) {
+                    postings.splice(0, keep);
+                }
+            }
+        }
+    }
+
+    /**
+     * IDs of the entries that may match a filter, newest first. Source,
+     * level, time and text-search constraints narrow the candidates; the
+     * rest of the filter (excluded sources, regex searches) is left to the
+     * caller.
+     */
+    candidates(filter: Filter, now = Date.now()): number[] {
+        const clauses: Postings[][] = [];
+
+        if (filter.sources.length > 0) {
+            clauses.push(filter.sources.map((source) => this.sources.get(source) ?? []));
+        }
+
+        const minPriority = LOG_LEVEL_PRIORITY[filter.minLevel];
+        if (minPriority > 0) {
+            clauses.push(Object.values(LogLevel)
+                .filter((level) => LOG_LEVEL_PRIORITY[level] >= minPriority)
+                .map((level) => this.levels.get(level) ?? []));
+        }
+
+        const range = timeBounds(filter, now);
+        if (range) {
+            const [startHour, endHour] = range.map((time) => Math.floor(time / HOUR_MS));
+            clauses.push([...this.hours]
+                .filter(([hour]) => hour >= (startHour ?? -Infinity) && hour <= (endHour ?? Infinity))
+                .map(([, postings]) => postings));
+        }
+
+        if (filter.searchText && filter.searchMode === 'text') {
+            for (const term of searchTerms(filter.searchText)) {
+                clauses.push(this.lookupWord(term));
+            }
+        }
+
+        if (clauses.length === 0) {
+            const ids: number[] = [];
+            for (let id = this.endId - 1; id >= this.firstId; id--) ids.push(id);
+            return ids;
+        }
+
+        // Start from the most selective clause; clauses much larger than the
+        // candidates so far are cheaper to leave to the caller's check
+        const sized = clauses
+            .map((lists) => ({ lists, size: lists.reduce((sum, list) => sum + list.length, 0) }))
+            .sort((a, b) => a.size - b.size);
+        let ids = union(sized[0]?.lists ?? []);
+        for (const { lists, size } of sized.slice(1)) {
+            if (ids.length === 0 || size > ids.length * 8) break;
+            const allowed = new Set(lists.flat());
+            ids = ids.filter((id) => allowed.has(id));
+        }
+        return ids.reverse();
+    }
+
+    /**
+     * Postings of the indexed words a search term can be part of.
+     */
+    private lookupWord(term: SearchTerm): Postings[] {
+        if (term.exact) {
+            const postings = this.words.get(term.word);
+            return postings ? [postings] : [];
+        }
+
+        const lists: Postings[] = [];
+        for (const [word, postings] of this.words) {
+            if (term.start ? word.startsWith(term.word)
+                : term.end ? word.endsWith(term.word)
+                : word.includes(term.word)) {
+                lists.push(postings);
+            }
+        }
+        return lists;
+    }
+}
+
+/**
+ * A word of a search and how it must appear in an indexed word: as the
+ * whole word, at its start, at its end, or anywhere.
+ */
+interface SearchTerm {
+    word: string;
+    exact: boolean;
+    start: boolean;
+    end: boolean;
+}
+
+/**
+ * Split a text search into terms. A substring search for "or refused"
+ * matches a word ending in "or" followed by one starting with "refused":
+ * only words with a separator on both sides in the search are whole words.
+ * A `key=value` search may also match a field value anywhere, so its terms
+ * are matched anywhere in a word.
+ */
+function searchTerms(searchText: string): SearchTerm[] {
+    const text = searchText.toLowerCase();
+    const isFieldQuery = /^[^\s=]+=/.test(text);
+    const terms: SearchTerm[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        const index = match.index ?? 0;
+        const startBounded = !isFieldQuery && index > 0;
+        const endBounded = !isFieldQuery && index + match[0].length < text.length;
+        terms.push({
+            word: match[0],
+            exact: startBounded && endBounded,
+            start: startBounded,
+            end: endBounded,
+        });
+    }
+    return terms;
+}
+
+/**
+ * Start and end of a filter's time range in epoch milliseconds, or null
+ * if it has none.
+ */
+function timeBounds(filter: Filter, now: number): [number, number] | null {
+    const { timeRange } = filter;
+    if (!timeRange.enabled) return null;
+
+    if (timeRange.type === 'relative') {
+        return timeRange.last ? [now - timeRange.last * 60 * 1000, Infinity] : null;
+    }
+    const start = timeRange.start ? new Date(timeRange.start).getTime() : NaN;
+    const end = timeRange.end ? new Date(timeRange.end).getTime() : NaN;
+    if (Number.isNaN(start) && Number.isNaN(end)) return null;
+    return [Number.isNaN(start) ? -Infinity : start, Number.isNaN(end) ? Infinity : end];
+}
+
+/**
+ * Lowercase words of a text.
+ */
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(WORD_PATTERN) ?? [];
+}
+
+function addPosting<K>(map: Map<K, Postings>, key: K, id: number): void {
+    const postings = map.get(key);
+    if (postings) {
+        postings.push(id);
+    } else {
+        map.set(key, [id]);
+    }
+}
+
+/**
+ * Merge posting lists into one ascending list without duplicates.
+ */
+function union(lists: Postings[]): Postings {
+    if (lists.length === 1) return lists[0]?.slice() ?? [];
+
+    const merged = lists.flat().sort((a, b) => a - b);
+    return merged.filter((id, index) => index === 0 || id !== merged[index - 1]);
+}
+
+/**
+ * Index of the first ID not below `id`.
+ */
+function lowerBound(postings: Postings, id: number): number {
+    let low = 0;
+    let high = postings.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if ((postings[mid] ?? Infinity) < id) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
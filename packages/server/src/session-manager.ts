@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Named capture sessions for Chronoscribe server
+ *
+ * A session marks a span of the log stream (e.g. one attempt at
+ * reproducing a bug) under a label, recording which sources logged during
+ * it. At most one session runs at a time. Sessions are always saved, next
+ * to the log history, so they are still listed after a restart.
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+    MessageType,
+    isMessageType,
+    type CaptureSession,
+    type LogEntry,
+    type ProtocolMessage,
+    type SessionStartMessage,
+    type SessionsListMessage,
+} from '@chronoscribe/shared';
+import type { ConnectionManager } from './connection-manager.js';
+
+/**
+ * Name of the sessions file in the history directory.
+ */
+export const SESSIONS_FILE = 'sessions.json';
+
+/**
+ * Longest accepted session label.
+ */
+const MAX_LABEL_LENGTH = 200;
+
+/**
+ * Keeps the capture sessions and tells viewers when they change.
+ */
+export class SessionManager {
+    /** All sessions, oldest first */
+    private sessions: CaptureSession[] = [];
+
+    private readonly connectionManager: ConnectionManager;
+
+    /** File the sessions are saved to (memory only when unset, e.g. in tests) */
+    private readonly file: string | undefined;
+
+    constructor(connectionManager: ConnectionManager, file?: string) {
+        this.connectionManager = connectionManager;
+        this.file = file;
+        if (file) {
+            this.load(file);
+        }
+    }
+
+    /**
+     * Start a session, stopping the running one.
+     */
+    start(label: string): CaptureSession {
+        this.stopActive();
+
+        const session: CaptureSession = {
+            id: randomUUID(),
+            label: label.trim().slice(0, MAX_LABEL_LENGTH) || `Session ${this.sessions.length + 1}`,
+            startedAt: new Date().toISOString(),
+            sources: [],
+        };
+        this.sessions.push(session);
+        this.changed();
+        return session;
+    }
+
+    /**
+     * Stop the running session. Returns it, or null if none was running.
+     */
+    stop(): CaptureSession | null {
+        const session = this.stopActive();
+        if (session) {
+            this.changed();
+        }
+        return session;
+    }
+
+    /**
+     * Record the sources of newly received logs in the running session.
+     */
+    noteLogs(entries: LogEntry[]): void {
+        const session = this.getActive();
+        if (!session) return;
+
+        let added = false;
+        for (const entry of entries) {
+            if (!session.sources.includes(entry.source)) {
+                session.sources.push(entry.source);
+                added = true;
+            }
+        }
+        if (added) {
+            this.changed();
+        }
+    }
+
+    /**
+     * Handle a session control message, from viewers or the CLI. Returns
+     * false for other messages. Viewers get the changed list with the
+     * broadcast, so only other senders are answered through `reply`; the
+     * CLI may not even be registered.
+     */
+    handleMessage(message: ProtocolMessage, fromViewer: boolean, reply: (message: SessionsListMessage) => void): boolean {
+        const answer = () => reply({ type: MessageType.SESSIONS_LIST, payload: { sessions: this.list() } });
+
+        if (isMessageType<SessionStartMessage>(message, MessageType.SESSION_START)) {
+            const label = typeof message.payload.label === 'string' ? message.payload.label : '';
+            const session = this.start(label);
+            console.log(`[Server] Session "${session.label}" started`);
+            if (!fromViewer) answer();
+            return true;
+        }
+
+        if (message.type === MessageType.SESSION_STOP) {
+            const session = this.stop();
+            if (session) {
+                console.log(`[Server] Session "${session.label}" stopped`);
+            }
+            if (!fromViewer) answer();
+            return true;
+        }
+
+        if (message.type === MessageType.SESSIONS_REQUEST) {
+            answer();
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Get a session by ID.
+     */
+    get(sessionId: string): CaptureSession | undefined {
+        return this.sessions.find((session) => session.id === sessionId);
+    }
+
+    /**
+     * Get all sessions, oldest first.
+     */
+    list(): CaptureSession[] {
+        return [...this.sessions];
+    }
+
+    /**
+     * Get the running session, if any.
+     */
+    private getActive(): CaptureSession | undefined {
+        const last = this.sessions[this.sessions.length - 1];
+        return last && !last.endedAt ? last : undefined;
+    }
+
+    private stopActive(): CaptureSession | null {
+        const session = this.getActive();
+        if (!session) return null;
+
+        session.endedAt = new Date().toISOString();
+        return session;
+    }
+
+    /**
+     * Save the sessions and send them to viewers.
+     */
+    private changed(): void {
+        this.save();
+        this.connectionManager.broadcastToViewers({
+            type: MessageType.SESSIONS_LIST,
+            payload: { sessions: this.list() },
+        });
+    }
+
+    private load(file: string): void {
+        try {
+            const stored = JSON.parse(fs.readFileSync(file, 'utf8')) as unknown;
+            if (Array.isArray(stored)) {
+                this.sessions = stored.filter(isSession);
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`[Storage] Failed to read sessions: ${message}`);
+            }
+        }
+    }
+
+    private save(): void {
+        if (!this.file) return;
+        try {
+            fs.mkdirSync(path.dirname(this.file), { recursive: true });
+            fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(this.sessions, null, 2));
+            fs.renameSync(`${this.file}.tmp`, this.file);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`[Storage] Failed to save sessions: ${message}`);
+        }
+    }
+}
+
+/**
+ * Check that a stored value is a session.
+ */
+function isSession(value: unknown): value is CaptureSession {
+    if (typeof value !== 'object' || value === null) return false;
+    const session = value as Partial<CaptureSession>;
+    return (
+        typeof session.id === 'string' &&
+        typeof session.label === 'string' &&
+        typeof session.startedAt === 'string' &&
+        (session.endedAt === undefined || typeof session.endedAt === 'string') &&
+        Array.isArray(session.sources)
+    );
+}
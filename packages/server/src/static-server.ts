@@ -2,6 +2,7 @@
 import http from 'node:http';
 import fs from 'node:fs';
 import path from 'node:path';
+import { parseRequestUrl, type ApiHandler } from './http-api.js';
 
 /**
  * MIME types for common web files.
@@ -25,9 +26,14 @@ const MIME_TYPES: Record<string, string> = {
  * 
  * @param rootPath Path to the static files directory
  * @param port Port to listen on
+ * @param api Handler for API routes, tried before static files
  */
-export function startStaticServer(rootPath: string, port: number): http.Server {
+export function startStaticServer(rootPath: string, port: number, api?: ApiHandler): http.Server {
     const server = http.createServer((req, res) => {
+        if (api?.(req, res)) {
+            return;
+        }
+
         // Handle only GET requests
         if (req.method !== 'GET') {
             res.statusCode = 405;
@@ -36,7 +42,12 @@ export function startStaticServer(rootPath: string, port: number): http.Server {
         }
 
         // Parse URL
-        const url = new URL(req.url || '/', `http://${req.headers.host}`);
+        const url = parseRequestUrl(req);
+        if (!url) {
+            res.statusCode = 400;
+            res.end('Bad Request');
+            return;
+        }
         let filePath = path.join(rootPath, url.pathname);
 
         // Prevent directory traversal
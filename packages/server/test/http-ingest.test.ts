@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Tests for the HTTP ingest endpoint
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { ExternalSources } from '../src/external-sources.js';
+import { createIngestHandler } from '../src/http-ingest.js';
+import { startApiServer } from '../src/http-api.js';
+import { LogBroadcaster } from '../src/log-broadcaster.js';
+
+let server: http.Server;
+let broadcaster: LogBroadcaster;
+let baseUrl: string;
+
+beforeEach(async () => {
+    const connectionManager = new ConnectionManager();
+    broadcaster = new LogBroadcaster(connectionManager);
+    const sources = new ExternalSources(connectionManager, broadcaster);
+    server = startApiServer(0, createIngestHandler(sources, broadcaster));
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+function post(body: string, query = ''): Promise<Response> {
+    return fetch(`${baseUrl}/api/ingest${query}`, { method: 'POST', body });
+}
+
+describe('POST /api/ingest', () => {
+    it('accepts NDJSON and reports invalid lines', async () => {
+        const response = await post('{"message":"one"}\nnot json\n{"message":"two","source":"worker"}\n', '?source=ci');
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ accepted: 2, errors: ['Entry 2: invalid JSON'] });
+        expect(broadcaster.getRecentLogs().map((entry) => [entry.source, entry.content])).toEqual([
+            ['ci', 'one'],
+            ['worker', 'two'],
+        ]);
+    });
+
+    it('accepts a JSON array with timestamps and fields', async () => {
+        await post(JSON.stringify([{ message: 'x', timestamp: 1700000000000, fields: { id: 7 } }]));
+
+        expect(broadcaster.getRecentLogs()[0]).toMatchObject({
+            source: 'http',
+            capturedAt: 1700000000000,
+            fields: { id: 7 },
+        });
+    });
+
+    it('normalizes level names', async () => {
+        await post([
+            '{"message":"a","level":"fatal"}',
+            '{"message":"b","level":"critical"}',
+            '{"message":"c","level":"warning"}',
+            '{"message":"d","level":"trace"}',
+            '{"message":"e ERROR in text"}',
+        ].join('\n'));
+
+        expect(broadcaster.getRecentLogs().map((entry) => entry.level)).toEqual([
+            LogLevel.ERROR,
+            LogLevel.ERROR,
+            LogLevel.WARN,
+            LogLevel.DEBUG,
+            LogLevel.ERROR,
+        ]);
+    });
+
+    it('rejects entries with the wrong shape', async () => {
+        const response = await post('[null, {"message":5}, {"message":"x","level":3}, {"message":"x","fields":[]}]');
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            accepted: 0,
+            errors: [
+                'Entry 1: not a JSON object',
+                'Entry 2: "message" must be a string',
+                'Entry 3: "level" must be a string',
+                'Entry 4: "fields" must be an object',
+            ],
+        });
+    });
+
+    it('rejects other methods', async () => {
+        const response = await fetch(`${baseUrl}/api/ingest`);
+        expect(response.status).toBe(405);
+    });
+
+    it('survives malformed request URLs', async () => {
+        const status = await new Promise<number | undefined>((resolve, reject) => {
+            http.request(`${baseUrl}//a%20b`, { method: 'POST' }, (res) => {
+                res.resume();
+                resolve(res.statusCode);
+            }).on('error', reject).end();
+        });
+
+        expect(status).toBe(404);
+        expect((await post('{"message":"still up"}')).status).toBe(200);
+    });
+});
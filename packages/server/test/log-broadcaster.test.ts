@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Tests for log processing in the broadcaster
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import {
+    DEFAULT_FILTER,
+    LogLevel,
+    MessageType,
+    createLogMessage,
+    parseMessage,
+    type Filter,
+    type HistoryPageMessage,
+    type LogBatchMessage,
+    type LogEntry,
+    type LogMessage,
+} from '@chronoscribe/shared';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { LogBroadcaster } from '../src/log-broadcaster.js';
+import { SegmentedLogStore } from '../src/log-store.js';
+import { SessionManager } from '../src/session-manager.js';
+
+/**
+ * Build a batch message from arbitrary payloads, as a client could send it.
+ */
+function batch(logs: unknown[]): LogBatchMessage {
+    return { type: MessageType.LOG_BATCH, payload: { logs } } as LogBatchMessage;
+}
+
+/**
+ * Payloads of `count` logs captured at 0, 1, 2... milliseconds.
+ */
+function timedLogs(count: number, level = LogLevel.INFO): unknown[] {
+    return Array.from({ length: count }, (_, i) => ({
+        ...createLogMessage(`line ${i}`, `line ${i}`, level).payload,
+        capturedAt: i,
+    }));
+}
+
+/**
+ * Register a viewer that records the history pages it receives.
+ */
+function connectViewer(connections: ConnectionManager, filter: Filter | null = null): HistoryPageMessage['payload'][] {
+    const pages: HistoryPageMessage['payload'][] = [];
+    const ws = {
+        OPEN: 1,
+        readyState: 1,
+        send: (data: string) => {
+            const message = parseMessage(data);
+            if (message?.type === MessageType.HISTORY_PAGE) {
+                pages.push(message.payload);
+            }
+        },
+    };
+    connections.registerViewer(ws as unknown as WebSocket, 'viewer', filter);
+    return pages;
+}
+
+const times = (page: HistoryPageMessage['payload']) => page.logs.map((entry) => entry.capturedAt);
+
+describe('LogBroadcaster', () => {
+    it('creates entries from a batch', () => {
+        const broadcaster = new LogBroadcaster(new ConnectionManager());
+        const entries = broadcaster.processLogBatch('client', 'api', batch([
+            createLogMessage('first', 'first', 'warning').payload,
+            { ...createLogMessage('second', 'second', 'ERROR').payload, capturedAt: 1000, sequence: 2 },
+        ]));
+
+        expect(entries.map((entry) => [entry.content, entry.level])).toEqual([
+            ['first', LogLevel.WARN],
+            ['second', LogLevel.ERROR],
+        ]);
+        expect(entries[1]).toMatchObject({ capturedAt: 1000, sequence: 2, timestamp: '1970-01-01T00:00:01.000Z' });
+        expect(broadcaster.getRecentLogs()).toHaveLength(2);
+    });
+
+    it('skips malformed logs in a batch instead of throwing', () => {
+        const broadcaster = new LogBroadcaster(new ConnectionManager());
+        const entries = broadcaster.processLogBatch('client', 'api', batch([
+            createLogMessage('kept', 'kept', 'info').payload,
+            null,
+            'text',
+            { content: 'no raw', level: 'info' },
+            { content: 'bad level', raw: 'bad level', level: 5 },
+        ]));
+
+        expect(entries.map((entry) => entry.content)).toEqual(['kept']);
+    });
+
+    it('ignores batches without a logs array', () => {
+        const broadcaster = new LogBroadcaster(new ConnectionManager());
+        expect(broadcaster.processLogBatch('client', 'api', batch(null as unknown as unknown[]))).toEqual([]);
+    });
+
+    it('drops a single malformed log', () => {
+        const broadcaster = new LogBroadcaster(new ConnectionManager());
+        const message = { type: MessageType.LOG, payload: { content: 'x', raw: 'x', level: null } } as unknown as LogMessage;
+
+        expect(broadcaster.processLog('client', 'api', message)).toBeNull();
+        expect(broadcaster.getRecentLogs()).toHaveLength(0);
+    });
+});
+
+describe('LogBroadcaster gap detection', () => {
+    const sequenced = (name: string, sequence: number) => ({ ...createLogMessage(name, name, 'info').payload, sequence });
+    const gaps = (entries: Array<{ gapBefore?: number }>) => entries.map((entry) => entry.gapBefore);
+
+    it('marks entries after missing sequence numbers, per source', () => {
+        const broadcaster = new LogBroadcaster(new ConnectionManager());
+        const api = broadcaster.processLogBatch('client', 'api', batch([sequenced('a', 1), sequenced('b', 2), sequenced('c', 5)]));
+        const web = broadcaster.processLogBatch('other', 'web', batch([sequenced('d', 9)]));
+
+        expect(gaps(api)).toEqual([undefined, undefined, 2]);
+        expect(gaps(web)).toEqual([undefined]);
+    });
+
+    it('treats a lower sequence as a restarted source', () => {
+        const broadcaster = new LogBroadcaster(new ConnectionManager());
+        broadcaster.processLogBatch('client', 'api', batch([sequenced('a', 50)]));
+
+        expect(gaps(broadcaster.processLogBatch('client', 'api', batch([sequenced('b', 1), sequenced('c', 2)])))).toEqual([undefined, undefined]);
+    });
+
+    it('marks gaps before viewers filter the entries', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const connections = new ConnectionManager();
+        const received: LogEntry[] = [];
+        const ws = {
+            OPEN: 1,
+            readyState: 1,
+            send: (data: string) => {
+                const message = parseMessage(data);
+                if (message?.type === MessageType.LOG_BROADCAST_BATCH) received.push(...message.payload.logs);
+                if (message?.type === MessageType.LOG_BROADCAST) received.push(message.payload);
+            },
+        };
+        connections.registerViewer(ws as unknown as WebSocket, 'viewer', { ...DEFAULT_FILTER, searchText: 'keep' });
+        const broadcaster = new LogBroadcaster(connections);
+
+        broadcaster.processLogBatch('client', 'api', batch([sequenced('keep 1', 1), sequenced('skip', 2), sequenced('keep 3', 3)]));
+        broadcaster.processLogBatch('client', 'api', batch([sequenced('keep 6', 6)]));
+
+        expect(received.map((entry) => [entry.content, entry.gapBefore])).toEqual([
+            ['keep 1', undefined],
+            ['keep 3', undefined],
+            ['keep 6', 2],
+        ]);
+        vi.restoreAllMocks();
+    });
+});
+
+describe('LogBroadcaster.sendHistoryPage', () => {
+    let dir: string | undefined;
+    let broadcaster: LogBroadcaster | undefined;
+
+    afterEach(() => {
+        broadcaster?.close();
+        broadcaster = undefined;
+        if (dir) fs.rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+        vi.restoreAllMocks();
+    });
+
+    it('sends the newest logs before the cursor in chunks, newest first', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const connections = new ConnectionManager();
+        const pages = connectViewer(connections);
+        broadcaster = new LogBroadcaster(connections, { bufferSize: 2000 });
+        broadcaster.processLogBatch('client', 'api', batch(timedLogs(1200)));
+
+        broadcaster.sendHistoryPage('viewer', { requestId: 'first', before: 1100, limit: 1000 });
+
+        expect(pages.map((page) => [page.requestId, page.logs.length, page.done, page.hasMore])).toEqual([
+            ['first', 500, false, true],
+            ['first', 500, true, true],
+        ]);
+        expect(times(pages[0]!).slice(-1)).toEqual([1099]);
+        expect(times(pages[1]!)[0]).toBe(100);
+
+        // The next page continues before the oldest log received
+        broadcaster.sendHistoryPage('viewer', { requestId: 'second', before: 100, limit: 1000 });
+
+        expect(pages.slice(2).map((page) => [page.logs.length, page.done, page.hasMore])).toEqual([[100, true, false]]);
+        expect(times(pages[2]!).slice(0, 2)).toEqual([0, 1]);
+    });
+
+    it('sends an empty last page when nothing is older', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const connections = new ConnectionManager();
+        const pages = connectViewer(connections);
+        broadcaster = new LogBroadcaster(connections);
+
+        broadcaster.sendHistoryPage('viewer', { requestId: 'empty', before: 0, limit: 10 });
+
+        expect(pages).toEqual([{ requestId: 'empty', logs: [], done: true, hasMore: false }]);
+    });
+
+    /**
+     * A stopped session that ran from `start` to `end` milliseconds.
+     */
+    function sessionBetween(connections: ConnectionManager, start: number, end: number): SessionManager {
+        const sessions = new SessionManager(connections);
+        vi.useFakeTimers({ toFake: ['Date'], now: start });
+        sessions.start('repro');
+        vi.setSystemTime(end);
+        sessions.stop();
+        vi.useRealTimers();
+        return sessions;
+    }
+
+    it('sends the logs of a session\'s time span, whatever the viewer filter', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const connections = new ConnectionManager();
+        const pages = connectViewer(connections, { ...DEFAULT_FILTER, minLevel: LogLevel.ERROR });
+        const sessions = sessionBetween(connections, 100, 199);
+        const [session] = sessions.list();
+        broadcaster = new LogBroadcaster(connections, { sessions });
+        broadcaster.processLogBatch('client', 'api', batch(timedLogs(300)));
+
+        broadcaster.sendHistoryPage('viewer', { requestId: 'session', limit: 1000, sessionId: session!.id });
+        broadcaster.sendHistoryPage('viewer', { requestId: 'older', before: 150, limit: 10, sessionId: session!.id });
+        broadcaster.sendHistoryPage('viewer', { requestId: 'unknown', limit: 10, sessionId: 'missing' });
+
+        expect(pages.map((page) => [page.requestId, page.logs.length, page.hasMore])).toEqual([
+            ['session', 100, false],
+            ['older', 10, true],
+            ['unknown', 0, false],
+        ]);
+        expect([times(pages[0]!)[0], times(pages[0]!).slice(-1)[0]]).toEqual([100, 199]);
+        expect(times(pages[1]!)).toEqual([140, 141, 142, 143, 144, 145, 146, 147, 148, 149]);
+    });
+
+    it('reads a session from the stored history', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-pages-'));
+        const connections = new ConnectionManager();
+        const pages = connectViewer(connections);
+        const sessions = sessionBetween(connections, 1000, 1999);
+        const [session] = sessions.list();
+        broadcaster = new LogBroadcaster(connections, { store: new SegmentedLogStore({ dir }), sessions });
+        broadcaster.processLogBatch('client', 'api', batch(timedLogs(3000)));
+
+        broadcaster.sendHistoryPage('viewer', { requestId: 'session', limit: 2000, sessionId: session!.id });
+
+        await vi.waitFor(() => expect(pages.some((page) => page.done)).toBe(true));
+        const logs = pages.flatMap((page) => times(page));
+        expect(logs).toHaveLength(1000);
+        expect(Math.min(...logs.map(Number))).toBe(1000);
+        expect(Math.max(...logs.map(Number))).toBe(1999);
+        expect(pages.slice(-1)[0]?.hasMore).toBe(false);
+    });
+
+    it('reads the stored history for the viewer filter in slices', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-pages-'));
+        const connections = new ConnectionManager();
+        const pages = connectViewer(connections, { ...DEFAULT_FILTER, minLevel: LogLevel.ERROR });
+        broadcaster = new LogBroadcaster(connections, { store: new SegmentedLogStore({ dir }) });
+        broadcaster.processLogBatch('client', 'api', batch(timedLogs(5000)));
+        broadcaster.processLogBatch('client', 'api', batch(timedLogs(3, LogLevel.ERROR)));
+
+        // Every chunk read takes longer than a slice
+        let now = Date.now();
+        vi.spyOn(Date, 'now').mockImplementation(() => (now += 50));
+        broadcaster.sendHistoryPage('viewer', { requestId: 'errors', limit: 10 });
+        expect(pages).toEqual([]);
+
+        await vi.waitFor(() => expect(pages).toHaveLength(1));
+        expect(pages[0]).toMatchObject({ requestId: 'errors', done: true, hasMore: false });
+        expect(pages[0]?.logs.map((entry) => entry.level)).toEqual([LogLevel.ERROR, LogLevel.ERROR, LogLevel.ERROR]);
+    });
+});
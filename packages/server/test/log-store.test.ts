@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Tests for the segmented log history store
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_FILTER, LogLevel, type Filter, type LogEntry } from '@chronoscribe/shared';
+import { SegmentedLogStore } from '../src/log-store.js';
+
+let dir: string;
+let store: SegmentedLogStore | undefined;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-store-'));
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    store?.close();
+    store = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function entry(id: string, capturedAt: number, overrides: Partial<LogEntry> = {}): LogEntry {
+    return {
+        id,
+        timestamp: new Date(capturedAt).toISOString(),
+        capturedAt,
+        source: 'api',
+        level: LogLevel.INFO,
+        content: `line ${id}`,
+        raw: `line ${id}`,
+        ...overrides,
+    };
+}
+
+/**
+ * Write a segment file directly, last modified at `modified`.
+ */
+function writeSegment(name: string, entries: LogEntry[], modified = Date.now()): void {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, entries.map((item) => `${JSON.stringify(item)}\n`).join(''));
+    fs.utimesSync(file, modified / 1000, modified / 1000);
+}
+
+function search(logStore: SegmentedLogStore, filter: Partial<Filter>): string[] {
+    return [...logStore.search({ ...DEFAULT_FILTER, ...filter })].flat().map((item) => item.id);
+}
+
+const ids = (entries: LogEntry[]) => entries.map((item) => item.id);
+const segmentFiles = () => fs.readdirSync(dir).filter((name) => name.endsWith('.ndjson')).sort();
+
+describe('SegmentedLogStore', () => {
+    it('reads the newest entries before a time, oldest first', () => {
+        store = new SegmentedLogStore({ dir });
+        store.append([entry('a', 1000), entry('c', 3000), entry('b', 2000), entry('d', 4000)]);
+
+        expect(ids(store.readBefore(4000, 2))).toEqual(['b', 'c']);
+        expect(ids(store.readBefore(Infinity, 10, { after: 2000 }))).toEqual(['b', 'c', 'd']);
+        expect(ids(store.readBefore(Infinity, 10, { matches: (item) => item.id !== 'c' }))).toEqual(['a', 'b', 'd']);
+    });
+
+    it('pauses a read between chunks of entries', () => {
+        writeSegment('000000000000001.ndjson', Array.from({ length: 5000 }, (_, i) => entry(`e${i}`, i)));
+        store = new SegmentedLogStore({ dir });
+
+        const scan = store.scanBefore(Infinity, 3);
+        let pauses = 0;
+        let next = scan.next();
+        for (; !next.done; next = scan.next()) {
+            pauses++;
+        }
+
+        expect(pauses).toBe(2);
+        expect(ids(next.value)).toEqual(['e4997', 'e4998', 'e4999']);
+    });
+
+    it('rebuilds the index from the segments on disk', () => {
+        store = new SegmentedLogStore({ dir });
+        store.append([entry('a', 1000, { content: 'disk full', level: LogLevel.ERROR }), entry('b', 2000)]);
+        store.close();
+
+        fs.appendFileSync(path.join(dir, segmentFiles()[0] ?? ''), '{"id":"cut sh');
+        store = new SegmentedLogStore({ dir });
+
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['a', 'b']);
+        expect(search(store, { searchText: 'disk' })).toEqual(['a']);
+        expect(search(store, { minLevel: LogLevel.ERROR })).toEqual(['a']);
+    });
+
+    it('deletes segments past the age limit on startup', () => {
+        const now = Date.now();
+        writeSegment('000000000000001.ndjson', [entry('old', 1000)], now - 2 * 60 * 60_000);
+        writeSegment('000000000000002.ndjson', [entry('new', 2000)], now);
+
+        store = new SegmentedLogStore({ dir, maxAgeMs: 60 * 60_000 });
+
+        expect(segmentFiles()).toEqual(['000000000000002.ndjson']);
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['new']);
+        expect(search(store, {})).toEqual(['new']);
+    });
+
+    it('deletes the oldest segments while the history is too large', () => {
+        writeSegment('000000000000001.ndjson', [entry('a', 1000)]);
+        writeSegment('000000000000002.ndjson', [entry('b', 2000)]);
+        writeSegment('000000000000003.ndjson', [entry('c', 3000)]);
+        const segmentBytes = fs.statSync(path.join(dir, '000000000000003.ndjson')).size;
+
+        store = new SegmentedLogStore({ dir, maxBytes: segmentBytes * 2 });
+
+        expect(segmentFiles()).toEqual(['000000000000002.ndjson', '000000000000003.ndjson']);
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['b', 'c']);
+        expect(search(store, { searchText: 'line' }).sort()).toEqual(['b', 'c']);
+    });
+
+    it('drops deleted segments from reads and searches while running', () => {
+        vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+        store = new SegmentedLogStore({ dir, maxAgeMs: 30 * 60_000 });
+        store.append([entry('a', 1000)]);
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['a']);
+
+        // The segment is rotated on the next write after an hour, and is by
+        // then past the age limit
+        vi.advanceTimersByTime(61 * 60_000);
+        store.append([entry('b', 2000)]);
+        vi.advanceTimersByTime(1000);
+        store.append([entry('c', 3000)]);
+
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['c']);
+        expect(search(store, { searchText: 'line' })).toEqual(['c']);
+        expect(segmentFiles()).toHaveLength(1);
+    });
+
+    it('keeps segment spans across restarts instead of reading the segments', () => {
+        store = new SegmentedLogStore({ dir });
+        store.append([entry('a', 1000), entry('b', 2000)]);
+        store.close();
+
+        const readFile = vi.spyOn(fs, 'readFileSync');
+        store = new SegmentedLogStore({ dir });
+        expect(readFile.mock.calls.map(([file]) => path.basename(String(file)))).toEqual(['segments.json']);
+
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['a', 'b']);
+        readFile.mockRestore();
+    });
+
+    it('indexes entries written during startup after the history on disk', async () => {
+        writeSegment('000000000000001.ndjson', [entry('a', 1000), entry('b', 2000)]);
+        store = new SegmentedLogStore({ dir });
+        store.append([entry('c', 3000)]);
+        expect(ids(store.readBefore(Infinity, 10))).toEqual(['a', 'b', 'c']);
+
+        // The index is rebuilt in the background
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(search(store, { searchText: 'line' })).toEqual(['c', 'b', 'a']);
+    });
+
+    it('rebuilds the index in slices while a search waits', () => {
+        const count = 5000;
+        writeSegment('000000000000001.ndjson', Array.from({ length: count }, (_, i) => entry(`e${i}`, i)));
+        store = new SegmentedLogStore({ dir });
+
+        const chunks = [...store.search({ ...DEFAULT_FILTER, searchText: 'e4999' })];
+
+        expect(chunks.slice(0, 3)).toEqual([[], [], []]);
+        expect(chunks.flat().map((item) => item.id)).toEqual(['e4999']);
+    });
+});
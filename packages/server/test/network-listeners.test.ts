@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tests for the syslog and raw TCP listeners
+ */
+
+import dgram from 'node:dgram';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { ExternalSources } from '../src/external-sources.js';
+import { LogBroadcaster } from '../src/log-broadcaster.js';
+import { startSyslogListener, startTcpLineListener } from '../src/network-listeners.js';
+
+let broadcaster: LogBroadcaster;
+let sources: ExternalSources;
+const cleanups: Array<() => void> = [];
+
+beforeEach(() => {
+    const connectionManager = new ConnectionManager();
+    broadcaster = new LogBroadcaster(connectionManager);
+    sources = new ExternalSources(connectionManager, broadcaster);
+});
+
+afterEach(() => {
+    for (const cleanup of cleanups.splice(0)) {
+        cleanup();
+    }
+    vi.restoreAllMocks();
+});
+
+/**
+ * Write to a TCP port and close the connection.
+ */
+function sendTcp(port: number, data: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const socket = net.connect(port, '127.0.0.1', () => socket.end(data));
+        socket.on('close', () => resolve());
+        socket.on('error', reject);
+    });
+}
+
+async function listening(server: net.Server): Promise<number> {
+    if (!server.listening) {
+        await new Promise((resolve) => server.once('listening', resolve));
+    }
+    return (server.address() as AddressInfo).port;
+}
+
+const contents = () => broadcaster.getRecentLogs().map((entry) => entry.content);
+
+describe('startTcpLineListener', () => {
+    it('sends each line as an entry from the connection', async () => {
+        const server = startTcpLineListener(0, sources, broadcaster);
+        cleanups.push(() => server.close());
+
+        await sendTcp(await listening(server), 'first line\r\nERROR second line\n\nlast without newline');
+
+        await vi.waitFor(() => expect(contents()).toEqual(['first line', 'ERROR second line', 'last without newline']));
+        const [first, second] = broadcaster.getRecentLogs();
+        expect(first?.source).toMatch(/^127\.0\.0\.1:\d+$/);
+        expect(second?.level).toBe(LogLevel.ERROR);
+    });
+
+    it('drops a line that cannot be handled and keeps going', async () => {
+        const server = startTcpLineListener(0, sources, broadcaster);
+        cleanups.push(() => server.close());
+        const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const processLog = broadcaster.processLog.bind(broadcaster);
+        vi.spyOn(broadcaster, 'processLog')
+            .mockImplementationOnce(() => {
+                throw new Error('boom');
+            })
+            .mockImplementation(processLog);
+
+        await sendTcp(await listening(server), 'bad\ngood\n');
+
+        await vi.waitFor(() => expect(contents()).toEqual(['good']));
+        expect(error).toHaveBeenCalledWith('[TCP] Dropped a line that could not be handled: boom');
+    });
+});
+
+describe('startSyslogListener', () => {
+    it('accepts octet-counted and newline-framed messages over TCP', async () => {
+        const { udp, tcp } = startSyslogListener(0, sources, broadcaster);
+        cleanups.push(() => tcp.close(), () => udp.close());
+
+        const rfc5424 = '<11>1 2024-01-02T03:04:05.000Z host api 12 - - disk failing';
+        await sendTcp(await listening(tcp), `${rfc5424.length} ${rfc5424}<14>myapp: plain message\n`);
+
+        await vi.waitFor(() => expect(broadcaster.getRecentLogs()).toHaveLength(2));
+        expect(broadcaster.getRecentLogs().map((entry) => [entry.source, entry.level, entry.content])).toEqual([
+            ['api', LogLevel.ERROR, 'disk failing'],
+            ['myapp', LogLevel.INFO, 'plain message'],
+        ]);
+    });
+
+    it('accepts messages over UDP', async () => {
+        const { udp, tcp } = startSyslogListener(0, sources, broadcaster);
+        cleanups.push(() => tcp.close(), () => udp.close());
+        await new Promise((resolve) => udp.once('listening', resolve));
+
+        const client = dgram.createSocket('udp4');
+        cleanups.push(() => client.close());
+        client.send('<12>Jan  2 03:04:05 host worker[7]: queue backing up', udp.address().port, '127.0.0.1');
+
+        await vi.waitFor(() => expect(broadcaster.getRecentLogs()[0]).toMatchObject({
+            source: 'worker',
+            level: LogLevel.WARN,
+            content: 'queue backing up',
+        }));
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Tests for the OTLP/HTTP JSON logs receiver
+ */
+
+import type http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LogLevel } from '@chronoscribe/shared';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { ExternalSources } from '../src/external-sources.js';
+import { startApiServer } from '../src/http-api.js';
+import { LogBroadcaster } from '../src/log-broadcaster.js';
+import { createOtlpHandler } from '../src/otlp-receiver.js';
+
+let server: http.Server;
+let broadcaster: LogBroadcaster;
+let baseUrl: string;
+
+beforeEach(async () => {
+    const connectionManager = new ConnectionManager();
+    broadcaster = new LogBroadcaster(connectionManager);
+    const sources = new ExternalSources(connectionManager, broadcaster);
+    server = startApiServer(0, createOtlpHandler(sources, broadcaster));
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+function post(body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}/v1/logs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+}
+
+/**
+ * Wrap log records in an export request for one service.
+ */
+function exportRequest(logRecords: unknown[]): unknown {
+    return {
+        resourceLogs: [{
+            resource: { attributes: [{ key: 'service.name', value: { stringValue: 'checkout' } }] },
+            scopeLogs: [{ scope: { name: 'http' }, logRecords }],
+        }],
+    };
+}
+
+describe('POST /v1/logs', () => {
+    it('maps records to entries of the service source', async () => {
+        const response = await post(exportRequest([{
+            timeUnixNano: '1700000000000000000',
+            severityNumber: 13,
+            body: { stringValue: 'slow checkout' },
+            attributes: [
+                { key: 'cart', value: { kvlistValue: { values: [{ key: 'items', value: { intValue: '3' } }] } } },
+                { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'a' }, { boolValue: true }] } } },
+            ],
+            traceId: 'abc',
+        }]));
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({});
+        expect(broadcaster.getRecentLogs()[0]).toMatchObject({
+            source: 'checkout',
+            level: LogLevel.WARN,
+            content: 'slow checkout',
+            capturedAt: 1700000000000,
+            fields: { cart: { items: 3 }, tags: ['a', true], traceId: 'abc', scope: 'http' },
+        });
+    });
+
+    it('falls back to severityText, then the body text', async () => {
+        await post(exportRequest([
+            { severityText: 'fatal', body: { stringValue: 'a' } },
+            { body: { stringValue: 'WARN b' } },
+        ]));
+
+        expect(broadcaster.getRecentLogs().map((entry) => entry.level)).toEqual([LogLevel.ERROR, LogLevel.WARN]);
+    });
+
+    it('rejects malformed records individually', async () => {
+        const response = await post(exportRequest([null, 5, { body: { stringValue: 'kept' } }]));
+
+        expect(await response.json()).toEqual({
+            partialSuccess: { rejectedLogRecords: 2, errorMessage: 'Malformed log records' },
+        });
+        expect(broadcaster.getRecentLogs().map((entry) => entry.content)).toEqual(['kept']);
+    });
+
+    it.each([
+        ['null', 'Request must be a JSON object'],
+        ['{"resourceLogs":5}', '"resourceLogs" must be an array'],
+        ['{"resourceLogs":[null]}', '"resourceLogs" entries must be objects'],
+        ['{"resourceLogs":[{"scopeLogs":{}}]}', '"scopeLogs" must be an array'],
+        ['{"resourceLogs":[{"scopeLogs":[{"logRecords":"x"}]}]}', '"logRecords" must be an array'],
+    ])('answers 400 for the wrong shape: %s', async (body, error) => {
+        const response = await post(body);
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error });
+    });
+
+    it('ignores malformed values inside records', async () => {
+        const response = await post(exportRequest([{
+            severityText: 5,
+            body: { arrayValue: null },
+            attributes: 'x',
+        }, {
+            body: { kvlistValue: { values: 7 } },
+            attributes: [null, { key: 'k', value: { arrayValue: { values: 'x' } } }],
+        }]));
+
+        expect(response.status).toBe(200);
+        expect(broadcaster.getRecentLogs().map((entry) => [entry.level, entry.content])).toEqual([
+            [LogLevel.INFO, '[]'],
+            [LogLevel.INFO, '{}'],
+        ]);
+        expect(broadcaster.getRecentLogs()[1]?.fields).toMatchObject({ k: [] });
+    });
+
+    it('accepts requests without logs', async () => {
+        expect((await post({})).status).toBe(200);
+    });
+
+    it('rejects the protobuf encoding', async () => {
+        const response = await fetch(`${baseUrl}/v1/logs`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-protobuf' },
+            body: '',
+        });
+        expect(response.status).toBe(415);
+    });
+});
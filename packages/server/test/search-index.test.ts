@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for the inverted index over the log history
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER, LogLevel, type Filter, type LogEntry } from '@chronoscribe/shared';
+import { SearchIndex } from '../src/search-index.js';
+
+const HOUR_MS = 60 * 60_000;
+
+function entry(content: string, overrides: Partial<LogEntry> = {}): LogEntry {
+    return {
+        id: content,
+        timestamp: new Date(0).toISOString(),
+        source: 'api',
+        level: LogLevel.INFO,
+        content,
+        raw: content,
+        ...overrides,
+    };
+}
+
+/**
+ * Index entries under IDs counting up from 0.
+ */
+function indexOf(entries: LogEntry[]): SearchIndex {
+    const index = new SearchIndex();
+    entries.forEach((item, id) => index.add(id, item));
+    return index;
+}
+
+function candidates(index: SearchIndex, filter: Partial<Filter>, now?: number): number[] {
+    return index.candidates({ ...DEFAULT_FILTER, ...filter }, now);
+}
+
+describe('SearchIndex', () => {
+    it('returns every entry, newest first, for an empty filter', () => {
+        const index = indexOf([entry('a'), entry('b'), entry('c')]);
+        expect(candidates(index, {})).toEqual([2, 1, 0]);
+    });
+
+    it('narrows by source, level and words', () => {
+        const index = indexOf([
+            entry('connection refused', { level: LogLevel.ERROR }),
+            entry('connection opened', { source: 'web' }),
+            entry('disk refused', { level: LogLevel.WARN, source: 'web' }),
+        ]);
+
+        expect(candidates(index, { sources: ['web'] })).toEqual([2, 1]);
+        expect(candidates(index, { minLevel: LogLevel.WARN })).toEqual([2, 0]);
+        expect(candidates(index, { searchText: 'connection' })).toEqual([1, 0]);
+        expect(candidates(index, { searchText: 'ion ref' })).toEqual([0]);
+    });
+
+    it('matches partial words at the edges of a search', () => {
+        const index = indexOf([entry('timeout after 30s'), entry('timed out'), entry('layout')]);
+
+        expect(candidates(index, { searchText: 'out' })).toEqual([2, 1, 0]);
+        expect(candidates(index, { searchText: 'time' })).toEqual([1, 0]);
+        expect(candidates(index, { searchText: 'timed out after' })).toEqual([]);
+    });
+
+    it('indexes field names and values', () => {
+        const index = indexOf([
+            entry('request', { fields: { user: 'ada', status: 500 } }),
+            entry('request', { fields: { user: 'grace' } }),
+        ]);
+
+        expect(candidates(index, { searchText: 'user=ad' })).toEqual([0]);
+        expect(candidates(index, { searchText: '500' })).toEqual([0]);
+    });
+
+    it('narrows by the hours of a time range', () => {
+        const index = indexOf([
+            entry('old', { timestamp: new Date(0).toISOString() }),
+            entry('new', { timestamp: new Date(5 * HOUR_MS).toISOString() }),
+        ]);
+        const now = 5 * HOUR_MS + 1000;
+
+        expect(candidates(index, { timeRange: { enabled: true, type: 'relative', last: 30 } }, now)).toEqual([1]);
+        expect(candidates(index, {
+            timeRange: { enabled: true, type: 'absolute', end: new Date(HOUR_MS).toISOString() },
+        })).toEqual([0]);
+    });
+
+    it('leaves regex searches to the caller', () => {
+        const index = indexOf([entry('a'), entry('b')]);
+        expect(candidates(index, { searchText: 'z+', searchMode: 'regex' })).toEqual([1, 0]);
+    });
+
+    it('forgets removed entries', () => {
+        const index = indexOf([entry('one'), entry('two'), entry('one two')]);
+        index.removeBefore(2);
+
+        expect(candidates(index, {})).toEqual([2]);
+        expect(candidates(index, { searchText: 'one' })).toEqual([2]);
+        expect(candidates(index, { sources: ['api'] })).toEqual([2]);
+
+        index.add(3, entry('three'));
+        expect(candidates(index, { searchText: 'three' })).toEqual([3]);
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Tests for capture sessions
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    LogLevel,
+    MessageType,
+    createLogMessage,
+    createSessionStartMessage,
+    createSessionStopMessage,
+    createSessionsRequestMessage,
+    type LogEntry,
+    type SessionsListMessage,
+} from '@chronoscribe/shared';
+import { ConnectionManager } from '../src/connection-manager.js';
+import { SessionManager, SESSIONS_FILE } from '../src/session-manager.js';
+
+let dir: string;
+let connections: ConnectionManager;
+let broadcast: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chronoscribe-sessions-'));
+    connections = new ConnectionManager();
+    broadcast = vi.spyOn(connections, 'broadcastToViewers');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1000);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const file = () => path.join(dir, SESSIONS_FILE);
+
+/**
+ * A log entry from a source.
+ */
+function log(source: string): LogEntry {
+    return {
+        id: source,
+        timestamp: new Date(0).toISOString(),
+        source,
+        level: LogLevel.INFO,
+        content: 'line',
+        raw: 'line',
+    };
+}
+
+describe('SessionManager', () => {
+    it('runs one session at a time and tells viewers of every change', () => {
+        const sessions = new SessionManager(connections);
+
+        const first = sessions.start('  login bug  ');
+        vi.setSystemTime(2000);
+        const second = sessions.start('');
+
+        expect(first).toMatchObject({ label: 'login bug', startedAt: new Date(1000).toISOString(), endedAt: new Date(2000).toISOString() });
+        expect(second).toMatchObject({ label: 'Session 2', startedAt: new Date(2000).toISOString() });
+        expect(second.endedAt).toBeUndefined();
+
+        expect(sessions.stop()).toBe(second);
+        expect(sessions.stop()).toBeNull();
+        expect(broadcast).toHaveBeenCalledTimes(3);
+        expect(broadcast).toHaveBeenLastCalledWith({ type: MessageType.SESSIONS_LIST, payload: { sessions: [first, second] } });
+    });
+
+    it('records the sources that log while a session runs', () => {
+        const sessions = new SessionManager(connections);
+        sessions.noteLogs([log('before')]);
+
+        const session = sessions.start('repro');
+        sessions.noteLogs([log('api'), log('worker'), log('api')]);
+        sessions.noteLogs([log('api')]);
+        sessions.stop();
+        sessions.noteLogs([log('after')]);
+
+        expect(sessions.get(session.id)?.sources).toEqual(['api', 'worker']);
+        // Start, new sources and stop; a known source changes nothing
+        expect(broadcast).toHaveBeenCalledTimes(3);
+    });
+
+    it('saves the sessions and reads them back after a restart', () => {
+        const sessions = new SessionManager(connections, file());
+        const session = sessions.start('repro');
+        sessions.stop();
+
+        expect(new SessionManager(connections, file()).list()).toEqual([session]);
+    });
+
+    it('skips invalid stored sessions and survives an unreadable file', () => {
+        const valid = { id: 'a', label: 'kept', startedAt: new Date(0).toISOString(), sources: [] };
+        fs.writeFileSync(file(), JSON.stringify([valid, { id: 'b' }, null]));
+        expect(new SessionManager(connections, file()).list()).toEqual([valid]);
+
+        const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        fs.writeFileSync(file(), '{ nope');
+        expect(new SessionManager(connections, file()).list()).toEqual([]);
+        expect(error).toHaveBeenCalledWith(expect.stringMatching(/^\[Storage\] Failed to read sessions: /));
+    });
+});
+
+describe('SessionManager.handleMessage', () => {
+    let sessions: SessionManager;
+    let replies: SessionsListMessage[];
+    const reply = (message: SessionsListMessage) => replies.push(message);
+
+    beforeEach(() => {
+        sessions = new SessionManager(connections);
+        replies = [];
+    });
+
+    it('answers the CLI, which may not be registered, with the sessions', () => {
+        expect(sessions.handleMessage(createSessionStartMessage('repro'), false, reply)).toBe(true);
+        expect(replies.map((message) => message.payload.sessions.map((session) => session.label))).toEqual([['repro']]);
+
+        expect(sessions.handleMessage(createSessionStopMessage(), false, reply)).toBe(true);
+        expect(replies[1]?.payload.sessions[0]?.endedAt).toBe(new Date(1000).toISOString());
+    });
+
+    it('leaves viewers to the broadcast, except when they ask for the list', () => {
+        sessions.handleMessage(createSessionStartMessage('repro'), true, reply);
+        sessions.handleMessage(createSessionStopMessage(), true, reply);
+        expect(replies).toEqual([]);
+        expect(broadcast).toHaveBeenCalledTimes(2);
+
+        sessions.handleMessage(createSessionsRequestMessage(), true, reply);
+        expect(replies).toEqual([{ type: MessageType.SESSIONS_LIST, payload: { sessions: sessions.list() } }]);
+    });
+
+    it('ignores a non-string label and other messages', () => {
+        sessions.handleMessage({ type: MessageType.SESSION_START, payload: { label: 5 } } as never, false, reply);
+        expect(sessions.list()[0]?.label).toBe('Session 1');
+
+        expect(sessions.handleMessage(createLogMessage('line', 'line'), false, reply)).toBe(false);
+        expect(replies).toHaveLength(1);
+    });
+});
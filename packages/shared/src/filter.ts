@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Log filter matching for Chronoscribe
+ *
+ * The dashboard filters its timeline with these functions, and the server
+ * uses the same ones to forward only the logs a viewer subscribed to.
+ */
+
+import {
+    DEFAULT_FILTER,
+    LOG_LEVEL_PRIORITY,
+    LogLevel,
+    type Filter,
+    type LogEntry,
+    type LogFields,
+} from './types.js';
+
+/**
+ * Tests whether a log passes a filter. `now` is used for relative time
+ * ranges (default: the current time).
+ */
+export type LogMatcher = (log: LogEntry, now?: number) => boolean;
+
+/**
+ * Create a matcher for a filter, compiling its patterns once.
+ */
+export function createLogMatcher(filter: Filter): LogMatcher {
+    const searchLower = filter.searchText.toLowerCase();
+    const searchRegex = filter.searchText && filter.searchMode === 'regex'
+        ? compileRegex(filter.searchText)
+        : null;
+    const legacyRegex = filter.regex ? compileRegex(filter.regex) : null;
+    const minPriority = LOG_LEVEL_PRIORITY[filter.minLevel];
+    const { timeRange } = filter;
+    const start = timeRange.start ? new Date(timeRange.start).getTime() : NaN;
+    const end = timeRange.end ? new Date(timeRange.end).getTime() : NaN;
+
+    return (log, now = Date.now()) => {
+        // Time range filter
+        if (timeRange.enabled) {
+            const logTime = new Date(log.timestamp).getTime();
+
+            if (timeRange.type === 'relative' && timeRange.last) {
+                const cutoff = now - timeRange.last * 60 * 1000;
+                if (logTime < cutoff) return false;
+            }
+
+            if (timeRange.type === 'absolute') {
+                if (logTime < start || logTime > end) return false;
+            }
+        }
+
+        // Exclude sources filter
+        if (filter.excludeSources.includes(log.source)) {
+            return false;
+        }
+
+        // Include sources filter
+        if (filter.sources.length > 0 && !filter.sources.includes(log.source)) {
+            return false;
+        }
+
+        // Filter by level
+        if (LOG_LEVEL_PRIORITY[log.level] < minPriority) {
+            return false;
+        }
+
+        // Search with regex support; an invalid regex searches as text
+        if (filter.searchText) {
+            if (filter.searchMode === 'regex') {
+                if (searchRegex ? !searchRegex.test(log.content) : !log.content.toLowerCase().includes(searchLower)) {
+                    return false;
+                }
+            } else {
+                // "key=value" matches structured fields when the log has that key
+                const fieldMatch = matchFieldQuery(log.fields, filter.searchText);
+                if (
+                    fieldMatch === false ||
+                    (fieldMatch === null && !log.content.toLowerCase().includes(searchLower))
+                ) {
+                    return false;
+                }
+            }
+        }
+
+        // Legacy regex filter (skipped when invalid)
+        if (legacyRegex && !legacyRegex.test(log.content)) {
+            return false;
+        }
+
+        return true;
+    };
+}
+
+/**
+ * Match a `key=value` search against a log's structured fields
+ * (case-insensitive substring match on the value).
+ * Returns null when the search is not a field query or the log has no such
+ * field, so the caller can fall back to searching the content.
+ */
+export function matchFieldQuery(
+    fields: LogFields | undefined,
+    searchText: string
+): boolean | null {
+    const match = searchText.match(/^([^\s=]+)=(.*)$/);
+    const key = match?.[1];
+    if (key === undefined || !fields || !(key in fields)) {
+        return null;
+    }
+    return formatFieldValue(fields[key])
+        .toLowerCase()
+        .includes((match?.[2] ?? '').toLowerCase());
+}
+
+/**
+ * Format a structured field value as text.
+ */
+export function formatFieldValue(value: unknown): string {
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Read a filter received over the network, filling in defaults for
+ * missing or malformed properties. Returns null if it is not an object.
+ */
+export function parseFilter(value: unknown): Filter | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return null;
+    }
+    const input = value as Partial<Record<keyof Filter, unknown>>;
+    const strings = (items: unknown): string[] =>
+        Array.isArray(items) ? items.filter((item): item is string => typeof item === 'string') : [];
+    const timeRange = typeof input.timeRange === 'object' && input.timeRange !== null
+        ? input.timeRange as Partial<Filter['timeRange']>
+        : {};
+
+    return {
+        sources: strings(input.sources),
+        excludeSources: strings(input.excludeSources),
+        minLevel: typeof input.minLevel === 'string' && input.minLevel in LogLevel
+            ? input.minLevel as LogLevel
+            : DEFAULT_FILTER.minLevel,
+        searchText: typeof input.searchText === 'string' ? input.searchText : '',
+        searchMode: input.searchMode === 'regex' ? 'regex' : 'text',
+        regex: typeof input.regex === 'string' ? input.regex : null,
+        sourceFilterMode: input.sourceFilterMode === 'all' ? 'all' : 'any',
+        timeRange: {
+            enabled: timeRange.enabled === true,
+            type: timeRange.type === 'absolute' ? 'absolute' : 'relative',
+            ...(typeof timeRange.last === 'number' ? { last: timeRange.last } : {}),
+            ...(typeof timeRange.start === 'string' ? { start: timeRange.start } : {}),
+            ...(typeof timeRange.end === 'string' ? { end: timeRange.end } : {}),
+        },
+    };
+}
+
+/**
+ * Compile a case-insensitive search pattern, or return null if invalid.
+ */
+function compileRegex(pattern: string): RegExp | null {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+}
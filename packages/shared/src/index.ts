@@ -9,10 +9,13 @@ export {
     LogLevel,
     LOG_LEVEL_PRIORITY,
     type LogEntry,
+    type LogStream,
+    type LogFields,
     type Source,
     type Filter,
     type TimeRangeFilter,
     type Bookmark,
+    type CaptureSession,
     type AlertConfig,
     DEFAULT_FILTER,
     DEFAULT_ALERT_CONFIG,
@@ -27,13 +30,26 @@ export {
     ClientType,
     type SourceRegisterMessage,
     type LogMessage,
+    type LogMessageMetadata,
+    type LogBatchMessage,
     type HeartbeatMessage,
+    type HistoryRequestMessage,
+    type SubscribeMessage,
+    type SearchRequestMessage,
+    type SearchCancelMessage,
+    type SessionStartMessage,
+    type SessionStopMessage,
+    type SessionsRequestMessage,
     type WelcomeMessage,
     type LogBroadcastMessage,
+    type LogBroadcastBatchMessage,
     type SourceConnectedMessage,
     type SourceDisconnectedMessage,
     type SourcesListMessage,
     type LogsBatchMessage,
+    type HistoryPageMessage,
+    type SearchResultsMessage,
+    type SessionsListMessage,
     type ErrorMessage,
     type ClientMessage,
     type ServerMessage,
@@ -42,6 +58,36 @@ export {
     parseMessage,
     serializeMessage,
     createLogMessage,
+    createLogBatchMessage,
     createSourceRegisterMessage,
     createHeartbeatMessage,
+    createHistoryRequestMessage,
+    createSubscribeMessage,
+    createSearchRequestMessage,
+    createSearchCancelMessage,
+    createSessionStartMessage,
+    createSessionStopMessage,
+    createSessionsRequestMessage,
 } from './protocol.js';
+
+// Filtering
+export {
+    type LogMatcher,
+    createLogMatcher,
+    matchFieldQuery,
+    formatFieldValue,
+    parseFilter,
+} from './filter.js';
+
+// Levels
+export { detectLevel, normalizeLevel } from './levels.js';
+
+// Syslog
+export {
+    type SyslogMessage,
+    parseSyslogMessage,
+    syslogSeverityLevel,
+} from './syslog.js';
+
+// Rate limiting
+export { TokenBucket } from './rate-limit.js';
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Log level detection and normalization for Chronoscribe
+ *
+ * Shared by the CLI parser and the server's network listeners, so a line
+ * gets the same level however it arrives.
+ */
+
+import { LogLevel } from './types.js';
+
+/**
+ * Common log level patterns from various frameworks.
+ * Listed in order of priority (most specific first).
+ */
+const LEVEL_PATTERNS: Array<{ pattern: RegExp; level: LogLevel }> = [
+    // ERROR patterns
+    { pattern: /\b(ERROR|ERR|FATAL|CRITICAL|CRIT)\b/i, level: LogLevel.ERROR },
+    { pattern: /\[error\]/i, level: LogLevel.ERROR },
+    { pattern: /❌|🔴|💥/, level: LogLevel.ERROR },
+    // Stack trace headlines (e.g. "TypeError: x", "java.lang.IllegalStateException: x")
+    { pattern: /^Traceback \(most recent call last\):/m, level: LogLevel.ERROR },
+    { pattern: /(?:^|\s)(?:[\w$]+\.)*[\w$]*(?:Exception|Error)(?::|$)/m, level: LogLevel.ERROR },
+
+    // WARN patterns
+    { pattern: /\b(WARN|WARNING|WRN)\b/i, level: LogLevel.WARN },
+    { pattern: /\[warn(ing)?\]/i, level: LogLevel.WARN },
+    { pattern: /⚠️|🟡|🟠/, level: LogLevel.WARN },
+
+    // DEBUG patterns
+    { pattern: /\b(DEBUG|DBG|TRACE|VERBOSE)\b/i, level: LogLevel.DEBUG },
+    { pattern: /\[debug\]/i, level: LogLevel.DEBUG },
+    { pattern: /🔍|🐛/, level: LogLevel.DEBUG },
+
+    // INFO patterns (checked last as it's the default)
+    { pattern: /\b(INFO|INF|LOG)\b/i, level: LogLevel.INFO },
+    { pattern: /\[info\]/i, level: LogLevel.INFO },
+    { pattern: /ℹ️|🟢|✅/, level: LogLevel.INFO },
+];
+
+/**
+ * Detect the level of free text using the default patterns.
+ */
+export function detectLevel(text: string): LogLevel {
+    for (const { pattern, level } of LEVEL_PATTERNS) {
+        if (pattern.test(text)) {
+            return level;
+        }
+    }
+    return LogLevel.INFO;
+}
+
+/**
+ * Normalize a level string to a LogLevel enum value.
+ */
+export function normalizeLevel(levelStr: string): LogLevel {
+    const upper = levelStr.toUpperCase();
+
+    if (
+        upper === 'ERROR' || upper === 'ERR' || upper === 'FATAL' || upper === 'CRITICAL' ||
+        upper === 'CRIT' || upper === 'PANIC' || upper === 'DPANIC' || upper === 'ALERT' ||
+        upper === 'EMERG' || upper === 'EMERGENCY'
+    ) {
+        return LogLevel.ERROR;
+    }
+    if (upper === 'WARN' || upper === 'WARNING' || upper === 'WRN') {
+        return LogLevel.WARN;
+    }
+    if (upper === 'DEBUG' || upper === 'DBG' || upper === 'TRACE' || upper === 'VERBOSE') {
+        return LogLevel.DEBUG;
+    }
+    if (upper === 'INFO' || upper === 'INF' || upper === 'LOG' || upper === 'NOTICE') {
+        return LogLevel.INFO;
+    }
+
+    return LogLevel.INFO;
+}
@@ -5,7 +5,7 @@
  * CLI clients, the server, and dashboard viewers. All messages are JSON-encoded.
  */
 
-import type { LogEntry, Source } from './types.js';
+import type { CaptureSession, Filter, LogEntry, LogFields, LogStream, Source } from './types.js';
 
 /**
  * Message types for the WebSocket protocol.
@@ -16,14 +16,32 @@ export enum MessageType {
     SOURCE_REGISTER = 'SOURCE_REGISTER',
     /** CLI client sending a log entry */
     LOG = 'LOG',
+    /** CLI client sending several log entries at once */
+    LOG_BATCH = 'LOG_BATCH',
     /** Heartbeat to keep connection alive */
     HEARTBEAT = 'HEARTBEAT',
+    /** Viewer asking for logs older than the ones it has */
+    HISTORY_REQUEST = 'HISTORY_REQUEST',
+    /** Viewer choosing which logs it receives */
+    SUBSCRIBE = 'SUBSCRIBE',
+    /** Viewer searching the whole log history */
+    SEARCH_REQUEST = 'SEARCH_REQUEST',
+    /** Viewer stopping a search */
+    SEARCH_CANCEL = 'SEARCH_CANCEL',
+    /** Start a named capture session */
+    SESSION_START = 'SESSION_START',
+    /** Stop the running capture session */
+    SESSION_STOP = 'SESSION_STOP',
+    /** Ask for the list of capture sessions */
+    SESSIONS_REQUEST = 'SESSIONS_REQUEST',
 
     // Server -> Client messages
     /** Welcome message with connection info */
     WELCOME = 'WELCOME',
     /** Broadcast of a new log entry to viewers */
     LOG_BROADCAST = 'LOG_BROADCAST',
+    /** Broadcast of several new log entries to viewers */
+    LOG_BROADCAST_BATCH = 'LOG_BROADCAST_BATCH',
     /** Source connected notification */
     SOURCE_CONNECTED = 'SOURCE_CONNECTED',
     /** Source disconnected notification */
@@ -32,6 +50,12 @@ export enum MessageType {
     SOURCES_LIST = 'SOURCES_LIST',
     /** Batch of recent logs for new connections */
     LOGS_BATCH = 'LOGS_BATCH',
+    /** One chunk of the reply to a history request */
+    HISTORY_PAGE = 'HISTORY_PAGE',
+    /** A page of results of a history search */
+    SEARCH_RESULTS = 'SEARCH_RESULTS',
+    /** All capture sessions, sent when they change */
+    SESSIONS_LIST = 'SESSIONS_LIST',
     /** Error message */
     ERROR = 'ERROR',
 }
@@ -77,6 +101,36 @@ export interface LogMessage {
         level: string;
         /** Optional timestamp from the log line itself */
         originalTimestamp?: string;
+        /** Stream the line was captured from (run mode only) */
+        stream?: LogStream;
+        /** Path of the file the line was read from (file mode only) */
+        file?: string;
+        /** Structured attributes parsed from the line */
+        fields?: LogFields;
+        /** Content with ANSI escape sequences preserved (content itself is plain) */
+        styledContent?: string;
+        /** High-resolution capture time in epoch milliseconds (fractional) */
+        capturedAt?: number;
+        /** Per-source sequence number, increasing by one per message */
+        sequence?: number;
+    };
+}
+
+/**
+ * Optional metadata attached to a log message.
+ */
+export type LogMessageMetadata = Pick<
+    LogMessage['payload'],
+    'stream' | 'file' | 'fields' | 'styledContent' | 'capturedAt' | 'sequence'
+>;
+
+/**
+ * Several log messages sent by a CLI client in one frame, in order.
+ */
+export interface LogBatchMessage {
+    type: MessageType.LOG_BATCH;
+    payload: {
+        logs: LogMessage['payload'][];
     };
 }
 
@@ -90,6 +144,93 @@ export interface HeartbeatMessage {
     };
 }
 
+/**
+ * Request for a page of older logs, sent by a viewer.
+ */
+export interface HistoryRequestMessage {
+    type: MessageType.HISTORY_REQUEST;
+    payload: {
+        /** Chosen by the viewer and echoed in the reply */
+        requestId: string;
+        /** Only logs captured before this time, in epoch milliseconds (default: newest) */
+        before?: number;
+        /** Maximum number of logs (capped at SERVER_DEFAULTS.HISTORY_PAGE_LIMIT) */
+        limit?: number;
+        /**
+         * Read the logs of this capture session instead of those matching
+         * the viewer's subscription
+         */
+        sessionId?: string;
+    };
+}
+
+/**
+ * Filter for the logs a viewer receives, both live and in history pages.
+ * Viewers that never subscribe receive every log.
+ */
+export interface SubscribeMessage {
+    type: MessageType.SUBSCRIBE;
+    payload: {
+        /** Only forward logs matching this filter (null = all logs) */
+        filter: Filter | null;
+    };
+}
+
+/**
+ * Search of the whole history (not just the recent logs) for logs matching
+ * a filter. Results are streamed back newest first in SEARCH_RESULTS pages.
+ * Starting a search stops the viewer's previous one.
+ */
+export interface SearchRequestMessage {
+    type: MessageType.SEARCH_REQUEST;
+    payload: {
+        /** Chosen by the viewer and echoed in the results */
+        searchId: string;
+        filter: Filter;
+        /** Stop after this many results (capped at SERVER_DEFAULTS.SEARCH_RESULT_LIMIT) */
+        limit?: number;
+    };
+}
+
+/**
+ * Stop a running search.
+ */
+export interface SearchCancelMessage {
+    type: MessageType.SEARCH_CANCEL;
+    payload: {
+        searchId: string;
+    };
+}
+
+/**
+ * Start a capture session, stopping the running one. Accepted from any
+ * connection, so the CLI can control sessions without registering; the
+ * sender gets a SESSIONS_LIST in reply.
+ */
+export interface SessionStartMessage {
+    type: MessageType.SESSION_START;
+    payload: {
+        label: string;
+    };
+}
+
+/**
+ * Stop the running capture session, if any. The sender gets a
+ * SESSIONS_LIST in reply.
+ */
+export interface SessionStopMessage {
+    type: MessageType.SESSION_STOP;
+    payload: Record<string, never>;
+}
+
+/**
+ * Ask for a SESSIONS_LIST.
+ */
+export interface SessionsRequestMessage {
+    type: MessageType.SESSIONS_REQUEST;
+    payload: Record<string, never>;
+}
+
 // ============================================================================
 // Server -> Client Messages
 // ============================================================================
@@ -119,6 +260,16 @@ export interface LogBroadcastMessage {
     payload: LogEntry;
 }
 
+/**
+ * Broadcast of several new log entries (from one source batch) to all viewers.
+ */
+export interface LogBroadcastBatchMessage {
+    type: MessageType.LOG_BROADCAST_BATCH;
+    payload: {
+        logs: LogEntry[];
+    };
+}
+
 /**
  * Notification when a source connects.
  */
@@ -160,6 +311,52 @@ export interface LogsBatchMessage {
     };
 }
 
+/**
+ * One chunk of a history page. A page is the newest logs before the
+ * requested time; it is sent in chunks of SERVER_DEFAULTS.HISTORY_CHUNK_SIZE,
+ * newest chunk first, with logs in each chunk oldest first.
+ */
+export interface HistoryPageMessage {
+    type: MessageType.HISTORY_PAGE;
+    payload: {
+        /** ID of the request this answers */
+        requestId: string;
+        logs: LogEntry[];
+        /** Whether this is the page's last chunk */
+        done: boolean;
+        /** Whether older logs may exist beyond this page */
+        hasMore: boolean;
+    };
+}
+
+/**
+ * A page of search results, newest first. The last page has `done` set;
+ * a cancelled search gets no further pages.
+ */
+export interface SearchResultsMessage {
+    type: MessageType.SEARCH_RESULTS;
+    payload: {
+        /** ID of the search these results belong to */
+        searchId: string;
+        logs: LogEntry[];
+        /** Whether the search has finished */
+        done: boolean;
+        /** Whether the search stopped at its result limit */
+        truncated: boolean;
+    };
+}
+
+/**
+ * All capture sessions, oldest first. Sent to viewers when they connect
+ * and whenever a session starts, stops or gains a source.
+ */
+export interface SessionsListMessage {
+    type: MessageType.SESSIONS_LIST;
+    payload: {
+        sessions: CaptureSession[];
+    };
+}
+
 /**
  * Error message.
  */
@@ -181,7 +378,15 @@ export interface ErrorMessage {
 export type ClientMessage =
     | SourceRegisterMessage
     | LogMessage
-    | HeartbeatMessage;
+    | LogBatchMessage
+    | HeartbeatMessage
+    | HistoryRequestMessage
+    | SubscribeMessage
+    | SearchRequestMessage
+    | SearchCancelMessage
+    | SessionStartMessage
+    | SessionStopMessage
+    | SessionsRequestMessage;
 
 /**
  * All possible server-to-client messages.
@@ -189,10 +394,14 @@ export type ClientMessage =
 export type ServerMessage =
     | WelcomeMessage
     | LogBroadcastMessage
+    | LogBroadcastBatchMessage
     | SourceConnectedMessage
     | SourceDisconnectedMessage
     | SourcesListMessage
     | LogsBatchMessage
+    | HistoryPageMessage
+    | SearchResultsMessage
+    | SessionsListMessage
     | ErrorMessage;
 
 /**
@@ -254,7 +463,8 @@ export function createLogMessage(
     content: string,
     raw: string,
     level: string,
-    originalTimestamp?: string
+    originalTimestamp?: string,
+    metadata: LogMessageMetadata = {}
 ): LogMessage {
     const payload: LogMessage['payload'] = {
         content,
@@ -264,12 +474,40 @@ export function createLogMessage(
     if (originalTimestamp !== undefined) {
         payload.originalTimestamp = originalTimestamp;
     }
+    if (metadata.stream !== undefined) {
+        payload.stream = metadata.stream;
+    }
+    if (metadata.file !== undefined) {
+        payload.file = metadata.file;
+    }
+    if (metadata.fields !== undefined) {
+        payload.fields = metadata.fields;
+    }
+    if (metadata.styledContent !== undefined) {
+        payload.styledContent = metadata.styledContent;
+    }
+    if (metadata.capturedAt !== undefined) {
+        payload.capturedAt = metadata.capturedAt;
+    }
+    if (metadata.sequence !== undefined) {
+        payload.sequence = metadata.sequence;
+    }
     return {
         type: MessageType.LOG,
         payload,
     };
 }
 
+/**
+ * Create a batch message from the payloads of several log messages.
+ */
+export function createLogBatchMessage(logs: LogMessage['payload'][]): LogBatchMessage {
+    return {
+        type: MessageType.LOG_BATCH,
+        payload: { logs },
+    };
+}
+
 /**
  * Create a source register message.
  */
@@ -298,3 +536,96 @@ export function createHeartbeatMessage(): HeartbeatMessage {
         },
     };
 }
+
+/**
+ * Create a history request message.
+ */
+export function createHistoryRequestMessage(
+    requestId: string,
+    before?: number,
+    limit?: number,
+    sessionId?: string
+): HistoryRequestMessage {
+    const payload: HistoryRequestMessage['payload'] = { requestId };
+    if (before !== undefined) {
+        payload.before = before;
+    }
+    if (limit !== undefined) {
+        payload.limit = limit;
+    }
+    if (sessionId !== undefined) {
+        payload.sessionId = sessionId;
+    }
+    return {
+        type: MessageType.HISTORY_REQUEST,
+        payload,
+    };
+}
+
+/**
+ * Create a subscribe message.
+ */
+export function createSubscribeMessage(filter: Filter | null): SubscribeMessage {
+    return {
+        type: MessageType.SUBSCRIBE,
+        payload: { filter },
+    };
+}
+
+/**
+ * Create a history search request message.
+ */
+export function createSearchRequestMessage(
+    searchId: string,
+    filter: Filter,
+    limit?: number
+): SearchRequestMessage {
+    const payload: SearchRequestMessage['payload'] = { searchId, filter };
+    if (limit !== undefined) {
+        payload.limit = limit;
+    }
+    return {
+        type: MessageType.SEARCH_REQUEST,
+        payload,
+    };
+}
+
+/**
+ * Create a session start message.
+ */
+export function createSessionStartMessage(label: string): SessionStartMessage {
+    return {
+        type: MessageType.SESSION_START,
+        payload: { label },
+    };
+}
+
+/**
+ * Create a session stop message.
+ */
+export function createSessionStopMessage(): SessionStopMessage {
+    return {
+        type: MessageType.SESSION_STOP,
+        payload: {},
+    };
+}
+
+/**
+ * Create a sessions list request message.
+ */
+export function createSessionsRequestMessage(): SessionsRequestMessage {
+    return {
+        type: MessageType.SESSIONS_REQUEST,
+        payload: {},
+    };
+}
+
+/**
+ * Create a search cancel message.
+ */
+export function createSearchCancelMessage(searchId: string): SearchCancelMessage {
+    return {
+        type: MessageType.SEARCH_CANCEL,
+        payload: { searchId },
+    };
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Token bucket rate limiting for Chronoscribe
+ *
+ * Used by the CLI to limit each source's line rate, and by the server to
+ * enforce a per-source ceiling.
+ */
+
+/**
+ * Token bucket: allows bursts of up to `burst` lines, refilled at `rate`
+ * lines per second.
+ */
+export class TokenBucket {
+    private readonly rate: number;
+    private readonly burst: number;
+    private tokens: number;
+    private lastRefill: number;
+
+    /**
+     * @param rate - Lines per second
+     * @param burst - Bucket size (default: one second's worth)
+     */
+    constructor(rate: number, burst: number = rate) {
+        this.rate = rate;
+        this.burst = Math.max(1, burst);
+        this.tokens = this.burst;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Take a token if one is available.
+     */
+    take(now: number = Date.now()): boolean {
+        const elapsed = now - this.lastRefill;
+        if (elapsed > 0) {
+            this.tokens = Math.min(this.burst, this.tokens + (elapsed * this.rate) / 1000);
+            this.lastRefill = now;
+        }
+
+        if (this.tokens >= 1) {
+            this.tokens--;
+            return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Syslog message parsing for Chronoscribe
+ *
+ * Parses RFC 5424 and RFC 3164 (BSD) syslog messages. Used by the CLI's
+ * `syslog` preset and by the server's syslog listeners.
+ */
+
+import { detectLevel } from './levels.js';
+import { LogLevel, type LogFields } from './types.js';
+
+/**
+ * A parsed syslog message.
+ */
+export interface SyslogMessage {
+    /** Level from the priority's severity, or detected from the message */
+    level: LogLevel;
+    /** Message text */
+    message: string;
+    /** Message time as ISO 8601 (as sent if it cannot be parsed) */
+    time?: string | undefined;
+    /** host, app, pid, msgid, structuredData and facility, where present */
+    fields: LogFields;
+}
+
+/**
+ * Syslog facility names, indexed by facility code.
+ */
+const SYSLOG_FACILITIES = [
+    'kern', 'user', 'mail', 'daemon', 'auth', 'syslog', 'lpr', 'news',
+    'uucp', 'cron', 'authpriv', 'ftp', 'ntp', 'security', 'console', 'solaris-cron',
+    'local0', 'local1', 'local2', 'local3', 'local4', 'local5', 'local6', 'local7',
+];
+
+/**
+ * RFC 5424: `<165>1 2003-10-11T22:14:15.003Z host app 123 ID47 [sd] message`
+ */
+const SYSLOG_5424 = /^<(?<pri>\d{1,3})>1 (?<time>\S+) (?<host>\S+) (?<app>\S+) (?<pid>\S+) (?<msgid>\S+) (?<data>-|(?:\[(?:[^\]\\]|\\.)*\])+)(?: (?<message>.*))?$/;
+
+/**
+ * RFC 3164 (BSD), optionally without the priority:
+ * `<34>Oct 11 22:14:15 mymachine su[123]: message`
+ */
+const SYSLOG_3164 = /^(?:<(?<pri>\d{1,3})>)?(?<time>[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (?<host>\S+) (?<app>[^:[\s]+)(?:\[(?<pid>\d+)\])?: (?<message>.*)$/;
+
+/**
+ * Parse an RFC 5424 or RFC 3164 syslog message. The level comes from the
+ * priority's severity when present, otherwise from the message text.
+ * Returns null if the line is not in either format.
+ */
+export function parseSyslogMessage(line: string): SyslogMessage | null {
+    const groups = (line.match(SYSLOG_5424) ?? line.match(SYSLOG_3164))?.groups;
+    if (!groups) return null;
+
+    const message = (groups['message'] ?? '').replace(/^\uFEFF/, '');
+    const fields: LogFields = {};
+    for (const key of ['host', 'app', 'msgid'] as const) {
+        const value = groups[key];
+        if (value && value !== '-') fields[key] = value;
+    }
+    if (groups['pid'] && groups['pid'] !== '-') {
+        fields['pid'] = /^\d+$/.test(groups['pid']) ? Number(groups['pid']) : groups['pid'];
+    }
+    if (groups['data'] && groups['data'] !== '-') fields['structuredData'] = groups['data'];
+
+    let level: LogLevel;
+    if (groups['pri'] !== undefined) {
+        const pri = Number(groups['pri']);
+        level = syslogSeverityLevel(pri % 8);
+        fields['facility'] = SYSLOG_FACILITIES[pri >> 3] ?? pri >> 3;
+    } else {
+        level = detectLevel(message);
+    }
+
+    return {
+        level,
+        message,
+        time: parseSyslogTime(groups['time'] ?? ''),
+        fields,
+    };
+}
+
+/**
+ * Map a syslog severity (0 emerg ... 7 debug) to a LogLevel.
+ */
+export function syslogSeverityLevel(severity: number): LogLevel {
+    if (severity <= 3) return LogLevel.ERROR;
+    if (severity === 4) return LogLevel.WARN;
+    if (severity <= 6) return LogLevel.INFO;
+    return LogLevel.DEBUG;
+}
+
+/**
+ * Convert a syslog time to ISO 8601. RFC 3164 times have no year, so the
+ * current year is assumed.
+ */
+function parseSyslogTime(text: string): string | undefined {
+    if (text === '-' || text === '') return undefined;
+    const bsd = text.match(/^([A-Z][a-z]{2}) +(\d{1,2}) (\d{2}:\d{2}:\d{2})$/);
+    const date = new Date(bsd ? `${bsd[1]} ${bsd[2]} ${new Date().getFullYear()} ${bsd[3]}` : text);
+    return Number.isNaN(date.getTime()) ? text : date.toISOString();
+}
@@ -27,6 +27,18 @@ export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
     [LogLevel.ERROR]: 3,
 };
 
+/**
+ * Output stream a log line was captured from.
+ * Only set when the CLI spawns the process itself (`chronoscribe run`).
+ */
+export type LogStream = 'stdout' | 'stderr';
+
+/**
+ * Structured attributes attached to a log entry.
+ * Values are whatever the source emitted (strings, numbers, nested objects).
+ */
+export type LogFields = Record<string, unknown>;
+
 /**
  * Represents a single log entry in the unified timeline.
  */
@@ -34,9 +46,21 @@ export interface LogEntry {
     /** Unique identifier for this log entry (UUID v4) */
     id: string;
 
-    /** ISO 8601 timestamp when the log was received by the server */
+    /**
+     * ISO 8601 timestamp when the line was captured by the CLI, or received
+     * by the server for clients that do not send a capture time
+     */
     timestamp: string;
 
+    /** High-resolution capture time in epoch milliseconds (fractional) */
+    capturedAt?: number;
+
+    /** Per-source sequence number assigned by the CLI, starting at 1 */
+    sequence?: number;
+
+    /** Lines from the same source missing just before this one (set by the server) */
+    gapBefore?: number;
+
     /** Name of the source that generated this log (e.g., "frontend", "api") */
     source: string;
 
@@ -54,6 +78,18 @@ export interface LogEntry {
 
     /** Format of the original timestamp */
     timestampFormat?: string;
+
+    /** Stream the line was captured from (when known) */
+    stream?: LogStream;
+
+    /** Path of the file the line was read from (file tailing mode) */
+    file?: string;
+
+    /** Structured attributes parsed from the log line (e.g. JSON keys) */
+    fields?: LogFields;
+
+    /** Content with its original ANSI escape sequences, if it had any */
+    styledContent?: string;
 }
 
 /**
@@ -143,6 +179,27 @@ export interface Bookmark {
     color?: 'red' | 'yellow' | 'green' | 'blue' | 'purple';
 }
 
+/**
+ * A named capture session: the logs received between its start and end,
+ * kept as a unit (e.g. one attempt at reproducing a bug).
+ */
+export interface CaptureSession {
+    /** Unique session identifier */
+    id: string;
+
+    /** Name given when the session was started */
+    label: string;
+
+    /** When the session started (ISO 8601) */
+    startedAt: string;
+
+    /** When the session was stopped (ISO 8601); unset while it is running */
+    endedAt?: string;
+
+    /** Names of the sources that sent logs during the session */
+    sources: string[];
+}
+
 /**
  * Alert configuration for pattern-based notifications.
  */
@@ -222,4 +279,13 @@ export const SERVER_DEFAULTS = {
 
     /** Number of recent logs to send to new connections */
     RECENT_LOGS_BUFFER: 1000,
+
+    /** Most logs returned for one history request */
+    HISTORY_PAGE_LIMIT: 5000,
+
+    /** Logs per frame when sending history to a viewer */
+    HISTORY_CHUNK_SIZE: 500,
+
+    /** Most results returned by one history search */
+    SEARCH_RESULT_LIMIT: 1000,
 } as const;
@@ -12,4 +12,6 @@ export default defineConfig({
     outDir: 'dist',
     minify: true,
     sourcemap: true,
+    // import.meta.url in the CommonJS bundle (e.g. to resolve tsx next to the CLI)
+    shims: true,
 });